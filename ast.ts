@@ -0,0 +1,639 @@
+/**
+ * The pattern AST behind {@link IrregularExpression}.
+ *
+ * Every builder method records a node instead of appending raw text, and the
+ * final pattern string is generated from the tree. Tools that want to inspect,
+ * rewrite or export a pattern should work with these nodes rather than with
+ * the generated source. Nodes are treated as immutable: the builder never
+ * edits a node in place once it is part of a tree.
+ *
+ * @module
+ */
+
+/** Shorthand character class escapes, e.g. `\d` or `\S`. */
+export type ClassEscape = 'd' | 'D' | 'w' | 'W' | 's' | 'S';
+
+/** A single member of a bracketed character set. */
+export type ClassMember =
+    | { kind: 'char'; value: string }
+    | { kind: 'range'; from: string; to: string }
+    | { kind: 'escape'; value: ClassEscape }
+    | { kind: 'property'; name: string; value?: string; negated: boolean }
+    | { kind: 'class'; node: CharacterSetNode };
+
+/**
+ * A `v`-flag set operation: keep only the characters also in `operand`
+ * (`intersection`, written `&&`), or drop those in it (`subtraction`, `--`).
+ */
+export interface SetOperation {
+    kind: 'intersection' | 'subtraction';
+    operand: ClassMember;
+}
+
+/** Matches a run of characters verbatim. */
+export interface LiteralNode {
+    type: 'literal';
+    value: string;
+}
+
+/** Matches any single character (`.`). */
+export interface AnyCharacterNode {
+    type: 'class';
+    kind: 'any';
+}
+
+/** Matches a shorthand class such as `\d` or `\w`. */
+export interface ClassEscapeNode {
+    type: 'class';
+    kind: 'escape';
+    value: ClassEscape;
+}
+
+/**
+ * Matches a Unicode property escape such as `\p{L}` or `\P{Script=Greek}`.
+ * Requires the `u` flag.
+ */
+export interface UnicodePropertyNode {
+    type: 'class';
+    kind: 'property';
+    name: string;
+    value?: string;
+    negated: boolean;
+}
+
+/**
+ * Matches one character from (or, when negated, outside of) a bracketed set.
+ * The set is the union of its members, narrowed by each of its `operations`
+ * in turn. Operations and nested classes need the `v` flag.
+ */
+export interface CharacterSetNode {
+    type: 'class';
+    kind: 'set';
+    negated: boolean;
+    members: ClassMember[];
+    operations?: SetOperation[];
+}
+
+/** Any node that matches exactly one character. */
+export type ClassNode = AnyCharacterNode | ClassEscapeNode | UnicodePropertyNode | CharacterSetNode;
+
+/** A capturing, named, non-capturing or atomic group. */
+export interface GroupNode {
+    type: 'group';
+    /** Whether the group captures. Named groups always capture. */
+    capturing: boolean;
+    name?: string;
+    /**
+     * Whether the group, once matched, is never backtracked into. Atomic groups
+     * do not capture; ECMAScript has no syntax for them, so they are emulated
+     * (see {@link lowerAtomic}).
+     */
+    atomic?: boolean;
+    body: PatternNode;
+}
+
+/**
+ * Repeats its body between `min` and `max` times (`max` of `null` is unbounded).
+ * A greedy quantifier matches as many repetitions as it can, a lazy one
+ * (`greedy: false`) as few as it can. A possessive quantifier is greedy and
+ * never gives repetitions back, like an atomic group around a greedy one.
+ */
+export interface QuantifierNode {
+    type: 'quantifier';
+    min: number;
+    max: number | null;
+    greedy: boolean;
+    possessive?: boolean;
+    body: PatternNode;
+}
+
+/** Matches any one of its alternatives. */
+export interface AlternationNode {
+    type: 'alternation';
+    alternatives: PatternNode[];
+}
+
+/** Matches its elements one after another. */
+export interface SequenceNode {
+    type: 'sequence';
+    elements: PatternNode[];
+}
+
+/** A zero-width anchor: `^`, `$`, `\b` or `\B`. */
+export interface AnchorNode {
+    type: 'assertion';
+    kind: 'startOfLine' | 'endOfLine' | 'wordBoundary' | 'nonWordBoundary';
+}
+
+/** A zero-width lookahead or lookbehind, optionally negated. */
+export interface LookaroundNode {
+    type: 'assertion';
+    kind: 'lookahead' | 'lookbehind';
+    negated: boolean;
+    body: PatternNode;
+}
+
+/** Any zero-width assertion. */
+export type AssertionNode = AnchorNode | LookaroundNode;
+
+/** Refers back to a capturing group by number or by name. */
+export interface BackreferenceNode {
+    type: 'backreference';
+    ref: number | string;
+}
+
+/** Any node of the pattern AST. */
+export type PatternNode =
+    | LiteralNode
+    | ClassNode
+    | GroupNode
+    | QuantifierNode
+    | AlternationNode
+    | SequenceNode
+    | AssertionNode
+    | BackreferenceNode;
+
+/**
+ * Wraps a list of nodes in a sequence, flattening nested sequences so that
+ * the tree stays shallow however the builder was chained.
+ *
+ * @param elements The nodes to match in order.
+ * @returns A sequence node.
+ */
+export function sequence(elements: PatternNode[]): SequenceNode {
+    const flat: PatternNode[] = [];
+    for (const element of elements) {
+        if (element.type === 'sequence') flat.push(...element.elements);
+        else flat.push(element);
+    }
+    return { type: 'sequence', elements: flat };
+}
+
+/**
+ * Combines alternatives into a single node. A single alternative is returned
+ * as-is rather than wrapped in an alternation.
+ *
+ * @param alternatives The alternatives to match.
+ * @returns The alternative itself, or an alternation node.
+ */
+export function alternation(alternatives: PatternNode[]): PatternNode {
+    return alternatives.length === 1 ? alternatives[0] : { type: 'alternation', alternatives };
+}
+
+/**
+ * Whether a quantifier may be applied to the node. Anchors match no
+ * characters, so repeating them is rejected rather than emitted.
+ *
+ * @param node The candidate node.
+ * @returns True if the node can be quantified.
+ */
+export function isQuantifiable(node: PatternNode): boolean {
+    if (node.type === 'assertion') return node.kind === 'lookahead' || node.kind === 'lookbehind';
+    if (node.type === 'sequence') return node.elements.length === 1 && isQuantifiable(node.elements[0]);
+    return true;
+}
+
+/**
+ * Escapes regex syntax characters so the text is matched literally.
+ *
+ * @param text The text to escape.
+ * @returns The escaped text.
+ */
+export function escapeLiteral(text: string): string {
+    return escapeControlCharacters(text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+}
+
+/**
+ * Escapes characters that are special inside a bracketed character set.
+ *
+ * @param text The text to escape.
+ * @returns The escaped text.
+ */
+export function escapeClassCharacter(text: string): string {
+    return escapeControlCharacters(text.replace(/[\\\]\[^-]/g, '\\$&'));
+}
+
+const CONTROL_ESCAPES: Record<string, string> = { '\t': 't', '\n': 'n', '\v': 'v', '\f': 'f', '\r': 'r' };
+
+/** Writes control and line-separator characters as escapes so the source stays printable. */
+function escapeControlCharacters(text: string): string {
+    // deno-lint-ignore no-control-regex
+    return text.replace(/[\x00-\x1f\x7f\u2028\u2029]/g, (char) => {
+        if (CONTROL_ESCAPES[char]) return `\\${CONTROL_ESCAPES[char]}`;
+        const code = char.charCodeAt(0);
+        return code > 0xff ? `\\u${code.toString(16)}` : `\\x${code.toString(16).padStart(2, '0')}`;
+    });
+}
+
+/** The result of {@link lowerAtomic}. */
+export interface LoweredPattern {
+    /** The pattern with atomic groups and possessive quantifiers emulated */
+    node: PatternNode;
+    /** The group number each capture group of the original pattern ended up with, in order */
+    captures: number[];
+    /** The total number of capture groups, including those added for the emulation */
+    groupCount: number;
+    /** The group numbers of the capture groups added around each hidden node, one per place it occurs */
+    hidden: Map<PatternNode, number[]>;
+}
+
+/**
+ * Rewrites atomic groups and possessive quantifiers into plain ECMAScript.
+ *
+ * An atomic group `(?>X)` becomes `(?=(X))\N`: the lookahead matches `X` once
+ * and captures what it matched, and the backreference then consumes exactly
+ * that text, leaving nothing inside to backtrack into. The added capture
+ * groups shift the numbers of the pattern's own groups, so numbered
+ * backreferences are rewritten to follow them.
+ *
+ * Nodes for which `hidden` returns true are wrapped in capture groups of
+ * their own in the same way, so what they matched can be read from a match
+ * without counting as one of the pattern's groups.
+ *
+ * @param node The pattern to rewrite.
+ * @param origins Receives the original node of each rewritten one, when given.
+ * @param hidden Picks the nodes to wrap in a hidden capture group.
+ * @returns The rewritten pattern and where its original and hidden groups ended up.
+ */
+export function lowerAtomic(
+    node: PatternNode,
+    origins?: Map<PatternNode, PatternNode>,
+    hidden: (node: PatternNode) => boolean = () => false,
+): LoweredPattern {
+    const captures: number[] = [];
+    const hiddenGroups = new Map<PatternNode, number[]>();
+    let groupCount = 0;
+    // First pass: number the groups as they will appear in the output
+    const count = (current: PatternNode): void => {
+        if (hidden(current)) groupCount++;
+        switch (current.type) {
+            case 'group':
+                if (current.atomic || current.capturing) groupCount++;
+                if (current.capturing) captures.push(groupCount);
+                return count(current.body);
+            case 'quantifier':
+                if (current.possessive) groupCount++;
+                return count(current.body);
+            case 'alternation':
+                return current.alternatives.forEach(count);
+            case 'sequence':
+                return current.elements.forEach(count);
+            case 'assertion':
+                if (current.kind === 'lookahead' || current.kind === 'lookbehind') count(current.body);
+                return;
+        }
+    };
+    count(node);
+    if (groupCount === captures.length) return { node, captures, groupCount, hidden: hiddenGroups };
+
+    let next = 0;
+    const atomic = (body: PatternNode): PatternNode => {
+        const helper = ++next;
+        return sequence([
+            { type: 'assertion', kind: 'lookahead', negated: false, body: { type: 'group', capturing: true, body: lower(body) } },
+            { type: 'backreference', ref: helper },
+        ]);
+    };
+    const lower = (current: PatternNode): PatternNode => {
+        if (!hidden(current)) return lowerOnce(current);
+        const group = ++next;
+        hiddenGroups.set(current, [...hiddenGroups.get(current) ?? [], group]);
+        return { type: 'group', capturing: true, body: lowerOnce(current) };
+    };
+    const lowerOnce = (current: PatternNode): PatternNode => {
+        const lowered = lowerNode(current);
+        origins?.set(lowered, origins.get(current) ?? current);
+        return lowered;
+    };
+    const lowerNode = (current: PatternNode): PatternNode => {
+        switch (current.type) {
+            case 'group':
+                if (current.atomic) return atomic(current.body);
+                if (current.capturing) next++;
+                return { ...current, body: lower(current.body) };
+            case 'quantifier': {
+                if (!current.possessive) return { ...current, body: lower(current.body) };
+                const repeated: QuantifierNode = { ...current, possessive: false };
+                origins?.set(repeated, current);
+                return atomic(repeated);
+            }
+            case 'alternation':
+                return { type: 'alternation', alternatives: current.alternatives.map(lower) };
+            case 'sequence':
+                return sequence(current.elements.map(lower));
+            case 'assertion':
+                if (current.kind === 'lookahead' || current.kind === 'lookbehind') {
+                    return { ...current, body: lower(current.body) };
+                }
+                return current;
+            case 'backreference':
+                if (typeof current.ref === 'number' && current.ref <= captures.length) {
+                    return { type: 'backreference', ref: captures[current.ref - 1] };
+                }
+                return current;
+            default:
+                return current;
+        }
+    };
+    return { node: lower(node), captures, groupCount, hidden: hiddenGroups };
+}
+
+/**
+ * Generates ECMAScript regex source for a node.
+ *
+ * @param node The node to generate.
+ * @param flags The flags the source will be compiled with. With `v`, character
+ * classes are written in the stricter `unicodeSets` syntax.
+ * @param hidden Picks nodes to wrap in hidden capture groups (see {@link lowerAtomic}).
+ * @returns The pattern source, without delimiters or flags.
+ *
+ * @example
+ * ```typescript
+ * generate({ type: 'quantifier', min: 1, max: null, greedy: true, body: { type: 'class', kind: 'escape', value: 'd' } });
+ * // "\\d+"
+ * ```
+ */
+export function generate(node: PatternNode, flags = '', hidden?: (node: PatternNode) => boolean): string {
+    return new Emitter(flags.includes('v')).emit(lowerAtomic(node, undefined, hidden).node);
+}
+
+/**
+ * Generates regex source like {@link generate}, and records where each node
+ * of the pattern ended up in it.
+ *
+ * @param node The node to generate.
+ * @param flags The flags the source will be compiled with.
+ * @returns The source, and the `[start, end)` offsets of each node written
+ * to it. Nodes merged away by the rewrite of atomic groups have no entry.
+ */
+export function generateWithSpans(
+    node: PatternNode,
+    flags = '',
+): { source: string; spans: Map<PatternNode, [number, number]> } {
+    const origins = new Map<PatternNode, PatternNode>();
+    const emitted = new Map<PatternNode, [number, number]>();
+    const source = new Emitter(flags.includes('v'), emitted).emit(lowerAtomic(node, origins).node);
+    const spans = new Map<PatternNode, [number, number]>();
+    for (const [lowered, span] of emitted) {
+        const original = origins.get(lowered) ?? lowered;
+        const known = spans.get(original);
+        // A possessive quantifier becomes several nodes; the outermost covers all of it
+        if (!known || span[1] - span[0] > known[1] - known[0]) spans.set(original, span);
+    }
+    return { source, spans };
+}
+
+/**
+ * Generates the quantifier suffix for a node, e.g. `+`, `{3}` or `{2,}?`.
+ *
+ * @param node The quantifier node.
+ * @returns The suffix to place after the quantified atom.
+ */
+export function quantifierSuffix(node: QuantifierNode): string {
+    const { min, max } = node;
+    let suffix: string;
+    if (min === 0 && max === null) suffix = '*';
+    else if (min === 1 && max === null) suffix = '+';
+    else if (min === 0 && max === 1) suffix = '?';
+    else if (min === max) suffix = `{${min}}`;
+    else if (max === null) suffix = `{${min},}`;
+    else suffix = `{${min},${max}}`;
+    return node.greedy ? suffix : `${suffix}?`;
+}
+
+/**
+ * Whether a character set can only be written with the `v` flag: it uses set
+ * operations, or nests a class that cannot be merged into its parent.
+ *
+ * @param node The character set.
+ * @returns True if the set needs the `v` flag.
+ */
+export function needsUnicodeSets(node: CharacterSetNode): boolean {
+    if (node.operations?.length) return true;
+    return node.members.some(member => member.kind === 'class');
+}
+
+/**
+ * Whether a pattern contains anything that needs the `u` (or `v`) flag:
+ * Unicode property escapes, and characters above U+FFFF, which without it
+ * are two separate code units.
+ *
+ * @param node The pattern.
+ * @returns True if the pattern needs the `u` flag.
+ */
+export function needsUnicode(node: PatternNode): boolean {
+    const astral = (text: string) => /[\uD800-\uDBFF][\uDC00-\uDFFF]/.test(text);
+    const memberNeedsUnicode = (member: ClassMember): boolean => {
+        switch (member.kind) {
+            case 'property':
+                return true;
+            case 'char':
+                return astral(member.value);
+            case 'range':
+                return astral(member.from) || astral(member.to);
+            case 'class':
+                return needsUnicode(member.node);
+            default:
+                return false;
+        }
+    };
+    switch (node.type) {
+        case 'literal':
+            return astral(node.value);
+        case 'class':
+            if (node.kind === 'property') return true;
+            if (node.kind !== 'set') return false;
+            return node.members.some(memberNeedsUnicode) ||
+                (node.operations ?? []).some(operation => memberNeedsUnicode(operation.operand));
+        case 'group':
+        case 'quantifier':
+            return needsUnicode(node.body);
+        case 'alternation':
+            return node.alternatives.some(needsUnicode);
+        case 'sequence':
+            return node.elements.some(needsUnicode);
+        case 'assertion':
+            return (node.kind === 'lookahead' || node.kind === 'lookbehind') && needsUnicode(node.body);
+        default:
+            return false;
+    }
+}
+
+/** Punctuation that must be escaped inside a `v`-mode character class. */
+const UNICODE_SETS_SPECIALS = /[()[\]{}\/\-\\|&!#$%*+,.:;<=>?@^`~]/g;
+
+/** Writes source for nodes that have already been through {@link lowerAtomic}. */
+class Emitter {
+    /**
+     * @param unicodeSets Whether to write classes in `v`-flag syntax.
+     * @param spans Receives the offsets of each node written, when given.
+     */
+    constructor(
+        private readonly unicodeSets: boolean,
+        private readonly spans?: Map<PatternNode, [number, number]>,
+    ) {}
+
+    /**
+     * Writes a node.
+     *
+     * @param node The node to write.
+     * @param at The offset in the whole source where the node will start.
+     */
+    emit(node: PatternNode, at = 0): string {
+        const source = this.emitNode(node, at);
+        this.spans?.set(node, [at, at + source.length]);
+        return source;
+    }
+
+    private emitNode(node: PatternNode, at: number): string {
+        switch (node.type) {
+            case 'literal':
+                return escapeLiteral(node.value);
+            case 'class':
+                return this.class(node);
+            case 'group': {
+                const prefix = `(${groupPrefix(node)}`;
+                return `${prefix}${this.emit(node.body, at + prefix.length)})`;
+            }
+            case 'quantifier':
+                return this.atom(node.body, at) + quantifierSuffix(node);
+            case 'alternation':
+                return node.alternatives.map(alternative => {
+                    const source = this.emit(alternative, at);
+                    at += source.length + 1;
+                    return source;
+                }).join('|');
+            case 'sequence':
+                return this.sequence(node.elements, at);
+            case 'assertion':
+                return this.assertion(node, at);
+            case 'backreference':
+                return typeof node.ref === 'number' ? `\\${node.ref}` : `\\k<${node.ref}>`;
+        }
+    }
+
+    private class(node: ClassNode): string {
+        switch (node.kind) {
+            case 'any':
+                return '.';
+            case 'escape':
+                return `\\${node.value}`;
+            case 'property':
+                return generateProperty(node);
+            case 'set':
+                return this.set(node);
+        }
+    }
+
+    private set(node: CharacterSetNode): string {
+        const negation = node.negated ? '^' : '';
+        const operations = node.operations ?? [];
+        if (operations.length === 0) {
+            return `[${negation}${node.members.map((member, index) => this.member(member, index, node.members)).join('')}]`;
+        }
+        // Operands of `&&` and `--` are single atoms, so a union of several
+        // members, or a switch between operators, needs its own brackets
+        let source = node.members.length === 1 && node.members[0].kind !== 'range'
+            ? this.member(node.members[0], 0, node.members)
+            : this.set({ type: 'class', kind: 'set', negated: false, members: node.members });
+        operations.forEach((operation, index) => {
+            if (index > 0 && operation.kind !== operations[index - 1].kind) source = `[${source}]`;
+            source += `${operation.kind === 'intersection' ? '&&' : '--'}${this.member(operation.operand, 0, [operation.operand])}`;
+        });
+        return `[${negation}${source}]`;
+    }
+
+    private member(member: ClassMember, index: number, members: ClassMember[]): string {
+        switch (member.kind) {
+            case 'char':
+                if (this.unicodeSets) return this.setCharacter(member.value);
+                // A trailing '-' or a non-leading '^' needs no escape; leaving them bare
+                // keeps parsed patterns such as `[\w.-]` unchanged.
+                if (member.value === '-' && index > 0 && index === members.length - 1) return '-';
+                if (member.value === '^' && index > 0) return '^';
+                return escapeClassCharacter(member.value);
+            case 'range':
+                if (this.unicodeSets) return `${this.setCharacter(member.from)}-${this.setCharacter(member.to)}`;
+                return `${escapeClassCharacter(member.from)}-${escapeClassCharacter(member.to)}`;
+            case 'escape':
+                return `\\${member.value}`;
+            case 'property':
+                return generateProperty(member);
+            case 'class':
+                if (this.unicodeSets) return this.set(member.node);
+                // Without `v` a plain nested union can only be written inline
+                return this.set(member.node).slice(member.node.negated ? 2 : 1, -1);
+        }
+    }
+
+    private setCharacter(char: string): string {
+        return escapeControlCharacters(char.replace(UNICODE_SETS_SPECIALS, '\\$&'));
+    }
+
+    private assertion(node: AssertionNode, at: number): string {
+        switch (node.kind) {
+            case 'startOfLine':
+                return '^';
+            case 'endOfLine':
+                return '$';
+            case 'wordBoundary':
+                return '\\b';
+            case 'nonWordBoundary':
+                return '\\B';
+            case 'lookahead':
+                return `(?${node.negated ? '!' : '='}${this.emit(node.body, at + 3)})`;
+            case 'lookbehind':
+                return `(?<${node.negated ? '!' : '='}${this.emit(node.body, at + 4)})`;
+        }
+    }
+
+    private sequence(elements: PatternNode[], at: number): string {
+        let source = '';
+        elements.forEach((element, index) => {
+            // `\1` followed by a literal `0` would read as `\10`
+            const next = elements[index + 1];
+            const wrap = element.type === 'alternation' || (
+                element.type === 'backreference' && typeof element.ref === 'number' && next !== undefined &&
+                /^\d/.test(new Emitter(this.unicodeSets).emit(next))
+            );
+            source += wrap ? `(?:${this.emit(element, at + source.length + 3)})` : this.emit(element, at + source.length);
+        });
+        return source;
+    }
+
+    /** Records the span of a single-element sequence written as its element. */
+    private atomOf(node: PatternNode, source: string, at: number): string {
+        this.spans?.set(node, [at, at + source.length]);
+        return source;
+    }
+
+    /**
+     * Generates a node so that a following quantifier applies to all of it,
+     * wrapping it in a non-capturing group when it is not a single atom.
+     */
+    private atom(node: PatternNode, at: number): string {
+        switch (node.type) {
+            case 'class':
+            case 'group':
+            case 'backreference':
+                return this.emit(node, at);
+            case 'literal':
+                return node.value.length === 1 ? this.emit(node, at) : `(?:${this.emit(node, at + 3)})`;
+            case 'sequence':
+                if (node.elements.length !== 1) return `(?:${this.emit(node, at + 3)})`;
+                return this.atomOf(node, this.atom(node.elements[0], at), at);
+            default:
+                return `(?:${this.emit(node, at + 3)})`;
+        }
+    }
+}
+
+function groupPrefix(node: GroupNode): string {
+    if (!node.capturing) return '?:';
+    return node.name === undefined ? '' : `?<${node.name}>`;
+}
+
+function generateProperty(property: { name: string; value?: string; negated: boolean }): string {
+    const body = property.value === undefined ? property.name : `${property.name}=${property.value}`;
+    return `\\${property.negated ? 'P' : 'p'}{${body}}`;
+}
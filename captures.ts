@@ -0,0 +1,92 @@
+/**
+ * Types that track the capture groups of an {@link IrregularExpression} as it
+ * is built, so that matches, replacement callbacks and backreferences are
+ * checked against the groups the pattern actually has.
+ *
+ * @module
+ */
+
+import type { IrregularExpression } from './mod.ts';
+
+/**
+ * The `groups` object of a match: one property per named group, or
+ * `undefined` when the pattern has none. When the names are not known, as
+ * for a parsed pattern, any name may be read. A group that did not take
+ * part in the match, such as one inside `zeroOrOne()` or an `or()` branch
+ * that was not taken, is `undefined`.
+ */
+export type NamedGroups<Named extends string> = string extends Named ? { [name: string]: string | undefined } | undefined
+    : [Named] extends [never] ? undefined
+    : { [Name in Named]: string | undefined };
+
+/** The text of each capture group, or `undefined` for a group that did not take part in the match. */
+export type CaptureValues<Captures extends string[]> = { [Index in keyof Captures]: Captures[Index] | undefined };
+
+/**
+ * A match returned by `execute()`. Index 0 is the whole match, followed by
+ * one entry per capture group, and `groups` has exactly the pattern's named
+ * groups, so reading a name the pattern does not have is a compile-time error.
+ * Groups that did not take part in the match are `undefined`.
+ *
+ * @example
+ * ```typescript
+ * const [match] = IrregularExpression.match()
+ *   .namedCapture("year", group => group.digit().exactly(4))
+ *   .execute("2024");
+ *
+ * match.groups.year; // string | undefined
+ * match.groups.month; // error: property 'month' does not exist
+ * ```
+ */
+export type CaptureMatch<Named extends string, Captures extends string[]> = [string, ...CaptureValues<Captures>] & {
+    /** The offset of the match in the input */
+    index: number;
+    /** The string that was searched */
+    input: string;
+    groups: NamedGroups<Named>;
+    /** The start and end offsets of the match and each group, with the `d` flag */
+    indices?: RegExpIndicesArray;
+};
+
+/**
+ * A `replace()` callback. It receives the match, then each capture group,
+ * the offset of the match, the input, and the named groups if there are any.
+ * When the groups are not known, the named groups argument is optional.
+ */
+export type ReplaceCallback<Named extends string, Captures extends string[]> = (
+    match: string,
+    ...args: [
+        ...captures: CaptureValues<Captures>,
+        offset: number,
+        input: string,
+        ...groups: string extends Named ? [groups?: NamedGroups<Named>]
+            : [Named] extends [never] ? []
+            : [groups: NamedGroups<Named>],
+    ]
+) => string;
+
+/** A `replaceAsync()` callback: a {@link ReplaceCallback} that may return a promise. */
+export type AsyncReplaceCallback<Named extends string, Captures extends string[]> = (
+    ...args: Parameters<ReplaceCallback<Named, Captures>>
+) => string | Promise<string>;
+
+/**
+ * The numbers that can be passed to `backreference()`: 1 up to the number of
+ * capture groups added so far, or any number when the count is unknown.
+ */
+export type CaptureNumber<Captures extends string[], Counted extends unknown[] = [], Numbers = never> =
+    number extends Captures['length'] ? number
+        : Counted['length'] extends Captures['length'] ? Numbers
+        : CaptureNumber<Captures, [...Counted, unknown], Numbers | [...Counted, unknown]['length']>;
+
+/** The group names of several builders together, for `IrregularExpression.combine()`. */
+export type CombinedNames<Expressions extends IrregularExpression<string, string[]>[]> = {
+    [Index in keyof Expressions]: Expressions[Index] extends IrregularExpression<infer Named, string[]> ? Named : never;
+}[number];
+
+/** The capture groups of several builders one after another, for `IrregularExpression.combine()`. */
+export type CombinedCaptures<Expressions extends IrregularExpression<string, string[]>[]> = Expressions extends []
+    ? []
+    : Expressions extends [IrregularExpression<string, infer Captures>, ...infer Rest extends IrregularExpression<string, string[]>[]]
+    ? [...Captures, ...CombinedCaptures<Rest>]
+    : string[];
@@ -0,0 +1,382 @@
+/**
+ * A sub-builder for single character classes, used by
+ * `IrregularExpression.charClass()`, and the fallback that rewrites `v`-flag
+ * set operations for runtimes without `unicodeSets` support.
+ *
+ * @module
+ */
+
+import { type CharacterSetNode, type ClassEscape, type ClassMember, generate, type SetOperation } from './ast.ts';
+import { isUnicodeProperty } from './parser.ts';
+import type { InvalidArgumentCode } from './errors.ts';
+
+/**
+ * Builds one bracketed character class, such as `[a-z0-9_\-]`, from parts.
+ * Characters are escaped as needed, so `chars("-]")` matches a hyphen and a
+ * closing bracket rather than forming a range.
+ *
+ * @example
+ * ```typescript
+ * const regex = IrregularExpression.match()
+ *   .charClass(c => c.range('a', 'z').digit().chars('_-'))
+ *   .oneOrMore()
+ *   .build();
+ *
+ * console.log(regex.source); // "[a-z\\d_-]+"
+ * ```
+ */
+export class CharacterClassBuilder {
+    /** The characters, ranges and escapes whose union forms the class */
+    private members: ClassMember[] = [];
+
+    /** Intersections and subtractions applied to the union, in order */
+    private operations: SetOperation[] = [];
+
+    /** Whether the class matches characters outside the set instead */
+    private negated = false;
+
+    /**
+     * Use `IrregularExpression.charClass()` rather than constructing one directly.
+     *
+     * @param onError Receives the message, error code and offending argument of each invalid argument.
+     */
+    constructor(
+        private readonly onError: (message: string, code: InvalidArgumentCode, argument: unknown) => void = () => {},
+    ) {}
+
+    /**
+     * Adds each of the given characters to the class, literally.
+     *
+     * @param text The characters to add.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * IrregularExpression.match().charClass(c => c.chars("a-z")).getPattern(); // "[a\\-z]"
+     * ```
+     */
+    chars(text: string): this {
+        for (const char of text) this.members.push({ kind: 'char', value: char });
+        return this;
+    }
+
+    /**
+     * Adds a range of characters to the class.
+     *
+     * @param start The first character of the range.
+     * @param end The last character of the range.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * IrregularExpression.match().charClass(c => c.range("a", "f").range("0", "9")).getPattern(); // "[a-f0-9]"
+     * ```
+     */
+    range(start: string, end: string): this {
+        if ([...start].length !== 1 || [...end].length !== 1 || start.codePointAt(0)! > end.codePointAt(0)!) {
+            this.onError('range expects two single characters in ascending order.', 'invalid-range', [start, end]);
+            return this;
+        }
+        this.members.push({ kind: 'range', from: start, to: end });
+        return this;
+    }
+
+    /**
+     * Adds digits (`\d`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    digit(): this {
+        return this.escape('d');
+    }
+
+    /**
+     * Adds non-digits (`\D`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    nonDigit(): this {
+        return this.escape('D');
+    }
+
+    /**
+     * Adds word characters (`\w`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    wordCharacter(): this {
+        return this.escape('w');
+    }
+
+    /**
+     * Adds non-word characters (`\W`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    nonWordCharacter(): this {
+        return this.escape('W');
+    }
+
+    /**
+     * Adds whitespace (`\s`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    whitespace(): this {
+        return this.escape('s');
+    }
+
+    /**
+     * Adds non-whitespace (`\S`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    nonWhitespace(): this {
+        return this.escape('S');
+    }
+
+    /**
+     * Adds characters with a Unicode property to the class.
+     *
+     * @param name A property name, or a lone General_Category value such as `Lu`.
+     * @param value The property value, for properties that take one.
+     * @returns The current instance for chaining.
+     */
+    unicodeProperty(name: string, value?: string): this {
+        return this.property('unicodeProperty', name, value, false);
+    }
+
+    /**
+     * Adds characters without a Unicode property to the class.
+     *
+     * @param name A property name, or a lone General_Category value such as `Lu`.
+     * @param value The property value, for properties that take one.
+     * @returns The current instance for chaining.
+     */
+    notUnicodeProperty(name: string, value?: string): this {
+        return this.property('notUnicodeProperty', name, value, true);
+    }
+
+    /**
+     * Adds letters in any script (`\p{L}`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    letter(): this {
+        return this.property('letter', 'L', undefined, false);
+    }
+
+    /**
+     * Adds uppercase letters in any script (`\p{Lu}`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    uppercaseLetter(): this {
+        return this.property('uppercaseLetter', 'Lu', undefined, false);
+    }
+
+    /**
+     * Adds lowercase letters in any script (`\p{Ll}`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    lowercaseLetter(): this {
+        return this.property('lowercaseLetter', 'Ll', undefined, false);
+    }
+
+    /**
+     * Adds the characters of a script, such as `Greek`, to the class.
+     *
+     * @param name The script name or its four-letter alias.
+     * @returns The current instance for chaining.
+     */
+    script(name: string): this {
+        return this.property('script', 'Script', name, false);
+    }
+
+    /**
+     * Adds emoji pictographs (`\p{Extended_Pictographic}`) to the class.
+     *
+     * @returns The current instance for chaining.
+     */
+    emoji(): this {
+        return this.property('emoji', 'Extended_Pictographic', undefined, false);
+    }
+
+    /**
+     * Adds the characters of another class to this one.
+     *
+     * @param callback A function that defines the class to add.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * IrregularExpression.match()
+     *   .charClass(c => c.digit().union(other => other.chars("abc").negate()))
+     *   .getPattern(); // "[\\d[^abc]]", with the 'v' flag
+     * ```
+     */
+    union(callback: (other: CharacterClassBuilder) => CharacterClassBuilder): this {
+        const node = this.nested(callback);
+        // A plain union can be merged in place and needs no `v` flag
+        if (!node.negated && !node.operations?.length) this.members.push(...node.members);
+        else this.members.push({ kind: 'class', node });
+        return this;
+    }
+
+    /**
+     * Keeps only the characters that are also in another class (`&&`).
+     * Requires the `v` flag, which is turned on when the runtime supports it.
+     *
+     * @param callback A function that defines the class to intersect with.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * IrregularExpression.match()
+     *   .charClass(c => c.script("Greek").intersect(other => other.letter()))
+     *   .getPattern(); // "[\\p{Script=Greek}&&\\p{L}]"
+     * ```
+     */
+    intersect(callback: (other: CharacterClassBuilder) => CharacterClassBuilder): this {
+        this.operations.push({ kind: 'intersection', operand: this.operand(this.nested(callback)) });
+        return this;
+    }
+
+    /**
+     * Removes the characters that are in another class (`--`). Requires the
+     * `v` flag, which is turned on when the runtime supports it.
+     *
+     * @param callback A function that defines the class to remove.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * IrregularExpression.match()
+     *   .charClass(c => c.range("a", "z").subtract(other => other.chars("aeiou")))
+     *   .getPattern(); // "[[a-z]--[aeiou]]"
+     * ```
+     */
+    subtract(callback: (other: CharacterClassBuilder) => CharacterClassBuilder): this {
+        this.operations.push({ kind: 'subtraction', operand: this.operand(this.nested(callback)) });
+        return this;
+    }
+
+    /**
+     * Makes the class match any character outside the set instead.
+     *
+     * @returns The current instance for chaining.
+     */
+    negate(): this {
+        this.negated = !this.negated;
+        return this;
+    }
+
+    /**
+     * Gets the class as an AST node.
+     *
+     * @returns The character set node.
+     */
+    toAST(): CharacterSetNode {
+        const node: CharacterSetNode = { type: 'class', kind: 'set', negated: this.negated, members: [...this.members] };
+        if (this.operations.length > 0) node.operations = [...this.operations];
+        return node;
+    }
+
+    private escape(value: ClassEscape): this {
+        this.members.push({ kind: 'escape', value });
+        return this;
+    }
+
+    private property(method: string, name: string, value: string | undefined, negated: boolean): this {
+        if (!isUnicodeProperty(name, value)) {
+            const property = value === undefined ? name : `${name}=${value}`;
+            this.onError(`${method} expects a Unicode property supported by ECMAScript, got '${property}'.`, 'unsupported-property', property);
+            return this;
+        }
+        this.members.push(value === undefined ? { kind: 'property', name, negated } : { kind: 'property', name, value, negated });
+        return this;
+    }
+
+    private nested(callback: (other: CharacterClassBuilder) => CharacterClassBuilder): CharacterSetNode {
+        const other = new CharacterClassBuilder(this.onError);
+        callback(other);
+        return other.toAST();
+    }
+
+    /** An operand is written bare when it is a single escape or property, bracketed otherwise. */
+    private operand(node: CharacterSetNode): ClassMember {
+        const [only] = node.members;
+        if (!node.negated && !node.operations?.length && node.members.length === 1 && (only.kind === 'escape' || only.kind === 'property')) {
+            return only;
+        }
+        return { kind: 'class', node };
+    }
+}
+
+/** Whether this runtime accepts the `v` (unicodeSets) flag. */
+export const SUPPORTS_UNICODE_SETS: boolean = (() => {
+    try {
+        new RegExp('', 'v');
+        return true;
+    } catch {
+        return false;
+    }
+})();
+
+/**
+ * Rewrites a character set that needs the `v` flag into a plain set of
+ * code point ranges that works with just `u`. Every code point is tested
+ * against the set, so this is slow compared to building the class directly,
+ * and it is only meant for runtimes without `v` support. Case-insensitive
+ * matching of the result may differ slightly from `v` mode.
+ *
+ * @param node The character set to expand.
+ * @returns An equivalent set without operations or nested classes.
+ *
+ * @example
+ * ```typescript
+ * const consonant = IrregularExpression.match()
+ *   .charClass(c => c.range('a', 'z').subtract(v => v.chars('aeiou')))
+ *   .toAST();
+ * // expandCharacterSet(...) gives [b-df-hj-np-tv-z]
+ * ```
+ */
+export function expandCharacterSet(node: CharacterSetNode): CharacterSetNode {
+    const contains = setMatcher(node);
+    const members: ClassMember[] = [];
+    let start = -1;
+    for (let codePoint = 0; codePoint <= 0x110000; codePoint++) {
+        const inside = codePoint < 0x110000 && contains(String.fromCodePoint(codePoint));
+        if (inside && start < 0) start = codePoint;
+        if (!inside && start >= 0) {
+            const [from, to] = [String.fromCodePoint(start), String.fromCodePoint(codePoint - 1)];
+            members.push(from === to ? { kind: 'char', value: from } : { kind: 'range', from, to });
+            start = -1;
+        }
+    }
+    return { type: 'class', kind: 'set', negated: false, members };
+}
+
+/** Builds a membership test for a set, compiling each flat union as one `u` regex. */
+function setMatcher(node: CharacterSetNode): (char: string) => boolean {
+    const flat = node.members.filter(member => member.kind !== 'class');
+    const source = generate({ type: 'class', kind: 'set', negated: false, members: flat }, 'u');
+    const union = flat.length > 0 ? new RegExp(`^${source}$`, 'u') : null;
+    const nested = node.members.flatMap(member => member.kind === 'class' ? [setMatcher(member.node)] : []);
+    const operations = (node.operations ?? []).map(operation => ({
+        kind: operation.kind,
+        contains: setMatcher(operation.operand.kind === 'class'
+            ? operation.operand.node
+            : { type: 'class', kind: 'set', negated: false, members: [operation.operand] }),
+    }));
+    return (char) => {
+        let inside = (union?.test(char) ?? false) || nested.some(contains => contains(char));
+        for (const operation of operations) {
+            if (!inside) break;
+            const inOperand = operation.contains(char);
+            inside = operation.kind === 'intersection' ? inOperand : !inOperand;
+        }
+        return inside !== node.negated;
+    };
+}
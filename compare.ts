@@ -0,0 +1,490 @@
+/**
+ * Language comparison for `IrregularExpression.compare()`.
+ *
+ * Each pattern is compiled to an NFA whose edges are labelled with sets of
+ * characters, the labels of both NFAs are split into a shared alphabet of
+ * disjoint ranges, and the product of the two (determinized lazily) is
+ * searched breadth-first for states that one pattern accepts and the other
+ * does not. Breadth-first order makes the first such string the shortest.
+ *
+ * Only the regular subset can be compared: backreferences, lookarounds, word
+ * boundaries, atomic groups, possessive quantifiers and multiline anchors are
+ * rejected with an {@link UnanalyzablePatternError}.
+ *
+ * @module
+ */
+
+import { type ClassNode, generate, type PatternNode } from './ast.ts';
+
+/** How the strings matched by two patterns relate. */
+export type PatternRelation = 'equivalent' | 'aSubsetOfB' | 'bSubsetOfA' | 'incomparable';
+
+/** The result of {@link comparePatterns}. */
+export interface PatternComparison {
+    relation: PatternRelation;
+    /** The shortest string `a` matches in full and `b` does not, or null if there is none */
+    onlyA: string | null;
+    /** The shortest string `b` matches in full and `a` does not, or null if there is none */
+    onlyB: string | null;
+}
+
+/** Thrown when a pattern uses a construct the comparison cannot model. */
+export class UnanalyzablePatternError extends Error {
+    /** Which pattern is outside the analyzable subset */
+    readonly pattern: 'a' | 'b';
+    /** The offending construct, as pattern source such as `\1` or `(?=x)`, or `flags` or `validate()` */
+    readonly construct: string;
+
+    constructor(pattern: 'a' | 'b', construct: string, reason: string) {
+        super(`Pattern ${pattern} cannot be compared: ${reason}`);
+        this.name = 'UnanalyzablePatternError';
+        this.pattern = pattern;
+        this.construct = construct;
+    }
+}
+
+/** Inclusive code point (or code unit) ranges, sorted and disjoint. */
+type Ranges = [number, number][];
+
+interface NfaState {
+    epsilon: number[];
+    /** Edges consuming one character; `symbols` is filled in once the alphabet is known */
+    edges: { ranges: Ranges; symbols: Set<number>; to: number }[];
+    /** Edges that may only be taken at the start (`^`) or end (`$`) of the input */
+    anchors: { kind: 'start' | 'end'; to: number }[];
+}
+
+interface Nfa {
+    states: NfaState[];
+    accept: number;
+}
+
+/** How many pairs of states the product may reach before giving up. */
+const MAX_PRODUCT_STATES = 100_000;
+
+const DIGIT: Ranges = [[0x30, 0x39]];
+const WORD: Ranges = [[0x30, 0x39], [0x41, 0x5a], [0x5f, 0x5f], [0x61, 0x7a]];
+const SPACE: Ranges = [
+    [0x09, 0x0d], [0x20, 0x20], [0xa0, 0xa0], [0x1680, 0x1680], [0x2000, 0x200a],
+    [0x2028, 0x2029], [0x202f, 0x202f], [0x205f, 0x205f], [0x3000, 0x3000], [0xfeff, 0xfeff],
+];
+const LINE_TERMINATORS: Ranges = [[0x0a, 0x0a], [0x0d, 0x0d], [0x2028, 0x2029]];
+
+/** Characters preferred in distinguishing strings, best first. */
+const READABLE: Ranges = [[0x61, 0x7a], [0x30, 0x39], [0x41, 0x5a], [0x21, 0x7e], [0x20, 0x20]];
+
+/**
+ * Compares the sets of strings two patterns match in full.
+ *
+ * @param a The first pattern.
+ * @param aFlags The flags `a` is compiled with.
+ * @param b The second pattern.
+ * @param bFlags The flags `b` is compiled with.
+ * @returns The relation, with the shortest string that tells them apart in each direction.
+ * @throws {UnanalyzablePatternError} If either pattern is outside the regular
+ * subset, or only one of them uses the `u` or `v` flag.
+ * @throws {RangeError} If the automata grow too large to search.
+ */
+export function comparePatterns(a: PatternNode, aFlags: string, b: PatternNode, bFlags: string): PatternComparison {
+    const unicode = /[uv]/.test(aFlags);
+    if (unicode !== /[uv]/.test(bFlags)) {
+        throw new UnanalyzablePatternError(
+            unicode ? 'b' : 'a',
+            'flags',
+            'only one pattern uses the u or v flag, so they read the input differently (code points or UTF-16 code units)',
+        );
+    }
+    const classes = new Map<string, Ranges>();
+    const nfaA = new NfaBuilder('a', aFlags, classes).build(a);
+    const nfaB = new NfaBuilder('b', bFlags, classes).build(b);
+    const alphabet = partition([nfaA, nfaB]);
+    const [onlyA, onlyB] = search(new Dfa(nfaA), new Dfa(nfaB), alphabet, unicode);
+    const relation: PatternRelation = onlyA === null
+        ? onlyB === null ? 'equivalent' : 'aSubsetOfB'
+        : onlyB === null
+        ? 'bSubsetOfA'
+        : 'incomparable';
+    return { relation, onlyA, onlyB };
+}
+
+/** Compiles an AST to an NFA with Thompson's construction. */
+class NfaBuilder {
+    private readonly states: NfaState[] = [];
+    private readonly unicode: boolean;
+    private readonly ignoreCase: boolean;
+    private readonly multiline: boolean;
+    /** The flags that affect a single character: `i`, `s`, `u` and `v` */
+    private readonly classFlags: string;
+    private readonly max: number;
+
+    constructor(
+        private readonly name: 'a' | 'b',
+        private readonly flags: string,
+        /** Character sets computed so far, shared by both patterns */
+        private readonly classes: Map<string, Ranges>,
+    ) {
+        this.unicode = /[uv]/.test(flags);
+        this.ignoreCase = flags.includes('i');
+        this.multiline = flags.includes('m');
+        this.classFlags = flags.replace(/[dgmy]/g, '');
+        this.max = this.unicode ? 0x10ffff : 0xffff;
+    }
+
+    build(node: PatternNode): Nfa {
+        const start = this.state();
+        const accept = this.compile(node, start);
+        return { states: this.states, accept };
+    }
+
+    private state(): number {
+        this.states.push({ epsilon: [], edges: [], anchors: [] });
+        return this.states.length - 1;
+    }
+
+    private edge(from: number, ranges: Ranges): number {
+        const to = this.state();
+        this.states[from].edges.push({ ranges, symbols: new Set(), to });
+        return to;
+    }
+
+    /** Adds the states for `node` after `from`, and returns the state it ends in. */
+    private compile(node: PatternNode, from: number): number {
+        switch (node.type) {
+            case 'literal': {
+                let at = from;
+                const chars = this.unicode ? Array.from(node.value) : node.value.split('');
+                for (const char of chars) at = this.edge(at, this.literal(char));
+                return at;
+            }
+            case 'class':
+                return this.edge(from, this.characters(node));
+            case 'group':
+                if (node.atomic) this.reject(node, 'is an atomic group, which is outside the regular subset');
+                return this.compile(node.body, from);
+            case 'quantifier': {
+                if (node.possessive) this.reject(node, 'is a possessive quantifier, which is outside the regular subset');
+                let at = from;
+                for (let i = 0; i < node.min; i++) at = this.compile(node.body, at);
+                if (node.max === null) {
+                    const loop = this.state();
+                    this.states[at].epsilon.push(loop);
+                    this.states[this.compile(node.body, loop)].epsilon.push(loop);
+                    return loop;
+                }
+                const end = this.state();
+                for (let i = node.min; i < node.max; i++) {
+                    this.states[at].epsilon.push(end);
+                    at = this.compile(node.body, at);
+                }
+                this.states[at].epsilon.push(end);
+                return end;
+            }
+            case 'alternation': {
+                const end = this.state();
+                for (const alternative of node.alternatives) this.states[this.compile(alternative, from)].epsilon.push(end);
+                return end;
+            }
+            case 'sequence':
+                return node.elements.reduce((at, element) => this.compile(element, at), from);
+            case 'assertion': {
+                if (node.kind === 'lookahead' || node.kind === 'lookbehind') {
+                    this.reject(node, 'is a lookaround, which is outside the regular subset');
+                }
+                if (node.kind === 'wordBoundary' || node.kind === 'nonWordBoundary') {
+                    this.reject(node, 'is a word boundary, which is outside the regular subset');
+                }
+                if (this.multiline) this.reject(node, 'is a line anchor under the m flag, which is outside the regular subset');
+                const to = this.state();
+                this.states[from].anchors.push({ kind: node.kind === 'startOfLine' ? 'start' : 'end', to });
+                return to;
+            }
+            case 'backreference':
+                return this.reject(node, 'is a backreference, which is outside the regular subset');
+        }
+    }
+
+    private reject(node: PatternNode, reason: string): never {
+        const construct = generate(node, this.flags);
+        throw new UnanalyzablePatternError(this.name, construct, `${construct} ${reason}`);
+    }
+
+    /** The characters a literal character matches, which under `i` includes its other cases. */
+    private literal(char: string): Ranges {
+        const code = char.codePointAt(0)!;
+        if (!this.ignoreCase) return [[code, code]];
+        const matcher = new RegExp(`^${generate({ type: 'literal', value: char }, this.classFlags)}$`, this.classFlags);
+        const variants = caseVariants(code).filter(variant => variant <= this.max && matcher.test(this.toChar(variant)));
+        return normalize([code, ...variants].map(variant => [variant, variant]));
+    }
+
+    /** The characters a class matches, worked out directly where that is simple and by testing each one otherwise. */
+    private characters(node: ClassNode): Ranges {
+        if (!this.ignoreCase) {
+            const direct = this.directCharacters(node);
+            if (direct) return direct;
+        }
+        const source = generate(node, this.classFlags);
+        const key = `${source}/${this.classFlags}`;
+        let ranges = this.classes.get(key);
+        if (!ranges) {
+            const matcher = new RegExp(`^${source}$`, this.classFlags);
+            ranges = [];
+            let start = -1;
+            for (let code = 0; code <= this.max + 1; code++) {
+                const inside = code <= this.max && matcher.test(this.toChar(code));
+                if (inside && start < 0) start = code;
+                if (!inside && start >= 0) {
+                    ranges.push([start, code - 1]);
+                    start = -1;
+                }
+            }
+            this.classes.set(key, ranges);
+        }
+        return ranges;
+    }
+
+    private directCharacters(node: ClassNode): Ranges | null {
+        switch (node.kind) {
+            case 'any':
+                return this.flags.includes('s') ? [[0, this.max]] : complement(LINE_TERMINATORS, this.max);
+            case 'escape':
+                return this.escape(node.value);
+            case 'property':
+                return null;
+            case 'set': {
+                if (node.operations?.length) return null;
+                const ranges: Ranges = [];
+                for (const member of node.members) {
+                    if (member.kind === 'char' && this.isOneCharacter(member.value)) {
+                        const code = member.value.codePointAt(0)!;
+                        ranges.push([code, code]);
+                    } else if (member.kind === 'range' && this.isOneCharacter(member.from) && this.isOneCharacter(member.to)) {
+                        ranges.push([member.from.codePointAt(0)!, member.to.codePointAt(0)!]);
+                    } else if (member.kind === 'escape') {
+                        ranges.push(...this.escape(member.value));
+                    } else {
+                        return null;
+                    }
+                }
+                return node.negated ? complement(normalize(ranges), this.max) : normalize(ranges);
+            }
+        }
+    }
+
+    private escape(value: string): Ranges {
+        const ranges = { d: DIGIT, w: WORD, s: SPACE }[value.toLowerCase() as 'd' | 'w' | 's'];
+        return value === value.toLowerCase() ? ranges : complement(ranges, this.max);
+    }
+
+    /** Whether a string is one unit of the alphabet: a code point, or without `u` a code unit. */
+    private isOneCharacter(text: string): boolean {
+        return this.unicode ? Array.from(text).length === 1 : text.length === 1;
+    }
+
+    private toChar(code: number): string {
+        return this.unicode ? String.fromCodePoint(code) : String.fromCharCode(code);
+    }
+}
+
+let casePartners: Map<number, number[]> | undefined;
+
+/**
+ * Lists the code points linked to `code` by upper- or lower-casing, in either
+ * direction and transitively. A superset of the characters `i` treats as
+ * equal, so callers check each one against the regex engine.
+ */
+function caseVariants(code: number): number[] {
+    if (!casePartners) {
+        casePartners = new Map();
+        const link = (from: number, to: number) => {
+            if (!casePartners!.has(from)) casePartners!.set(from, []);
+            casePartners!.get(from)!.push(to);
+        };
+        for (let code = 0; code <= 0x10ffff; code++) {
+            const char = String.fromCodePoint(code);
+            for (const mapped of [char.toLowerCase(), char.toUpperCase()]) {
+                const other = mapped.codePointAt(0)!;
+                if (other !== code && mapped === String.fromCodePoint(other)) {
+                    link(code, other);
+                    link(other, code);
+                }
+            }
+        }
+    }
+    const seen = new Set([code]);
+    const pending = [code];
+    while (pending.length > 0) {
+        for (const other of casePartners.get(pending.pop()!) ?? []) {
+            if (!seen.has(other)) {
+                seen.add(other);
+                pending.push(other);
+            }
+        }
+    }
+    seen.delete(code);
+    return Array.from(seen);
+}
+
+/** Sorts ranges and merges the ones that overlap or touch. */
+function normalize(ranges: Ranges): Ranges {
+    const sorted = [...ranges].sort((x, y) => x[0] - y[0]);
+    const merged: Ranges = [];
+    for (const [from, to] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && from <= last[1] + 1) last[1] = Math.max(last[1], to);
+        else merged.push([from, to]);
+    }
+    return merged;
+}
+
+function complement(ranges: Ranges, max: number): Ranges {
+    const result: Ranges = [];
+    let next = 0;
+    for (const [from, to] of ranges) {
+        if (from > next) result.push([next, from - 1]);
+        next = to + 1;
+    }
+    if (next <= max) result.push([next, max]);
+    return result;
+}
+
+/**
+ * Splits the characters on the NFAs' edges into disjoint ranges, so that
+ * every edge matches a whole number of them, and labels each edge with the
+ * indexes of its ranges.
+ *
+ * @returns The ranges, indexed by symbol.
+ */
+function partition(nfas: Nfa[]): Ranges {
+    const edges = nfas.flatMap(nfa => nfa.states.flatMap(state => state.edges));
+    const points = Array.from(new Set(edges.flatMap(edge => edge.ranges.flatMap(([from, to]) => [from, to + 1]))))
+        .sort((x, y) => x - y);
+    const index = new Map(points.map((point, i) => [point, i]));
+    for (const edge of edges) {
+        for (const [from, to] of edge.ranges) {
+            for (let symbol = index.get(from)!; symbol < index.get(to + 1)!; symbol++) edge.symbols.add(symbol);
+        }
+    }
+    return points.slice(0, -1).map((point, i) => [point, points[i + 1] - 1]);
+}
+
+/** Determinizes an NFA on demand with the subset construction. */
+class Dfa {
+    /** The NFA states of each DFA state, closed under the edges allowed before the next character */
+    private readonly sets: number[][] = [];
+    readonly accepting: boolean[] = [];
+    private readonly ids = new Map<string, number>();
+    private readonly moves: Map<number, number>[] = [];
+
+    constructor(private readonly nfa: Nfa) {}
+
+    /** The start state; at the start of the input `^` edges may be taken. */
+    start(): number {
+        return this.intern(this.closure([0], true, false), true);
+    }
+
+    step(state: number, symbol: number): number {
+        let next = this.moves[state].get(symbol);
+        if (next === undefined) {
+            const targets = this.sets[state].flatMap(nfaState =>
+                this.nfa.states[nfaState].edges.flatMap(edge => edge.symbols.has(symbol) ? [edge.to] : [])
+            );
+            next = this.intern(this.closure(targets, false, false), false);
+            this.moves[state].set(symbol, next);
+        }
+        return next;
+    }
+
+    /** The symbols with an edge out of the state. */
+    symbols(state: number): number[] {
+        return this.sets[state].flatMap(nfaState => this.nfa.states[nfaState].edges.flatMap(edge => Array.from(edge.symbols)));
+    }
+
+    private intern(set: number[], atStart: boolean): number {
+        // Only the start state may still take `^` edges, so it is kept apart from an equal set elsewhere
+        const key = `${atStart ? '^' : ''}${set.join(',')}`;
+        let id = this.ids.get(key);
+        if (id === undefined) {
+            id = this.sets.length;
+            this.ids.set(key, id);
+            this.sets.push(set);
+            this.accepting.push(this.closure(set, atStart, true).includes(this.nfa.accept));
+            this.moves.push(new Map());
+        }
+        return id;
+    }
+
+    /** Follows epsilon edges, and anchor edges where the position allows them. */
+    private closure(seeds: number[], atStart: boolean, atEnd: boolean): number[] {
+        const seen = new Set(seeds);
+        const pending = [...seeds];
+        while (pending.length > 0) {
+            const state = this.nfa.states[pending.pop()!];
+            const next = [
+                ...state.epsilon,
+                ...state.anchors.flatMap(anchor => (anchor.kind === 'start' ? atStart : atEnd) ? [anchor.to] : []),
+            ];
+            for (const to of next) {
+                if (!seen.has(to)) {
+                    seen.add(to);
+                    pending.push(to);
+                }
+            }
+        }
+        return Array.from(seen).sort((x, y) => x - y);
+    }
+}
+
+/**
+ * Searches the product of two DFAs breadth-first for the shortest string
+ * each accepts and the other does not.
+ *
+ * @returns The string only `a` accepts and the one only `b` accepts, or null for none.
+ */
+function search(a: Dfa, b: Dfa, alphabet: Ranges, unicode: boolean): [string | null, string | null] {
+    const samples = alphabet.map(readable);
+    const rank = alphabet.map((_, symbol) => symbol).sort((x, y) => samples[x][1] - samples[y][1] || samples[x][0] - samples[y][0]);
+    const order = new Map(rank.map((symbol, i) => [symbol, i]));
+    const pairs: [number, number][] = [[a.start(), b.start()]];
+    const parents: { parent: number; symbol: number }[] = [{ parent: -1, symbol: -1 }];
+    const seen = new Set([pairs[0].join()]);
+    const path = (pair: number) => {
+        const codes: number[] = [];
+        for (let at = pair; parents[at].parent >= 0; at = parents[at].parent) codes.unshift(samples[parents[at].symbol][0]);
+        return codes.map(code => unicode ? String.fromCodePoint(code) : String.fromCharCode(code)).join('');
+    };
+    let onlyA: string | null = null;
+    let onlyB: string | null = null;
+    for (let index = 0; index < pairs.length && (onlyA === null || onlyB === null); index++) {
+        const [stateA, stateB] = pairs[index];
+        if (onlyA === null && a.accepting[stateA] && !b.accepting[stateB]) onlyA = path(index);
+        if (onlyB === null && b.accepting[stateB] && !a.accepting[stateA]) onlyB = path(index);
+        const symbols = Array.from(new Set([...a.symbols(stateA), ...b.symbols(stateB)]))
+            .sort((x, y) => order.get(x)! - order.get(y)!);
+        for (const symbol of symbols) {
+            const next: [number, number] = [a.step(stateA, symbol), b.step(stateB, symbol)];
+            const key = next.join();
+            if (seen.has(key)) continue;
+            if (seen.size >= MAX_PRODUCT_STATES) {
+                throw new RangeError(`The patterns are too large to compare: their automata have more than ${MAX_PRODUCT_STATES} states`);
+            }
+            seen.add(key);
+            pairs.push(next);
+            parents.push({ parent: index, symbol });
+        }
+    }
+    return [onlyA, onlyB];
+}
+
+/**
+ * Picks the character to show for a range of the alphabet, preferring
+ * letters, then digits and other printable ASCII.
+ *
+ * @returns The character's code and its rank (lower is more readable).
+ */
+function readable([from, to]: [number, number]): [number, number] {
+    for (const [rank, [low, high]] of READABLE.entries()) {
+        if (from <= high && to >= low) return [Math.max(from, low), rank];
+    }
+    return [from, READABLE.length];
+}
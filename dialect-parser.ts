@@ -0,0 +1,779 @@
+/**
+ * Parses Python `re` and PCRE pattern source into the pattern AST, used by
+ * `IrregularExpression.fromDialect()`.
+ *
+ * Constructs are converted by meaning, not by spelling. Where ECMAScript has
+ * a construct with the same behaviour it is used directly; otherwise the
+ * behaviour is emulated: `$` also matching before a final newline becomes a
+ * lookahead, Python's Unicode-aware `\d`, `\w` and `\b` become property
+ * escapes, and possessive quantifiers and atomic groups become the builder's
+ * own (see {@link lowerAtomic}). Constructs that cannot be emulated, such as
+ * recursion or conditionals, are rejected with a {@link RegexParseError}
+ * whose offset points at them.
+ *
+ * @module
+ */
+
+import {
+    alternation,
+    type ClassMember,
+    type CharacterSetNode,
+    type PatternNode,
+    sequence,
+    type SequenceNode,
+} from './ast.ts';
+import { isUnicodeProperty, RegexParseError } from './parser.ts';
+
+/** A dialect {@link parseDialect} can read. */
+export type SourceDialect = 'python' | 'pcre';
+
+/** A pattern read from another dialect. */
+export interface ParsedDialectPattern {
+    pattern: PatternNode;
+    /** The ECMAScript flags the pattern needs: `i`, `s`, and `u` or `v` */
+    flags: string;
+}
+
+/** The inline flags each dialect accepts. */
+const DIALECT_FLAGS: Record<SourceDialect, string> = { python: 'aiLmsux', pcre: 'imnsxUJ' };
+
+const DIALECT_NAMES: Record<SourceDialect, string> = { python: 'Python', pcre: 'PCRE' };
+
+const CHARACTER_ESCAPES: Record<string, string> = { a: '\x07', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+/** What `\s` matches in Python's Unicode mode: the characters `str.isspace()` accepts. */
+const UNICODE_SPACE: ClassMember[] = [
+    { kind: 'range', from: '\t', to: '\r' },
+    { kind: 'range', from: '\x1c', to: ' ' },
+    { kind: 'char', value: '\x85' },
+    { kind: 'property', name: 'Z', negated: false },
+];
+
+/** What `\w` matches in Unicode mode: letters, numbers and the underscore. */
+const UNICODE_WORD: ClassMember[] = [
+    { kind: 'property', name: 'L', negated: false },
+    { kind: 'property', name: 'N', negated: false },
+    { kind: 'char', value: '_' },
+];
+
+/** What `\s` matches in ASCII mode, without ECMAScript's Unicode spaces. */
+const ASCII_SPACE: ClassMember[] = [{ kind: 'range', from: '\t', to: '\r' }, { kind: 'char', value: ' ' }];
+
+/** PCRE's `\h`: horizontal whitespace. */
+const HORIZONTAL_SPACE: ClassMember[] = [
+    { kind: 'char', value: '\t' },
+    { kind: 'char', value: ' ' },
+    { kind: 'char', value: '\xa0' },
+    { kind: 'char', value: '\u1680' },
+    { kind: 'char', value: '\u180e' },
+    { kind: 'range', from: '\u2000', to: '\u200a' },
+    { kind: 'char', value: '\u202f' },
+    { kind: 'char', value: '\u205f' },
+    { kind: 'char', value: '\u3000' },
+];
+
+/** PCRE's `\v`: vertical whitespace. */
+const VERTICAL_SPACE: ClassMember[] = [
+    { kind: 'range', from: '\n', to: '\r' },
+    { kind: 'char', value: '\x85' },
+    { kind: 'range', from: '\u2028', to: '\u2029' },
+];
+
+/** PCRE's POSIX classes, such as `[:alpha:]`, which are ASCII-only. */
+const POSIX_CLASSES: Record<string, ClassMember[]> = {
+    alnum: [{ kind: 'range', from: '0', to: '9' }, { kind: 'range', from: 'A', to: 'Z' }, { kind: 'range', from: 'a', to: 'z' }],
+    alpha: [{ kind: 'range', from: 'A', to: 'Z' }, { kind: 'range', from: 'a', to: 'z' }],
+    ascii: [{ kind: 'range', from: '\0', to: '\x7f' }],
+    blank: [{ kind: 'char', value: '\t' }, { kind: 'char', value: ' ' }],
+    cntrl: [{ kind: 'range', from: '\0', to: '\x1f' }, { kind: 'char', value: '\x7f' }],
+    digit: [{ kind: 'range', from: '0', to: '9' }],
+    graph: [{ kind: 'range', from: '!', to: '~' }],
+    lower: [{ kind: 'range', from: 'a', to: 'z' }],
+    print: [{ kind: 'range', from: ' ', to: '~' }],
+    punct: [
+        { kind: 'range', from: '!', to: '/' },
+        { kind: 'range', from: ':', to: '@' },
+        { kind: 'range', from: '[', to: '`' },
+        { kind: 'range', from: '{', to: '~' },
+    ],
+    space: ASCII_SPACE,
+    upper: [{ kind: 'range', from: 'A', to: 'Z' }],
+    word: [{ kind: 'range', from: '0', to: '9' }, { kind: 'range', from: 'A', to: 'Z' }, { kind: 'char', value: '_' }, { kind: 'range', from: 'a', to: 'z' }],
+    xdigit: [{ kind: 'range', from: '0', to: '9' }, { kind: 'range', from: 'A', to: 'F' }, { kind: 'range', from: 'a', to: 'f' }],
+};
+
+/**
+ * Parses Python `re` or PCRE source into an AST.
+ *
+ * @param source The pattern source, without delimiters.
+ * @param dialect The dialect the source is written in.
+ * @returns The pattern and the ECMAScript flags it needs.
+ * @throws {RegexParseError} If the source is invalid, or uses a construct ECMAScript cannot express.
+ *
+ * @example
+ * ```typescript
+ * parseDialect('(?i)(?P<word>\\w+)\\Z', 'python');
+ * // { pattern: { type: "sequence", elements: [{ type: "group", name: "word", ... }, ...] }, flags: "iu" }
+ * ```
+ */
+export function parseDialect(source: string, dialect: SourceDialect): ParsedDialectPattern {
+    return new DialectParser(source, dialect).parse();
+}
+
+/** A recursive-descent parser over one Python or PCRE pattern source. */
+class DialectParser {
+    private pos = 0;
+    private readonly options = new Set<string>();
+    /** Whether `\d`, `\w`, `\s` and `\b` follow Unicode rather than ASCII */
+    private unicodeClasses: boolean;
+    private needs: '' | 'u' | 'v' = '';
+    private groupCount = 0;
+    private readonly totalGroups: number;
+    private readonly groupNames = new Set<string>();
+    private readonly references: { ref: number | string; offset: number }[] = [];
+
+    constructor(private readonly source: string, private readonly dialect: SourceDialect) {
+        this.unicodeClasses = dialect === 'python';
+        this.totalGroups = this.countGroups();
+    }
+
+    parse(): ParsedDialectPattern {
+        this.parseLeadingOptions();
+        const pattern = this.parseDisjunction();
+        if (this.pos < this.source.length) this.fail("Unmatched ')'");
+        for (const { ref, offset } of this.references) {
+            if (typeof ref === 'number' ? ref > this.groupCount : !this.groupNames.has(ref)) {
+                this.fail(`Reference to a group that does not exist: ${ref}`, offset);
+            }
+        }
+        const flags = (this.options.has('i') ? 'i' : '') + (this.options.has('s') ? 's' : '') + this.needs;
+        return { pattern, flags };
+    }
+
+    /** Reads `(*UTF)`-style start options and global inline flags such as `(?i)`. */
+    private parseLeadingOptions(): void {
+        for (;;) {
+            const verb = /^\(\*([A-Z_0-9]+)\)/.exec(this.source.slice(this.pos));
+            if (verb && this.dialect === 'pcre') {
+                if (verb[1] === 'UCP') this.unicodeClasses = true;
+                else if (!/^UTF(8|16|32)?$/.test(verb[1])) this.fail(`The start-of-pattern option (*${verb[1]}) has no ECMAScript equivalent`);
+                this.pos += verb[0].length;
+                continue;
+            }
+            const inline = /^\(\?([a-zA-Z]+)\)/.exec(this.source.slice(this.pos));
+            if (!inline || inline[1] === 'R') break;
+            for (const flag of inline[1]) this.setOption(flag, this.pos + 2 + inline[1].indexOf(flag));
+            // PCRE's `xx` also ignores spaces and tabs inside classes
+            if (this.dialect === 'pcre' && inline[1].includes('xx')) this.options.add('xx');
+            this.pos += inline[0].length;
+        }
+        if (this.options.has('a') && this.options.has('u')) this.fail("The flags 'a' and 'u' are incompatible", 0);
+        if (this.options.has('a')) this.unicodeClasses = false;
+    }
+
+    private setOption(flag: string, offset: number): void {
+        if (!DIALECT_FLAGS[this.dialect].includes(flag)) this.fail(`Unknown flag '${flag}'`, offset);
+        if (flag === 'L') this.fail("The locale flag 'L' has no ECMAScript equivalent", offset);
+        if (flag === 'J') this.fail("The flag 'J' (duplicate group names) has no ECMAScript equivalent", offset);
+        this.options.add(flag);
+    }
+
+    private parseDisjunction(): PatternNode {
+        const alternatives: PatternNode[] = [this.parseAlternative()];
+        while (this.eat('|')) alternatives.push(this.parseAlternative());
+        return alternation(alternatives);
+    }
+
+    private parseAlternative(): SequenceNode {
+        const elements: PatternNode[] = [];
+        for (;;) {
+            this.skipIgnored();
+            if (this.atEnd() || this.peek() === '|' || this.peek() === ')') break;
+            const term = this.parseTerm();
+            for (const node of term === null ? [] : term.type === 'sequence' ? term.elements : [term]) {
+                const previous = elements[elements.length - 1];
+                if (node.type === 'literal' && previous?.type === 'literal') {
+                    elements[elements.length - 1] = { type: 'literal', value: previous.value + node.value };
+                } else {
+                    elements.push(node);
+                }
+            }
+        }
+        return sequence(elements);
+    }
+
+    /** Skips `(?#...)` comments, and whitespace and `#` comments in verbose mode. */
+    private skipIgnored(): void {
+        for (;;) {
+            if (this.source.startsWith('(?#', this.pos)) {
+                const end = this.source.indexOf(')', this.pos);
+                if (end < 0) this.fail('Unterminated comment');
+                this.pos = end + 1;
+            } else if (this.options.has('x') && /\s/.test(this.peek())) {
+                this.pos++;
+            } else if (this.options.has('x') && this.peek() === '#') {
+                while (!this.atEnd() && this.peek() !== '\n') this.pos++;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private parseTerm(): PatternNode | null {
+        const atom = this.parseAtom();
+        if (atom === null) return null;
+        this.skipIgnored();
+        const quantifierStart = this.pos;
+        const bounds = this.parseQuantifier();
+        if (!bounds) return atom;
+        if (atom.type === 'assertion') this.fail('Nothing to repeat', quantifierStart);
+        if (bounds.max !== null && bounds.min > bounds.max) this.fail('Numbers out of order in {} quantifier', quantifierStart);
+        if (/^[*+?]/.test(this.peek()) || this.readBraces(this.pos)) this.fail('Multiple repeat', this.pos);
+        // Only the last character of a `\Q...\E` run is quantified
+        const chars = atom.type === 'literal' ? Array.from(atom.value) : [];
+        if (chars.length > 1) {
+            const last = chars.pop()!;
+            return sequence([{ type: 'literal', value: chars.join('') }, { type: 'quantifier', ...bounds, body: { type: 'literal', value: last } }]);
+        }
+        return { type: 'quantifier', ...bounds, body: atom };
+    }
+
+    private parseQuantifier(): { min: number; max: number | null; greedy: boolean; possessive?: boolean } | null {
+        let min: number;
+        let max: number | null;
+        const char = this.peek();
+        if (char === '*' || char === '+' || char === '?') {
+            [min, max] = char === '*' ? [0, null] : char === '+' ? [1, null] : [0, 1];
+            this.pos++;
+        } else {
+            const braces = this.readBraces(this.pos);
+            if (!braces) return null;
+            [min, max] = [braces.min, braces.max];
+            this.pos = braces.end;
+        }
+        if (this.eat('+')) return { min, max, greedy: true, possessive: true };
+        // PCRE's `U` flag swaps the meaning of a trailing `?`
+        const lazy = this.eat('?') !== this.options.has('U');
+        return { min, max, greedy: !lazy };
+    }
+
+    /** Reads `{n}`, `{n,}`, `{,m}` or `{n,m}` starting at `start`, without consuming it. */
+    private readBraces(start: number): { min: number; max: number | null; end: number } | null {
+        const match = /^\{(\d*)(,(\d*))?\}/.exec(this.source.slice(start));
+        if (!match || (match[1] === '' && (match[2] === undefined || match[3] === ''))) return null;
+        const min = match[1] === '' ? 0 : Number(match[1]);
+        const max = match[2] === undefined ? min : match[3] === '' ? null : Number(match[3]);
+        return { min, max, end: start + match[0].length };
+    }
+
+    private parseAtom(): PatternNode | null {
+        const char = this.peek();
+        switch (char) {
+            case '^':
+                this.pos++;
+                // Without `m`, ECMAScript's `^` is the start of the input, as in the source
+                if (!this.options.has('m')) return { type: 'assertion', kind: 'startOfLine' };
+                return lookbehind(true, { type: 'class', kind: 'set', negated: true, members: [{ kind: 'char', value: '\n' }] });
+            case '$':
+                this.pos++;
+                return this.endOfLine();
+            case '.':
+                this.pos++;
+                if (this.options.has('s')) return { type: 'class', kind: 'any' };
+                // ECMAScript's `.` also stops at `\r`, `\u2028` and `\u2029`
+                return { type: 'class', kind: 'set', negated: true, members: [{ kind: 'char', value: '\n' }] };
+            case '\\':
+                return this.parseAtomEscape();
+            case '(':
+                return this.parseGroup();
+            case '[':
+                return this.parseClass();
+            case '*':
+            case '+':
+            case '?':
+                return this.fail('Nothing to repeat');
+            case '{':
+                if (this.readBraces(this.pos)) return this.fail('Nothing to repeat');
+                this.pos++;
+                return { type: 'literal', value: '{' };
+            default:
+                return { type: 'literal', value: this.readChar() };
+        }
+    }
+
+    /** `$`: the end of a line with `m`, otherwise the end of the input or just before a final `\n`. */
+    private endOfLine(): PatternNode {
+        const newline: PatternNode = { type: 'literal', value: '\n' };
+        const end: PatternNode = { type: 'assertion', kind: 'endOfLine' };
+        const body = this.options.has('m')
+            ? alternation([sequence([newline]), sequence([end])])
+            : sequence([{ type: 'quantifier', min: 0, max: 1, greedy: true, body: newline }, end]);
+        return { type: 'assertion', kind: 'lookahead', negated: false, body };
+    }
+
+    private parseGroup(): PatternNode | null {
+        const start = this.pos;
+        this.pos++;
+        if (this.peek() === '*') this.fail('Backtracking control verbs such as (*SKIP) have no ECMAScript equivalent', start);
+        let node: (body: PatternNode) => PatternNode;
+        if (this.eat('?')) {
+            const rest = this.source.slice(this.pos);
+            let match: RegExpExecArray | null;
+            if (this.eat(':')) {
+                node = (body) => ({ type: 'group', capturing: false, body });
+            } else if (this.eat('>')) {
+                node = (body) => ({ type: 'group', capturing: false, atomic: true, body });
+            } else if (rest[0] === '=' || rest[0] === '!') {
+                const negated = this.source[this.pos++] === '!';
+                node = (body) => ({ type: 'assertion', kind: 'lookahead', negated, body });
+            } else if (rest.startsWith('<=') || rest.startsWith('<!')) {
+                const negated = rest[1] === '!';
+                this.pos += 2;
+                node = (body) => ({ type: 'assertion', kind: 'lookbehind', negated, body });
+            } else if (rest.startsWith('P=')) {
+                this.pos += 2;
+                const name = this.readGroupName(')');
+                return this.backreference(name, start);
+            } else if (rest.startsWith('P<') || (this.dialect === 'pcre' && /^[<']/.test(rest))) {
+                this.pos += rest[0] === 'P' ? 2 : 1;
+                const name = this.readGroupName(this.source[this.pos - 1] === "'" ? "'" : '>');
+                node = this.capture(name, start + 1);
+            } else if (rest[0] === '<' && this.dialect === 'python') {
+                return this.fail('Python writes named groups as (?P<name>...)', start);
+            } else if (/^(P>|&|R\)|[+-]?\d+\))/.test(rest)) {
+                return this.fail('Recursion and subroutine calls have no ECMAScript equivalent', start);
+            } else if (rest[0] === '(') {
+                return this.fail('Conditional groups have no ECMAScript equivalent', start);
+            } else if (rest[0] === '|') {
+                return this.fail('Branch reset groups (?|...) have no ECMAScript equivalent', start);
+            } else if (rest[0] === 'C') {
+                return this.fail('Callouts have no ECMAScript equivalent', start);
+            } else if ((match = /^([a-zA-Z]*)(?:-([a-zA-Z]*))?([:)])/.exec(rest)) && match[0] !== ')') {
+                return this.inlineFlags(match, start);
+            } else {
+                return this.fail(`Unknown group syntax (?${rest[0] ?? ''}`, start);
+            }
+        } else if (this.options.has('n')) {
+            node = (body) => ({ type: 'group', capturing: false, body });
+        } else {
+            node = this.capture(undefined, start);
+        }
+        const body = this.parseDisjunction();
+        if (!this.eat(')')) this.fail('Unterminated group', start);
+        return node(body);
+    }
+
+    private capture(name: string | undefined, offset: number): (body: PatternNode) => PatternNode {
+        this.groupCount++;
+        if (name === undefined) return (body) => ({ type: 'group', capturing: true, body });
+        if (this.groupNames.has(name)) this.fail(`Duplicate group name '${name}'`, offset);
+        this.groupNames.add(name);
+        return (body) => ({ type: 'group', capturing: true, name, body });
+    }
+
+    /**
+     * Handles `(?flags)` and `(?flags:...)` after the start of the pattern.
+     * ECMAScript cannot change flags part-way through a pattern, so only
+     * flags that are already in effect are accepted.
+     */
+    private inlineFlags(match: RegExpExecArray, start: number): PatternNode | null {
+        const [, on, off = '', end] = match;
+        for (const flag of on + off) {
+            if (!DIALECT_FLAGS[this.dialect].includes(flag)) this.fail(`Unknown flag '${flag}'`, start + 2 + match[0].indexOf(flag));
+        }
+        const changes = [...on].some(flag => !this.options.has(flag)) || [...off].some(flag => this.options.has(flag));
+        if (changes) {
+            this.fail(
+                end === ')'
+                    ? 'Inline flags are only supported at the start of the pattern, since ECMAScript flags apply to the whole pattern'
+                    : 'Scoped inline flags such as (?i:...) have no ECMAScript equivalent',
+                start,
+            );
+        }
+        this.pos += match[0].length;
+        if (end === ')') return null;
+        const body = this.parseDisjunction();
+        if (!this.eat(')')) this.fail('Unterminated group', start);
+        return { type: 'group', capturing: false, body };
+    }
+
+    /** Reads a group name up to its closing delimiter. */
+    private readGroupName(close: string): string {
+        const start = this.pos;
+        const end = this.source.indexOf(close, this.pos);
+        const name = end < 0 ? '' : this.source.slice(this.pos, end);
+        if (!/^[_\p{ID_Start}][\p{ID_Continue}]*$/u.test(name)) this.fail(`Invalid group name '${name}'`, start);
+        this.pos = end + 1;
+        return name;
+    }
+
+    private backreference(ref: number | string, offset: number): PatternNode {
+        this.references.push({ ref, offset });
+        return { type: 'backreference', ref };
+    }
+
+    private parseAtomEscape(): PatternNode | null {
+        const start = this.pos;
+        this.pos++;
+        if (this.atEnd()) this.fail('\\ at end of pattern', start);
+        const char = this.peek();
+        const pcre = this.dialect === 'pcre';
+        switch (char) {
+            case 'A':
+                this.pos++;
+                return { type: 'assertion', kind: 'startOfLine' };
+            case 'Z':
+                this.pos++;
+                if (!pcre) return { type: 'assertion', kind: 'endOfLine' };
+                return { type: 'assertion', kind: 'lookahead', negated: false, body: sequence([{ type: 'quantifier', min: 0, max: 1, greedy: true, body: { type: 'literal', value: '\n' } }, { type: 'assertion', kind: 'endOfLine' }]) };
+            case 'z':
+                this.pos++;
+                return { type: 'assertion', kind: 'endOfLine' };
+            case 'b':
+            case 'B':
+                this.pos++;
+                return this.wordBoundary(char === 'B');
+            case 'G':
+                return this.fail('\\G has no ECMAScript equivalent; use the sticky flag instead', start);
+            case 'K':
+                return this.fail('\\K has no ECMAScript equivalent; use a lookbehind instead', start);
+            case 'X':
+            case 'C':
+                if (pcre) return this.fail(`\\${char} has no ECMAScript equivalent`, start);
+                break;
+            case 'R':
+                if (!pcre) break;
+                this.pos++;
+                // PCRE's `\R` is atomic, so `\r\n` is never split
+                return {
+                    type: 'group',
+                    capturing: false,
+                    atomic: true,
+                    body: alternation([sequence([{ type: 'literal', value: '\r\n' }]), sequence([this.set(false, VERTICAL_SPACE)])]),
+                };
+            case 'N':
+                if (pcre && this.source[this.pos + 1] !== '{') {
+                    this.pos++;
+                    return { type: 'class', kind: 'set', negated: true, members: [{ kind: 'char', value: '\n' }] };
+                }
+                return this.fail('Named character escapes \\N{...} are not supported', start);
+            case 'Q':
+                if (!pcre) break;
+                return this.quoted();
+            case 'E':
+                if (!pcre) break;
+                // A stray `\E` is ignored
+                this.pos++;
+                return null;
+            case 'k':
+                if (!pcre) break;
+                return this.namedReference(start);
+            case 'g':
+                if (!pcre) break;
+                return this.numberedReference(start);
+            case 'p':
+            case 'P':
+                if (!pcre) return this.fail('Python re has no Unicode property escapes', start);
+                return { type: 'class', kind: 'property', ...this.readProperty(start) };
+        }
+        if (/[1-9]/.test(char)) {
+            const reference = this.readDecimalReference();
+            if (reference !== null) return this.backreference(reference, start);
+        }
+        const member = this.parseEscapeMember(start, false);
+        if (member.kind === 'char') return { type: 'literal', value: member.value };
+        if (member.kind === 'class') return member.node;
+        if (member.kind === 'escape') return { type: 'class', kind: 'escape', value: member.value };
+        if (member.kind === 'property') return { type: 'class', kind: 'property', name: member.name, value: member.value, negated: member.negated };
+        return this.fail('Invalid escape', start);
+    }
+
+    /** `\Q...\E`: everything up to `\E` (or the end) is literal. */
+    private quoted(): PatternNode | null {
+        const end = this.source.indexOf('\\E', this.pos);
+        const text = this.source.slice(this.pos + 1, end < 0 ? undefined : end);
+        this.pos = end < 0 ? this.source.length : end + 2;
+        return text === '' ? null : { type: 'literal', value: text };
+    }
+
+    /** PCRE's `\k<name>`, `\k'name'` and `\k{name}`. */
+    private namedReference(start: number): PatternNode {
+        this.pos++;
+        const close = { '<': '>', "'": "'", '{': '}' }[this.peek()];
+        if (!close) this.fail('\\k must be followed by a group name in <>, \'\' or {}', start);
+        this.pos++;
+        return this.backreference(this.readGroupName(close), start);
+    }
+
+    /** PCRE's `\gN`, `\g{N}`, `\g{-N}` and `\g{name}`; `\g<...>` is a subroutine call. */
+    private numberedReference(start: number): PatternNode {
+        this.pos++;
+        if (this.peek() === '<' || this.peek() === "'") this.fail('Subroutine calls have no ECMAScript equivalent', start);
+        const match = /^(?:\{(-?\d+)\}|(-?\d+))/.exec(this.source.slice(this.pos));
+        if (!match) {
+            if (!this.eat('{')) this.fail('\\g must be followed by a group number or a name in {}', start);
+            return this.backreference(this.readGroupName('}'), start);
+        }
+        this.pos += match[0].length;
+        const number = Number(match[1] ?? match[2]);
+        if (number === 0) this.fail('Invalid group reference 0', start);
+        // A negative number counts back from the groups opened so far
+        const ref = number < 0 ? this.groupCount + 1 + number : number;
+        if (ref < 1) this.fail(`Reference to a group that does not exist: ${number}`, start);
+        return this.backreference(ref, start);
+    }
+
+    /**
+     * Reads `\N` as a backreference where the dialect does: Python reads up to
+     * two digits unless they form a three-digit octal escape, PCRE reads all
+     * the digits when they are below 10 or name an existing group. Returns
+     * null, consuming nothing, for an octal escape.
+     */
+    private readDecimalReference(): number | null {
+        const digits = /^\d+/.exec(this.source.slice(this.pos))![0];
+        if (this.dialect === 'python') {
+            if (/^[0-3][0-7]{2}/.test(digits)) return null;
+            const ref = digits.slice(0, 2);
+            this.pos += ref.length;
+            return Number(ref);
+        }
+        const number = Number(digits);
+        if (number >= 10 && !/^[89]/.test(digits) && number > this.totalGroups) return null;
+        this.pos += digits.length;
+        return number;
+    }
+
+    private wordBoundary(negated: boolean): PatternNode {
+        if (!this.unicodeClasses) return { type: 'assertion', kind: negated ? 'nonWordBoundary' : 'wordBoundary' };
+        const word = this.set(false, UNICODE_WORD);
+        const before = (present: boolean) => lookbehind(!present, word);
+        const after = (present: boolean): PatternNode => ({ type: 'assertion', kind: 'lookahead', negated: !present, body: word });
+        return {
+            type: 'group',
+            capturing: false,
+            body: alternation([sequence([before(true), after(negated)]), sequence([before(false), after(!negated)])]),
+        };
+    }
+
+    /**
+     * Reads an escape after the backslash at `start`, for use in or out of a
+     * class, converting class escapes to what they match in the dialect.
+     */
+    private parseEscapeMember(start: number, inClass: boolean): ClassMember {
+        const char = this.peek();
+        const pcre = this.dialect === 'pcre';
+        if ('dDwWsS'.includes(char) || (pcre && 'hHvV'.includes(char))) {
+            this.pos++;
+            return this.classEscape(char, inClass);
+        }
+        if (CHARACTER_ESCAPES[char]) {
+            this.pos++;
+            return { kind: 'char', value: CHARACTER_ESCAPES[char] };
+        }
+        this.pos++;
+        switch (char) {
+            case 'v':
+                return { kind: 'char', value: '\v' };
+            case 'b':
+                if (inClass) return { kind: 'char', value: '\b' };
+                break;
+            case 'e':
+                if (pcre) return { kind: 'char', value: '\x1b' };
+                break;
+            case 'c': {
+                if (!pcre) break;
+                const letter = this.source[this.pos];
+                if (letter === undefined || letter > '\x7f') this.fail('\\c must be followed by an ASCII character', start);
+                this.pos++;
+                return { kind: 'char', value: String.fromCharCode(letter.toUpperCase().charCodeAt(0) ^ 0x40) };
+            }
+            case 'x': {
+                const braced = pcre ? /^\{([\da-fA-F]+)\}/.exec(this.source.slice(this.pos)) : null;
+                const hex = braced ?? (pcre ? /^([\da-fA-F]{0,2})/ : /^([\da-fA-F]{2})/).exec(this.source.slice(this.pos));
+                if (!hex) this.fail('\\x must be followed by two hex digits', start);
+                this.pos += hex[0].length;
+                return { kind: 'char', value: this.codePoint(parseInt(hex[1] || '0', 16), start) };
+            }
+            case 'u':
+            case 'U': {
+                if (pcre) break;
+                const length = char === 'u' ? 4 : 8;
+                const hex = new RegExp(`^[\\da-fA-F]{${length}}`).exec(this.source.slice(this.pos));
+                if (!hex) this.fail(`\\${char} must be followed by ${length} hex digits`, start);
+                this.pos += length;
+                return { kind: 'char', value: this.codePoint(parseInt(hex[0], 16), start) };
+            }
+            case 'o': {
+                if (!pcre) break;
+                const octal = /^\{([0-7]+)\}/.exec(this.source.slice(this.pos));
+                if (!octal) this.fail('\\o must be followed by octal digits in {}', start);
+                this.pos += octal[0].length;
+                return { kind: 'char', value: this.codePoint(parseInt(octal[1], 8), start) };
+            }
+            case 'p':
+            case 'P':
+                if (!pcre) break;
+                this.pos--;
+                return { kind: 'property', ...this.readProperty(start) };
+            case 'N':
+                if (pcre && !inClass) break;
+                return this.fail('Named character escapes \\N{...} are not supported', start);
+        }
+        if (/[0-7]/.test(char)) {
+            // Digits that are not a backreference are an octal escape of up to three digits
+            const octal = /^[0-7]{1,3}/.exec(this.source.slice(this.pos - 1))![0];
+            this.pos += octal.length - 1;
+            return { kind: 'char', value: this.codePoint(parseInt(octal, 8), start) };
+        }
+        if (/[A-Za-z0-9]/.test(char)) this.fail(`Unknown escape \\${char}`, start);
+        this.pos--;
+        return { kind: 'char', value: this.readChar() };
+    }
+
+    private codePoint(value: number, start: number): string {
+        if (value > 0x10ffff) this.fail('Character code out of range', start);
+        if (value > 0xffff && !this.needs) this.needs = 'u';
+        return String.fromCodePoint(value);
+    }
+
+    /** Converts `\d`, `\w`, `\s` and PCRE's `\h` and `\v` to what they match in the dialect. */
+    private classEscape(char: string, inClass: boolean): ClassMember {
+        const lower = char.toLowerCase();
+        const negated = char !== lower;
+        let members: ClassMember[];
+        if (lower === 'h') members = HORIZONTAL_SPACE;
+        else if (lower === 'v') members = VERTICAL_SPACE;
+        else if (!this.unicodeClasses) {
+            if (lower !== 's') return { kind: 'escape', value: char as 'd' };
+            members = ASCII_SPACE;
+        } else if (lower === 'd') {
+            this.needUnicode();
+            return { kind: 'property', name: 'Nd', negated };
+        } else {
+            members = lower === 'w' ? UNICODE_WORD : this.dialect === 'python' ? UNICODE_SPACE : UNICODE_SPACE.slice(0, 1).concat(UNICODE_SPACE.slice(2));
+        }
+        const node = this.set(negated, members);
+        // A negated set can only join a class as a nested class
+        if (negated && inClass) this.needs = 'v';
+        return { kind: 'class', node };
+    }
+
+    private set(negated: boolean, members: ClassMember[]): CharacterSetNode {
+        if (members.some(member => member.kind === 'property')) this.needUnicode();
+        return { type: 'class', kind: 'set', negated, members };
+    }
+
+    private needUnicode(): void {
+        if (!this.needs) this.needs = 'u';
+    }
+
+    /** Reads PCRE's `\pL`, `\p{Lu}`, `\p{Greek}` or `\p{^Lu}` after the backslash at `start`. */
+    private readProperty(start: number): { name: string; value?: string; negated: boolean } {
+        let negated = this.peek() === 'P';
+        this.pos++;
+        const match = /^(?:\{(\^?)([A-Za-z_&]+)\}|([A-Z]))/.exec(this.source.slice(this.pos));
+        if (!match) this.fail('\\p must be followed by a property name', start);
+        this.pos += match[0].length;
+        if (match[1]) negated = !negated;
+        const name = (match[2] ?? match[3]).replace(/^L&$/, 'LC');
+        this.needUnicode();
+        if (isUnicodeProperty(name)) return { name, negated };
+        if (isUnicodeProperty('Script', name)) return { name: 'Script', value: name, negated };
+        return this.fail(`Unknown or unsupported Unicode property '${name}'`, start);
+    }
+
+    private parseClass(): PatternNode {
+        const start = this.pos;
+        this.pos++;
+        const negated = this.eat('^');
+        const members: ClassMember[] = [];
+        // A `]` right after the opening bracket is a literal
+        if (this.peek() === ']') {
+            this.pos++;
+            members.push({ kind: 'char', value: ']' });
+        }
+        while (!this.eat(']')) {
+            if (this.atEnd()) this.fail('Unterminated character class', start);
+            if (this.options.has('xx') && (this.peek() === ' ' || this.peek() === '\t')) {
+                this.pos++;
+                continue;
+            }
+            const rangeStart = this.pos;
+            const from = this.parseClassAtom();
+            if (this.peek() !== '-' || this.source[this.pos + 1] === ']' || this.pos + 1 >= this.source.length) {
+                members.push(from);
+                continue;
+            }
+            this.pos++;
+            const to = this.parseClassAtom();
+            if (from.kind !== 'char' || to.kind !== 'char') this.fail('Bad character range', rangeStart);
+            if (from.value.codePointAt(0)! > to.value.codePointAt(0)!) this.fail('Bad character range', rangeStart);
+            members.push({ kind: 'range', from: from.value, to: to.value });
+        }
+        return { type: 'class', kind: 'set', negated, members };
+    }
+
+    private parseClassAtom(): ClassMember {
+        const start = this.pos;
+        if (this.dialect === 'pcre' && this.peek() === '[') {
+            const posix = /^\[:(\^?)([a-z]+):\]/.exec(this.source.slice(this.pos));
+            if (posix) {
+                const members = POSIX_CLASSES[posix[2]];
+                if (!members) this.fail(`Unknown POSIX class '${posix[2]}'`, start);
+                this.pos += posix[0].length;
+                if (posix[1]) this.needs = 'v';
+                return { kind: 'class', node: this.set(posix[1] === '^', members) };
+            }
+        }
+        if (this.peek() !== '\\') return { kind: 'char', value: this.readChar() };
+        this.pos++;
+        if (this.atEnd()) this.fail('\\ at end of pattern', start);
+        if (this.dialect === 'pcre' && this.peek() === 'Q') this.fail('\\Q...\\E inside a character class is not supported', start);
+        return this.parseEscapeMember(start, true);
+    }
+
+    /** Counts capturing groups ahead of parsing, for PCRE's rule on reading `\N`. */
+    private countGroups(): number {
+        let count = 0;
+        let inClass = false;
+        for (let i = 0; i < this.source.length; i++) {
+            const char = this.source[i];
+            if (char === '\\') i++;
+            else if (inClass) inClass = char !== ']';
+            else if (char === '[') inClass = true;
+            else if (char === '(' && (this.source[i + 1] !== '?' || /^\?(P?<(?![=!])|')/.test(this.source.slice(i + 1)))) {
+                if (this.source[i + 1] !== '*') count++;
+            }
+        }
+        return count;
+    }
+
+    /** Reads one code point. */
+    private readChar(): string {
+        const char = String.fromCodePoint(this.source.codePointAt(this.pos)!);
+        this.pos += char.length;
+        return char;
+    }
+
+    private peek(): string {
+        return this.source[this.pos] ?? '';
+    }
+
+    private eat(char: string): boolean {
+        if (this.peek() !== char) return false;
+        this.pos++;
+        return true;
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.source.length;
+    }
+
+    private fail(message: string, offset: number = this.pos): never {
+        throw new RegexParseError(`Invalid ${DIALECT_NAMES[this.dialect]} pattern: ${message}`, this.source, offset);
+    }
+}
+
+function lookbehind(negated: boolean, body: PatternNode): PatternNode {
+    return { type: 'assertion', kind: 'lookbehind', negated, body };
+}
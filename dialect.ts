@@ -0,0 +1,693 @@
+/**
+ * Translation of patterns into other regex dialects, used by
+ * `IrregularExpression.toDialect()`.
+ *
+ * The pattern is rewritten from its AST, so each construct keeps its
+ * ECMAScript meaning rather than its spelling: `\d` still matches only ASCII
+ * digits in Python, where it would otherwise match any Unicode digit, and `.`
+ * still stops at `\r`. A construct the target cannot express is reported as an
+ * error instead of being written as a pattern that silently matches something
+ * else; one that is written with a caveat is reported as a warning.
+ *
+ * @module
+ */
+
+import {
+    type CharacterSetNode,
+    type ClassMember,
+    generateWithSpans,
+    type PatternNode,
+    quantifierSuffix,
+    type UnicodePropertyNode,
+} from './ast.ts';
+import { expandCharacterSet } from './char-class.ts';
+
+/** A regex dialect {@link translatePattern} can write. */
+export type Dialect = 'pcre' | 'python' | 're2' | 'posix-ere' | 'postgres';
+
+/** A construct that could not be translated, or was translated with a caveat. */
+export interface DialectDiagnostic {
+    /** `error` when the construct cannot be written, `warning` when it is written with a caveat */
+    severity: 'error' | 'warning';
+    /** The kind of construct, e.g. `lookbehind`, `backreference` or `flag` */
+    construct: string;
+    /** Plain-English description of the problem */
+    message: string;
+    /** The `[start, end)` offsets of the construct in `getPattern()`; absent for flags */
+    span?: [number, number];
+}
+
+/** The result of translating a pattern into another dialect. */
+export interface DialectPattern {
+    dialect: Dialect;
+    /** The translated pattern, or `null` when any diagnostic is an error */
+    pattern: string | null;
+    diagnostics: DialectDiagnostic[];
+}
+
+/** What a dialect can express, and how it spells it. */
+interface Syntax {
+    name: string;
+    /** Characters that need a backslash to match literally outside brackets */
+    special: RegExp;
+    /** Writes an invisible character, or `null` to write it as is */
+    codePoint: ((codePoint: number) => string) | null;
+    /** Opens a named group, or `null` when named groups are not supported */
+    namedGroup: ((name: string) => string) | null;
+    /** Refers to a named group, or `null` to refer to it by number */
+    namedBackreference: ((name: string) => string) | null;
+    backreferences: boolean;
+    /** Whether a backreference to a group that did not take part fails, where ECMAScript matches it as empty */
+    unsetBackreferencesFail: boolean;
+    nonCapturingGroups: boolean;
+    lookahead: boolean;
+    /** `fixed` needs a fixed-width body, `bounded` a bounded one */
+    lookbehind: 'any' | 'bounded' | 'fixed' | null;
+    /** `whole-pattern` when the first quantifier decides greediness for the whole pattern */
+    lazy: 'native' | 'whole-pattern' | null;
+    /** `python-3.11` when atomic groups and possessive quantifiers need Python 3.11 or later */
+    atomic: 'native' | 'python-3.11' | null;
+    /** `\b` and `\B`, or `null` when word boundaries are not supported */
+    wordBoundary: [string, string] | null;
+    /** Whether `\p{...}` supports General_Category and Script values */
+    properties: boolean;
+    /** Whether `(?i)`-style flags can lead the pattern */
+    inlineFlags: boolean;
+    /** Class escapes that match exactly what they match in ECMAScript */
+    nativeEscapes: string;
+    /** Writes `$` when the `m` flag is not set */
+    endOfInput: string;
+}
+
+const hex = (codePoint: number, digits: number) => codePoint.toString(16).toUpperCase().padStart(digits, '0');
+
+const SYNTAX: Record<Dialect, Syntax> = {
+    pcre: {
+        name: 'PCRE',
+        special: /[\\^$.|?*+()[\]{}]/g,
+        codePoint: codePoint => `\\x{${hex(codePoint, 2)}}`,
+        namedGroup: name => `(?<${name}>`,
+        namedBackreference: name => `\\k<${name}>`,
+        backreferences: true,
+        unsetBackreferencesFail: true,
+        nonCapturingGroups: true,
+        lookahead: true,
+        lookbehind: 'bounded',
+        lazy: 'native',
+        atomic: 'native',
+        wordBoundary: ['\\b', '\\B'],
+        properties: true,
+        inlineFlags: true,
+        nativeEscapes: 'dDwW',
+        endOfInput: '\\z',
+    },
+    python: {
+        name: 'Python re',
+        special: /[\\^$.|?*+()[\]{}]/g,
+        codePoint: codePoint =>
+            codePoint <= 0xff ? `\\x${hex(codePoint, 2)}` : codePoint <= 0xffff ? `\\u${hex(codePoint, 4)}` : `\\U${hex(codePoint, 8)}`,
+        namedGroup: name => `(?P<${name}>`,
+        namedBackreference: name => `(?P=${name})`,
+        backreferences: true,
+        unsetBackreferencesFail: true,
+        nonCapturingGroups: true,
+        lookahead: true,
+        lookbehind: 'fixed',
+        lazy: 'native',
+        atomic: 'python-3.11',
+        wordBoundary: ['\\b', '\\B'],
+        properties: false,
+        inlineFlags: true,
+        nativeEscapes: '',
+        endOfInput: '\\Z',
+    },
+    re2: {
+        name: 'RE2',
+        special: /[\\^$.|?*+()[\]{}]/g,
+        codePoint: codePoint => `\\x{${hex(codePoint, 2)}}`,
+        namedGroup: name => `(?P<${name}>`,
+        namedBackreference: null,
+        backreferences: false,
+        unsetBackreferencesFail: false,
+        nonCapturingGroups: true,
+        lookahead: false,
+        lookbehind: null,
+        lazy: 'native',
+        atomic: null,
+        wordBoundary: ['\\b', '\\B'],
+        properties: true,
+        inlineFlags: true,
+        nativeEscapes: 'dDwW',
+        endOfInput: '$',
+    },
+    'posix-ere': {
+        name: 'POSIX ERE',
+        special: /[\\^$.|?*+()[{]/g,
+        codePoint: null,
+        namedGroup: null,
+        namedBackreference: null,
+        backreferences: false,
+        unsetBackreferencesFail: false,
+        nonCapturingGroups: false,
+        lookahead: false,
+        lookbehind: null,
+        lazy: null,
+        atomic: null,
+        wordBoundary: null,
+        properties: false,
+        inlineFlags: false,
+        nativeEscapes: '',
+        endOfInput: '$',
+    },
+    postgres: {
+        name: 'PostgreSQL',
+        special: /[\\^$.|?*+()[\]{}]/g,
+        // `\x` takes as many hex digits as follow it, so use the fixed-width forms
+        codePoint: codePoint => codePoint <= 0xffff ? `\\u${hex(codePoint, 4)}` : `\\U${hex(codePoint, 8)}`,
+        namedGroup: null,
+        namedBackreference: null,
+        backreferences: true,
+        unsetBackreferencesFail: false,
+        nonCapturingGroups: true,
+        lookahead: true,
+        lookbehind: 'any',
+        lazy: 'whole-pattern',
+        atomic: null,
+        wordBoundary: ['\\y', '\\Y'],
+        properties: false,
+        inlineFlags: true,
+        nativeEscapes: '',
+        endOfInput: '$',
+    },
+};
+
+/** What `\d`, `\w` and `\s` match in ECMAScript. */
+const ESCAPE_MEMBERS: Record<'d' | 'w' | 's', ClassMember[]> = {
+    d: [{ kind: 'range', from: '0', to: '9' }],
+    w: [
+        { kind: 'range', from: '0', to: '9' },
+        { kind: 'range', from: 'A', to: 'Z' },
+        { kind: 'char', value: '_' },
+        { kind: 'range', from: 'a', to: 'z' },
+    ],
+    s: [
+        { kind: 'range', from: '\t', to: '\r' },
+        { kind: 'char', value: ' ' },
+        { kind: 'char', value: '\u00A0' },
+        { kind: 'char', value: '\u1680' },
+        { kind: 'range', from: '\u2000', to: '\u200A' },
+        { kind: 'range', from: '\u2028', to: '\u2029' },
+        { kind: 'char', value: '\u202F' },
+        { kind: 'char', value: '\u205F' },
+        { kind: 'char', value: '\u3000' },
+        { kind: 'char', value: '\uFEFF' },
+    ],
+};
+
+/** The characters `.` does not match without the `s` flag. */
+const LINE_TERMINATORS: CharacterSetNode = {
+    type: 'class',
+    kind: 'set',
+    negated: true,
+    members: [
+        { kind: 'char', value: '\n' },
+        { kind: 'char', value: '\r' },
+        { kind: 'range', from: '\u2028', to: '\u2029' },
+    ],
+};
+
+/**
+ * Translates a pattern into another regex dialect.
+ *
+ * @param ast The pattern.
+ * @param flags The flags the pattern is compiled with.
+ * @param dialect The dialect to write.
+ * @returns The translated pattern, or `null` with error diagnostics when it
+ * cannot be written.
+ * @throws {RangeError} If the dialect is not known.
+ *
+ * @example
+ * ```typescript
+ * translatePattern(IrregularExpression.from(/(?<year>\d{4})/).toAST(), '', 'python');
+ * // { dialect: "python", pattern: "(?P<year>[0-9]{4})", diagnostics: [] }
+ * ```
+ */
+export function translatePattern(ast: PatternNode, flags: string, dialect: Dialect): DialectPattern {
+    if (!Object.hasOwn(SYNTAX, dialect)) {
+        throw new RangeError(`Unknown dialect '${dialect}'; expected one of ${Object.keys(SYNTAX).join(', ')}`);
+    }
+    return new DialectWriter(ast, flags, dialect).run();
+}
+
+class DialectWriter {
+    private readonly diagnostics: DialectDiagnostic[] = [];
+    private readonly syntax: Syntax;
+    private readonly spans: Map<PatternNode, [number, number]>;
+    /** The number of each named group, for dialects that refer to groups by number */
+    private readonly groupNumbers = new Map<string, number>();
+    /** Backreferences whose group may not have taken part in the match when they are reached */
+    private readonly unsetBackreferences = new Set<PatternNode>();
+    private lineAnchors = false;
+
+    constructor(private readonly ast: PatternNode, private readonly flags: string, private readonly dialect: Dialect) {
+        this.syntax = SYNTAX[dialect];
+        this.spans = generateWithSpans(ast, flags).spans;
+        this.numberGroups(ast, 0);
+        this.findUnsetBackreferences(ast, new Set(), { count: 0 });
+    }
+
+    run(): DialectPattern {
+        const body = this.write(this.ast);
+        const prefix = this.flagPrefix();
+        const failed = this.diagnostics.some(diagnostic => diagnostic.severity === 'error');
+        return { dialect: this.dialect, pattern: failed ? null : prefix + body, diagnostics: this.diagnostics };
+    }
+
+    /** Numbers capturing groups in the order their parentheses open, as ECMAScript does. */
+    private numberGroups(node: PatternNode, count: number): number {
+        switch (node.type) {
+            case 'group':
+                if (node.capturing) {
+                    count++;
+                    if (node.name !== undefined) this.groupNumbers.set(node.name, count);
+                }
+                return this.numberGroups(node.body, count);
+            case 'quantifier':
+                return this.numberGroups(node.body, count);
+            case 'assertion':
+                return node.kind === 'lookahead' || node.kind === 'lookbehind' ? this.numberGroups(node.body, count) : count;
+            case 'alternation':
+                return node.alternatives.reduce((total, alternative) => this.numberGroups(alternative, total), count);
+            case 'sequence':
+                return node.elements.reduce((total, element) => this.numberGroups(element, total), count);
+            default:
+                return count;
+        }
+    }
+
+    /**
+     * Follows the pattern in order, tracking the groups that have certainly
+     * taken part: a group inside an optional quantifier, an alternative or a
+     * negative lookaround may not have, nor may one that is still open or
+     * comes later.
+     *
+     * @param node The node to follow.
+     * @param set The groups certainly set before the node.
+     * @param groups The number of capturing groups opened so far.
+     * @returns The groups certainly set after the node.
+     */
+    private findUnsetBackreferences(node: PatternNode, set: ReadonlySet<number>, groups: { count: number }): ReadonlySet<number> {
+        switch (node.type) {
+            case 'group': {
+                const number = node.capturing ? ++groups.count : null;
+                const after = this.findUnsetBackreferences(node.body, set, groups);
+                return number === null ? after : new Set(after).add(number);
+            }
+            case 'quantifier': {
+                const after = this.findUnsetBackreferences(node.body, set, groups);
+                return node.min === 0 ? set : after;
+            }
+            case 'assertion': {
+                if (node.kind !== 'lookahead' && node.kind !== 'lookbehind') return set;
+                const after = this.findUnsetBackreferences(node.body, set, groups);
+                return node.negated ? set : after;
+            }
+            case 'alternation': {
+                const afters = node.alternatives.map(alternative => this.findUnsetBackreferences(alternative, set, groups));
+                return new Set([...afters[0] ?? []].filter(number => afters.every(after => after.has(number))));
+            }
+            case 'sequence':
+                return node.elements.reduce((before, element) => this.findUnsetBackreferences(element, before, groups), set);
+            case 'backreference': {
+                const number = typeof node.ref === 'number' ? node.ref : this.groupNumbers.get(node.ref);
+                if (number === undefined || !set.has(number)) this.unsetBackreferences.add(node);
+                return set;
+            }
+            default:
+                return set;
+        }
+    }
+
+    private flagPrefix(): string {
+        const { syntax } = this;
+        let inline = '';
+        if (this.flags.includes('i')) {
+            if (syntax.inlineFlags) inline += 'i';
+            else this.report(null, 'warning', 'flag', `${syntax.name} has no inline flags; compile with REG_ICASE (or grep -i) to ignore case`);
+        }
+        if (this.flags.includes('m')) {
+            if (!syntax.inlineFlags) {
+                this.report(null, 'warning', 'flag', `${syntax.name} has no inline flags; compile with REG_NEWLINE to match ^ and $ at line breaks, which also stops negated brackets from matching '\\n'`);
+            } else {
+                // PostgreSQL's `m` also stops `.` and negated brackets at line breaks; `w` does not
+                inline += this.dialect === 'postgres' ? 'w' : 'm';
+                if (this.lineAnchors) this.report(null, 'warning', 'flag', `in ${syntax.name}, ^ and $ only treat '\\n' as a line break, not '\\r', '\\u2028' or '\\u2029'`);
+            }
+        }
+        if (this.flags.includes('s') && syntax.inlineFlags && this.dialect !== 'postgres') inline += 's';
+        if (this.flags.includes('y')) {
+            this.report(null, 'warning', 'flag', `${syntax.name} has no sticky flag; anchor the match at the start position when calling it`);
+        }
+        return inline === '' ? '' : `(?${inline})`;
+    }
+
+    private write(node: PatternNode): string {
+        switch (node.type) {
+            case 'literal':
+                return Array.from(node.value, char => this.literal(char)).join('');
+            case 'class':
+                switch (node.kind) {
+                    case 'any':
+                        // `.` stops at '\n' alone elsewhere, or at nothing in PostgreSQL and POSIX, so spell it out
+                        return this.flags.includes('s') ? '.' : this.set(LINE_TERMINATORS, node);
+                    case 'escape':
+                        if (this.syntax.nativeEscapes.includes(node.value)) return `\\${node.value}`;
+                        return this.set({ type: 'class', kind: 'set', negated: false, members: [{ kind: 'escape', value: node.value }] }, node);
+                    case 'property':
+                        return this.property(node, node);
+                    case 'set':
+                        return this.set(node, node);
+                }
+                break;
+            case 'group':
+                return this.group(node);
+            case 'quantifier':
+                return this.quantifier(node);
+            case 'alternation':
+                return node.alternatives.map(alternative => this.write(alternative)).join('|');
+            case 'sequence':
+                return this.sequence(node.elements);
+            case 'assertion':
+                return this.assertion(node);
+            case 'backreference':
+                return this.backreference(node);
+        }
+    }
+
+    private literal(char: string): string {
+        const codePoint = char.codePointAt(0)!;
+        if (this.syntax.codePoint && needsCodePointEscape(codePoint)) return this.syntax.codePoint(codePoint);
+        return char.replace(this.syntax.special, '\\$&');
+    }
+
+    private group(node: Extract<PatternNode, { type: 'group' }>): string {
+        const { syntax } = this;
+        const body = this.write(node.body);
+        if (node.atomic) {
+            if (!this.atomicSupported(node, 'atomic group')) return '';
+            return `(?>${body})`;
+        }
+        if (!node.capturing) return this.wrap(body, node);
+        if (node.name === undefined) return `(${body})`;
+        if (syntax.namedGroup) return `${syntax.namedGroup(node.name)}${body})`;
+        this.report(node, 'warning', 'named group', `${syntax.name} has no named groups, so '${node.name}' is written as group ${this.groupNumbers.get(node.name)}`);
+        return `(${body})`;
+    }
+
+    /** Wraps source in a non-capturing group, or in a capturing one where there is no other kind. */
+    private wrap(source: string, node: PatternNode): string {
+        if (this.syntax.nonCapturingGroups) return `(?:${source})`;
+        this.report(node, 'warning', 'non-capturing group', `${this.syntax.name} has no non-capturing groups, so a capturing group is used, which shifts the numbers of the groups after it`);
+        return `(${source})`;
+    }
+
+    private atomicSupported(node: PatternNode, construct: string): boolean {
+        const { atomic, name } = this.syntax;
+        if (atomic === 'python-3.11') this.report(node, 'warning', construct, `${name} supports atomic groups and possessive quantifiers from Python 3.11`);
+        if (atomic === null) this.report(node, 'error', construct, `${name} has no atomic groups or possessive quantifiers`);
+        return atomic !== null;
+    }
+
+    private quantifier(node: Extract<PatternNode, { type: 'quantifier' }>): string {
+        const { syntax } = this;
+        const body = this.atom(node.body);
+        if (!node.greedy) {
+            if (syntax.lazy === null) this.report(node, 'error', 'lazy quantifier', `${syntax.name} has no lazy quantifiers`);
+            if (syntax.lazy === 'whole-pattern') {
+                this.report(node, 'warning', 'lazy quantifier', `in ${syntax.name} the first quantifier decides whether the whole pattern prefers longer or shorter matches, so mixing lazy and greedy quantifiers can match differently`);
+            }
+        }
+        const suffix = quantifierSuffix(node);
+        if (node.possessive) return this.atomicSupported(node, 'possessive quantifier') ? `${body}${suffix}+` : '';
+        return body + suffix;
+    }
+
+    /** Writes a node so that a following quantifier applies to all of it. */
+    private atom(node: PatternNode): string {
+        switch (node.type) {
+            case 'class':
+            case 'group':
+            case 'backreference':
+                return this.write(node);
+            case 'literal':
+                return Array.from(node.value).length === 1 ? this.write(node) : this.wrap(this.write(node), node);
+            case 'sequence':
+                return node.elements.length === 1 ? this.atom(node.elements[0]) : this.wrap(this.write(node), node);
+            default:
+                return this.wrap(this.write(node), node);
+        }
+    }
+
+    private sequence(elements: PatternNode[]): string {
+        const sources = elements.map(element => this.write(element));
+        return sources.map((source, index) => {
+            // `\1` followed by a literal `0` would read as `\10`
+            const next = sources[index + 1];
+            const element = elements[index];
+            const wrap = element.type === 'alternation' ||
+                (element.type === 'backreference' && next !== undefined && /^\\\d+$/.test(source) && /^\d/.test(next));
+            return wrap ? this.wrap(source, element) : source;
+        }).join('');
+    }
+
+    private assertion(node: Extract<PatternNode, { type: 'assertion' }>): string {
+        const { syntax } = this;
+        switch (node.kind) {
+            case 'startOfLine':
+                this.lineAnchors = true;
+                return '^';
+            case 'endOfLine':
+                this.lineAnchors = true;
+                return this.flags.includes('m') ? '$' : syntax.endOfInput;
+            case 'wordBoundary':
+            case 'nonWordBoundary':
+                if (!syntax.wordBoundary) {
+                    this.report(node, 'error', 'word boundary', `${syntax.name} has no word boundary assertions`);
+                    return '';
+                }
+                if (this.dialect === 'python' || this.dialect === 'postgres') {
+                    this.report(node, 'warning', 'word boundary', `${syntax.name} counts letters and digits outside ASCII as word characters at a word boundary`);
+                }
+                return syntax.wordBoundary[node.kind === 'wordBoundary' ? 0 : 1];
+            case 'lookahead':
+            case 'lookbehind':
+                return this.lookaround(node);
+        }
+    }
+
+    private lookaround(node: Extract<PatternNode, { type: 'assertion'; kind: 'lookahead' | 'lookbehind' }>): string {
+        const { syntax } = this;
+        const body = this.write(node.body);
+        const operator = (node.kind === 'lookbehind' ? '<' : '') + (node.negated ? '!' : '=');
+        const supported = node.kind === 'lookahead' ? syntax.lookahead : syntax.lookbehind !== null;
+        if (!supported) {
+            this.report(node, 'error', node.kind, `${syntax.name} has no ${node.kind} assertions`);
+            return '';
+        }
+        if (this.dialect === 'postgres' && containsCapture(node.body)) {
+            this.report(node, 'error', node.kind, `${syntax.name} does not allow groups that capture or backreferences inside a ${node.kind}`);
+            return '';
+        }
+        if (node.kind === 'lookbehind') {
+            const [min, max] = width(node.body);
+            if (syntax.lookbehind === 'fixed' && min !== max) {
+                this.report(node, 'error', 'lookbehind', `${syntax.name} only allows a lookbehind that matches a fixed number of characters`);
+                return '';
+            }
+            if (syntax.lookbehind === 'bounded' && max === Infinity) {
+                this.report(node, 'error', 'lookbehind', `${syntax.name} does not allow a lookbehind that can match any number of characters`);
+                return '';
+            }
+            if (syntax.lookbehind === 'bounded' && min !== max) {
+                this.report(node, 'warning', 'lookbehind', `a lookbehind that matches a varying number of characters needs PCRE2 10.43 or later`);
+            }
+        }
+        return `(?${operator}${body})`;
+    }
+
+    private backreference(node: Extract<PatternNode, { type: 'backreference' }>): string {
+        const { syntax } = this;
+        if (!syntax.backreferences) {
+            this.report(node, 'error', 'backreference', `${syntax.name} has no backreferences`);
+            return '';
+        }
+        if (syntax.unsetBackreferencesFail && this.unsetBackreferences.has(node)) {
+            this.report(node, 'warning', 'backreference', `in ${syntax.name} a backreference to a group that did not take part in the match fails, where ECMAScript matches it as empty`);
+        }
+        if (typeof node.ref === 'number') return `\\${node.ref}`;
+        return syntax.namedBackreference?.(node.ref) ?? `\\${this.groupNumbers.get(node.ref)}`;
+    }
+
+    private property(property: Omit<UnicodePropertyNode, 'type' | 'kind'>, node: PatternNode): string {
+        const { syntax } = this;
+        const source = `\\${property.negated ? 'P' : 'p'}{${property.value ?? property.name}}`;
+        if (!syntax.properties) {
+            this.report(node, 'error', 'unicode property', `${syntax.name} has no Unicode property escapes`);
+            return '';
+        }
+        const category = /^(?:[A-Z][a-z]?|Any)$/;
+        const supported = property.value === undefined
+            ? category.test(property.name)
+            : ['General_Category', 'gc'].includes(property.name)
+            ? category.test(property.value)
+            : ['Script', 'sc'].includes(property.name);
+        if (!supported) {
+            this.report(node, 'error', 'unicode property', `${syntax.name} only supports short General_Category names such as 'Lu' and Script values in \\p{...}`);
+            return '';
+        }
+        return source;
+    }
+
+    /**
+     * Writes a bracketed set, spelling out class escapes that mean something
+     * else in the target and flattening set operations and nested classes.
+     */
+    private set(node: CharacterSetNode, origin: PatternNode): string {
+        const { syntax } = this;
+        const foreign = (member: ClassMember) => member.kind === 'escape' && !syntax.nativeEscapes.includes(member.value);
+        let { negated, members } = node;
+        if (node.operations?.length || members.some(member => member.kind === 'class')) {
+            ({ negated, members } = expandCharacterSet(node));
+        } else if (members.length === 1 && members[0].kind === 'escape' && foreign(members[0])) {
+            const escape = members[0].value;
+            negated = negated !== (escape !== escape.toLowerCase());
+            members = ESCAPE_MEMBERS[escape.toLowerCase() as 'd' | 'w' | 's'];
+        } else if (members.some(member => member.kind === 'escape' && foreign(member) && member.value !== member.value.toLowerCase())) {
+            ({ negated, members } = expandCharacterSet(node));
+        } else {
+            members = members.flatMap(member =>
+                member.kind === 'escape' && foreign(member) ? ESCAPE_MEMBERS[member.value as 'd' | 'w' | 's'] : [member]
+            );
+        }
+        if (members.length === 0) return this.emptySet(negated, origin);
+        if (this.dialect === 'posix-ere') return this.bracket(negated, members, origin);
+        const body = members.map(member => {
+            switch (member.kind) {
+                case 'char':
+                    return this.setCharacter(member.value);
+                case 'range':
+                    return `${this.setCharacter(member.from)}-${this.setCharacter(member.to)}`;
+                case 'escape':
+                    return `\\${member.value}`;
+                case 'property':
+                    return this.property(member, origin);
+                case 'class':
+                    return '';
+            }
+        }).join('');
+        return `[${negated ? '^' : ''}${body}]`;
+    }
+
+    private setCharacter(char: string): string {
+        const codePoint = char.codePointAt(0)!;
+        if (this.syntax.codePoint && needsCodePointEscape(codePoint)) return this.syntax.codePoint(codePoint);
+        return char.replace(/[\\\]\[^-]/g, '\\$&');
+    }
+
+    /** `[]` matches nothing and `[^]` any character, neither of which brackets can say outside ECMAScript. */
+    private emptySet(negated: boolean, origin: PatternNode): string {
+        if (negated) return this.syntax.inlineFlags && this.dialect !== 'postgres' ? '(?s:.)' : '.';
+        if (this.syntax.lookahead) return '(?!)';
+        this.report(origin, 'error', 'character class', `${this.syntax.name} cannot write an empty character class, which never matches`);
+        return '';
+    }
+
+    /**
+     * Writes a POSIX bracket expression, where a backslash is an ordinary
+     * character: `]` must come first, `-` last, and `^` anywhere but first.
+     */
+    private bracket(negated: boolean, members: ClassMember[], origin: PatternNode): string {
+        const items: string[] = [];
+        let closing = '';
+        let dash = '';
+        for (const member of members) {
+            if (member.kind === 'char' && member.value === ']') closing = ']';
+            else if (member.kind === 'char' && member.value === '-') dash = '-';
+            else if (member.kind === 'char') items.push(member.value);
+            else if (member.kind === 'range' && [member.from, member.to].some(char => char === ']' || char === '-')) {
+                this.report(origin, 'error', 'character class', `${this.syntax.name} cannot write a range that starts or ends with ']' or '-'`);
+                return '';
+            } else if (member.kind === 'range') items.push(`${member.from}-${member.to}`);
+            else if (member.kind === 'property') this.property(member, origin);
+        }
+        if (!closing && items[0]?.startsWith('^')) {
+            if (items.length > 1) items.push(items.shift()!);
+            else if (dash) [closing, dash] = ['-', ''];
+            else if (items[0] === '^' && !negated) return '\\^';
+            else if (!negated) {
+                this.report(origin, 'error', 'character class', `${this.syntax.name} cannot write a range that starts with '^' on its own`);
+                return '';
+            }
+        }
+        return `[${negated ? '^' : ''}${closing}${items.join('')}${dash}]`;
+    }
+
+    private report(node: PatternNode | null, severity: DialectDiagnostic['severity'], construct: string, message: string): void {
+        const span = node ? this.spans.get(node) : undefined;
+        this.diagnostics.push(span ? { severity, construct, message, span } : { severity, construct, message });
+    }
+}
+
+/** Characters that are invisible or unprintable, which are written as escapes where the dialect has them. */
+const INVISIBLE = /[\p{Cc}\p{Cf}\p{Cs}\p{Co}\p{Cn}\p{Z}]/u;
+
+function needsCodePointEscape(codePoint: number): boolean {
+    return codePoint !== 0x20 && INVISIBLE.test(String.fromCodePoint(codePoint));
+}
+
+/** Whether a node holds a capturing group or a backreference. */
+function containsCapture(node: PatternNode): boolean {
+    switch (node.type) {
+        case 'group':
+            return node.capturing || containsCapture(node.body);
+        case 'backreference':
+            return true;
+        case 'quantifier':
+            return containsCapture(node.body);
+        case 'assertion':
+            return (node.kind === 'lookahead' || node.kind === 'lookbehind') && containsCapture(node.body);
+        case 'alternation':
+            return node.alternatives.some(containsCapture);
+        case 'sequence':
+            return node.elements.some(containsCapture);
+        default:
+            return false;
+    }
+}
+
+/** The fewest and most characters a node can match; a backreference can match any number. */
+function width(node: PatternNode): [number, number] {
+    switch (node.type) {
+        case 'literal':
+            return [Array.from(node.value).length, Array.from(node.value).length];
+        case 'class':
+            return [1, 1];
+        case 'group':
+            return width(node.body);
+        case 'quantifier': {
+            const [min, max] = width(node.body);
+            if (node.max === 0 || max === 0) return [0, 0];
+            return [min * node.min, node.max === null ? Infinity : max * node.max];
+        }
+        case 'alternation': {
+            const widths = node.alternatives.map(width);
+            return [Math.min(...widths.map(([min]) => min)), Math.max(...widths.map(([, max]) => max))];
+        }
+        case 'sequence':
+            return node.elements.map(width).reduce(([min, max], [a, b]) => [min + a, max + b], [0, 0]);
+        case 'assertion':
+            return [0, 0];
+        case 'backreference':
+            return [0, Infinity];
+    }
+}
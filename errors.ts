@@ -0,0 +1,112 @@
+/**
+ * Errors reported by the builder methods of `IrregularExpression`.
+ *
+ * A builder records each error, lists it in `diagnostics()` and dispatches it
+ * as the `detail` of an `error` event, then carries on without the offending
+ * call. In `strict()` mode it also throws the error from the method that
+ * caused it.
+ *
+ * @module
+ */
+
+/** Codes of {@link InvalidArgumentError}. */
+export type InvalidArgumentCode =
+    | 'invalid-count'
+    | 'invalid-mode'
+    | 'invalid-group-reference'
+    | 'invalid-range'
+    | 'unsupported-property'
+    | 'duplicate-definition';
+
+/** Codes of {@link QuantifierError}. */
+export type QuantifierErrorCode = 'nothing-to-repeat' | 'unrepeatable-anchor' | 'stacked-quantifier';
+
+/** Codes of {@link FragmentReferenceError}. */
+export type FragmentReferenceCode = 'undefined-reference' | 'reference-cycle' | 'missing-flags';
+
+/** What went wrong, for code that handles errors by kind rather than by message. */
+export type IrregularExpressionErrorCode =
+    | InvalidArgumentCode
+    | QuantifierErrorCode
+    | FragmentReferenceCode
+    | 'invalid-pattern'
+    | 'match-failed'
+    | 'unserializable-check';
+
+/** Where an error came from. */
+export interface ErrorDetails<Code extends IrregularExpressionErrorCode> {
+    code: Code;
+    /** The builder method that reported the error, e.g. `exactly` */
+    method: string;
+    /** The offending argument, if there is one */
+    argument?: unknown;
+    /** The offset in `getPattern()` the problem is at, if known */
+    offset?: number | null;
+}
+
+/** The base class of the errors a builder reports. */
+export class IrregularExpressionError extends Error {
+    readonly code: IrregularExpressionErrorCode;
+    /** The builder method that reported the error, e.g. `exactly` */
+    readonly method: string;
+    /** The offending argument, or undefined if there is none */
+    readonly argument: unknown;
+    /**
+     * The offset in `getPattern()` the problem is at, or null if unknown. For
+     * a method's own errors this is where the call would have added to the
+     * pattern; inside a group callback it counts from the start of the group.
+     */
+    readonly offset: number | null;
+
+    constructor(message: string, { code, method, argument, offset = null }: ErrorDetails<IrregularExpressionErrorCode>) {
+        super(message);
+        this.name = 'IrregularExpressionError';
+        this.code = code;
+        this.method = method;
+        this.argument = argument;
+        this.offset = offset;
+    }
+}
+
+/** A method was called with an argument it cannot use, such as `exactly(-1)`. */
+export class InvalidArgumentError extends IrregularExpressionError {
+    declare readonly code: InvalidArgumentCode;
+
+    constructor(message: string, details: ErrorDetails<InvalidArgumentCode>) {
+        super(message, details);
+        this.name = 'InvalidArgumentError';
+    }
+}
+
+/** A quantifier has nothing to repeat, or something it cannot repeat. */
+export class QuantifierError extends IrregularExpressionError {
+    declare readonly code: QuantifierErrorCode;
+
+    constructor(message: string, details: ErrorDetails<QuantifierErrorCode>) {
+        super(message, details);
+        this.name = 'QuantifierError';
+    }
+}
+
+/** The built pattern is not valid ECMAScript regex syntax. */
+export class PatternSyntaxError extends IrregularExpressionError {
+    declare readonly code: 'invalid-pattern';
+
+    constructor(message: string, details: ErrorDetails<'invalid-pattern'>) {
+        super(message, details);
+        this.name = 'PatternSyntaxError';
+    }
+}
+
+/**
+ * A `ref()` names a fragment its library does not define, fragments refer to
+ * each other in a cycle, or a fragment needs a flag the builder lacks.
+ */
+export class FragmentReferenceError extends IrregularExpressionError {
+    declare readonly code: FragmentReferenceCode;
+
+    constructor(message: string, details: ErrorDetails<FragmentReferenceCode>) {
+        super(message, details);
+        this.name = 'FragmentReferenceError';
+    }
+}
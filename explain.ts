@@ -0,0 +1,283 @@
+/**
+ * Plain-English descriptions of a pattern AST, used by
+ * `IrregularExpression.explain()` and `IrregularExpression.explainTree()`.
+ *
+ * @module
+ */
+
+import { type AssertionNode, type CharacterSetNode, type ClassMember, type ClassNode, generate, type PatternNode } from './ast.ts';
+
+/** The description of one part of a pattern. */
+export interface Explanation {
+    /** The kind of AST node this part was generated from */
+    type: PatternNode['type'];
+    /** Plain-English description of this part */
+    description: string;
+    /** The regex source of this part */
+    source: string;
+    /**
+     * The parts inside this one. They are alternatives when `type` is
+     * `alternation`, and are matched one after another otherwise.
+     */
+    children: Explanation[];
+}
+
+/** The description of a flag the pattern is compiled with. */
+export interface FlagExplanation {
+    flag: string;
+    description: string;
+}
+
+/** A complete, JSON-serializable description of a pattern. */
+export interface ExplanationTree {
+    /** The full regex source */
+    pattern: string;
+    flags: FlagExplanation[];
+    /** The top-level parts of the pattern, in matching order */
+    steps: Explanation[];
+}
+
+const FLAG_DESCRIPTIONS: Record<string, string> = {
+    d: 'record the start and end of each capture',
+    g: 'global (find all matches)',
+    i: 'case-insensitive',
+    m: 'multiline (^ and $ match at line breaks)',
+    s: 'dot matches line breaks',
+    u: 'Unicode',
+    v: 'Unicode sets',
+    y: 'sticky (match only at the current position)',
+};
+
+/** Noun phrases for something matched one character (or group) at a time. */
+interface Noun {
+    /** With an article, e.g. "a digit" */
+    a: string;
+    /** For a count of one, e.g. "digit" */
+    one: string;
+    /** For other counts, e.g. "digits" */
+    many: string;
+}
+
+const ESCAPE_NOUNS: Record<string, Noun> = {
+    d: { a: 'a digit', one: 'digit', many: 'digits' },
+    D: { a: 'a non-digit', one: 'non-digit', many: 'non-digits' },
+    w: { a: 'a word character', one: 'word character', many: 'word characters' },
+    W: { a: 'a non-word character', one: 'non-word character', many: 'non-word characters' },
+    s: { a: 'a whitespace character', one: 'whitespace character', many: 'whitespace characters' },
+    S: { a: 'a non-whitespace character', one: 'non-whitespace character', many: 'non-whitespace characters' },
+};
+
+/**
+ * Describes a pattern as a tree of plain-English steps.
+ *
+ * @param ast The root node of the pattern.
+ * @param flags The flags the pattern is compiled with.
+ * @returns The description tree.
+ */
+export function explainPattern(ast: PatternNode, flags: string): ExplanationTree {
+    const explainer = new Explainer(flags);
+    return {
+        pattern: generate(ast, flags),
+        flags: Object.keys(FLAG_DESCRIPTIONS)
+            .filter(flag => flags.includes(flag))
+            .map(flag => ({ flag, description: FLAG_DESCRIPTIONS[flag] })),
+        steps: explainer.steps(ast),
+    };
+}
+
+/**
+ * Renders a description tree as indented text, one step per line.
+ *
+ * @param tree The description tree.
+ * @returns The rendered text.
+ */
+export function renderExplanation(tree: ExplanationTree): string {
+    const lines: string[] = [];
+    if (tree.flags.length > 0) {
+        lines.push(`flags: ${tree.flags.map(flag => flag.description).join(', ')}`);
+    }
+    if (tree.steps.length === 0) lines.push('the empty string');
+    tree.steps.forEach((step, index) => renderStep(step, index === 0 ? '' : 'then ', 0, lines));
+    return lines.join('\n');
+}
+
+function renderStep(step: Explanation, prefix: string, depth: number, lines: string[]): void {
+    lines.push(`${'  '.repeat(depth)}${prefix}${step.description}`);
+    const joiner = step.type === 'alternation' ? 'or ' : 'then ';
+    step.children.forEach((child, index) => renderStep(child, index === 0 ? '' : joiner, depth + 1, lines));
+}
+
+function quote(text: string): string {
+    return `'${text.replace(/[\\']/g, '\\$&').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')}'`;
+}
+
+/** Walks the AST in source order, numbering capture groups as it goes. */
+class Explainer {
+    private captures = 0;
+
+    constructor(private readonly flags: string) {}
+
+    /** Explains a node as the list of steps it consists of. */
+    steps(node: PatternNode): Explanation[] {
+        if (node.type === 'sequence') return node.elements.map(element => this.explain(element));
+        return [this.explain(node)];
+    }
+
+    private explain(node: PatternNode): Explanation {
+        const source = generate(node, this.flags);
+        const leaf = (description: string): Explanation => ({ type: node.type, description, source, children: [] });
+        switch (node.type) {
+            case 'literal':
+            case 'class':
+            case 'backreference':
+                return leaf(this.noun(node)!.a);
+            case 'assertion':
+                return this.assertion(node);
+            case 'group': {
+                if (node.atomic) return this.parent(node, 'atomic group (never backtracked into):', node.body);
+                if (!node.capturing) return this.parent(node, 'group:', node.body);
+                const number = ++this.captures;
+                const label = node.name === undefined ? `capture group #${number}:` : `capture group #${number} "${node.name}":`;
+                return this.parent(node, label, node.body);
+            }
+            case 'quantifier': {
+                const lazy = node.possessive ? ' (never giving any back)' : node.greedy ? '' : ' (as few as possible)';
+                const noun = this.noun(node.body);
+                if (noun) return leaf(this.countOf(node.min, node.max, noun) + lazy);
+                return this.parent(node, `${this.times(node.min, node.max)}${lazy}:`, node.body);
+            }
+            case 'alternation':
+                return {
+                    type: 'alternation',
+                    description: 'either:',
+                    source,
+                    children: node.alternatives.map(alternative => {
+                        const steps = this.steps(alternative);
+                        if (steps.length === 1) return steps[0];
+                        if (steps.length === 0) return { type: 'sequence', description: 'nothing', source: '', children: [] };
+                        return { type: 'sequence', description: 'in order:', source: generate(alternative, this.flags), children: steps };
+                    }),
+                };
+            case 'sequence':
+                return { type: 'sequence', description: 'in order:', source, children: this.steps(node) };
+        }
+    }
+
+    private assertion(node: AssertionNode): Explanation {
+        const leaf = (description: string): Explanation => ({ type: 'assertion', description, source: generate(node, this.flags), children: [] });
+        switch (node.kind) {
+            case 'startOfLine':
+                return leaf(this.flags.includes('m') ? 'start of line' : 'start of input');
+            case 'endOfLine':
+                return leaf(this.flags.includes('m') ? 'end of line' : 'end of input');
+            case 'wordBoundary':
+                return leaf('a word boundary');
+            case 'nonWordBoundary':
+                return leaf('not a word boundary');
+            case 'lookahead':
+                return this.parent(node, node.negated ? 'not followed by:' : 'followed by:', node.body);
+            case 'lookbehind':
+                return this.parent(node, node.negated ? 'not preceded by:' : 'preceded by:', node.body);
+        }
+    }
+
+    private parent(node: PatternNode, description: string, body: PatternNode): Explanation {
+        const source = generate(node, this.flags);
+        return { type: node.type, description, source, children: this.steps(body) };
+    }
+
+    /** Noun phrases for a node matched as one unit, or null if it needs its own steps. */
+    private noun(node: PatternNode): Noun | null {
+        switch (node.type) {
+            case 'literal':
+                if ([...node.value].length === 1) {
+                    return { a: `the literal ${quote(node.value)}`, one: quote(node.value), many: `${quote(node.value)} characters` };
+                }
+                return { a: `the literal ${quote(node.value)}`, one: `copy of ${quote(node.value)}`, many: `copies of ${quote(node.value)}` };
+            case 'class':
+                return this.classNoun(node);
+            case 'backreference': {
+                const group = typeof node.ref === 'number' ? `capture group #${node.ref}` : `capture group "${node.ref}"`;
+                return { a: `the same text as ${group}`, one: `repeat of ${group}`, many: `repeats of ${group}` };
+            }
+            case 'sequence':
+                return node.elements.length === 1 ? this.noun(node.elements[0]) : null;
+            default:
+                return null;
+        }
+    }
+
+    private classNoun(node: ClassNode): Noun {
+        switch (node.kind) {
+            case 'any':
+                return this.flags.includes('s')
+                    ? { a: 'any character', one: 'character', many: 'characters' }
+                    : { a: 'any character except line breaks', one: 'character', many: 'characters (except line breaks)' };
+            case 'escape':
+                return ESCAPE_NOUNS[node.value];
+            case 'property': {
+                const property = node.value === undefined ? node.name : `${node.name}=${node.value}`;
+                const which = `${node.negated ? 'without' : 'with'} Unicode property ${property}`;
+                return { a: `a character ${which}`, one: `character ${which}`, many: `characters ${which}` };
+            }
+            case 'set': {
+                const list = this.setDescription(node);
+                return node.negated
+                    ? { a: `any character except ${list}`, one: `character other than ${list}`, many: `characters other than ${list}` }
+                    : { a: `one of ${list}`, one: `character from ${list}`, many: `characters from ${list}` };
+            }
+        }
+    }
+
+    /** Describes a set without its negation, e.g. "'a' to 'z' except 'a', 'e' or 'i'". */
+    private setDescription(node: CharacterSetNode): string {
+        let description = this.memberList(node.members);
+        for (const operation of node.operations ?? []) {
+            const operand = this.memberList([operation.operand]);
+            description += operation.kind === 'intersection' ? ` that are also ${operand}` : ` except ${operand}`;
+        }
+        return description;
+    }
+
+    private memberList(members: ClassMember[]): string {
+        const parts = members.map(member => {
+            switch (member.kind) {
+                case 'char':
+                    return quote(member.value);
+                case 'range':
+                    return `${quote(member.from)} to ${quote(member.to)}`;
+                case 'escape':
+                    return ESCAPE_NOUNS[member.value].many;
+                case 'property': {
+                    const property = member.value === undefined ? member.name : `${member.name}=${member.value}`;
+                    return `characters ${member.negated ? 'without' : 'with'} Unicode property ${property}`;
+                }
+                case 'class': {
+                    const list = this.setDescription(member.node);
+                    return member.node.negated ? `(any character except ${list})` : `(${list})`;
+                }
+            }
+        });
+        if (parts.length === 0) return 'nothing';
+        if (parts.length === 1) return parts[0];
+        return `${parts.slice(0, -1).join(', ')} or ${parts[parts.length - 1]}`;
+    }
+
+    private countOf(min: number, max: number | null, noun: Noun): string {
+        if (min === 0 && max === null) return `zero or more ${noun.many}`;
+        if (min === 1 && max === null) return `one or more ${noun.many}`;
+        if (min === 0 && max === 1) return `optionally ${noun.a}`;
+        if (min === max) return `exactly ${min} ${min === 1 ? noun.one : noun.many}`;
+        if (max === null) return `at least ${min} ${min === 1 ? noun.one : noun.many}`;
+        return `between ${min} and ${max} ${noun.many}`;
+    }
+
+    private times(min: number, max: number | null): string {
+        if (min === 0 && max === null) return 'zero or more times';
+        if (min === 1 && max === null) return 'one or more times';
+        if (min === 0 && max === 1) return 'optionally';
+        if (min === max) return min === 1 ? 'exactly once' : `exactly ${min} times`;
+        if (max === null) return `at least ${min} times`;
+        return `between ${min} and ${max} times`;
+    }
+}
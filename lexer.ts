@@ -0,0 +1,217 @@
+/**
+ * A tokenizer built from builder rules, used by `IrregularExpression.lexer()`.
+ * The rules of each state are compiled into one sticky (`y`) regex with a
+ * named group per rule, so each token is found with a single `exec()`.
+ *
+ * @module
+ */
+
+import { generate, type PatternNode } from './ast.ts';
+import { LineIndex } from './match.ts';
+import type { IrregularExpression } from './mod.ts';
+
+/** A token produced by a {@link Lexer}. */
+export interface Token<Type extends string = string> {
+    /** The name of the rule that matched, or the error token type */
+    type: Type;
+    /** The matched text */
+    value: string;
+    /** The offset of the token in the input */
+    offset: number;
+    /** The 1-based line the token starts on */
+    line: number;
+    /** The 1-based column the token starts at */
+    column: number;
+}
+
+/** Defines the pattern of a lexer rule on a fresh builder. */
+export type LexerPattern = (builder: IrregularExpression) => IrregularExpression<string, string[]>;
+
+/**
+ * A lexer rule: a pattern, or a pattern with options that leave its tokens
+ * out of the output or switch the lexer to another state.
+ */
+export type LexerRule = LexerPattern | {
+    match: LexerPattern;
+    /** Leaves this rule's tokens out of the output */
+    skip?: boolean;
+    /** Enters the named state, returning to the current one on `pop` */
+    push?: string;
+    /** Returns to the state that pushed the current one */
+    pop?: boolean;
+    /** Switches to the named state for good */
+    next?: string;
+};
+
+/** Lexer rules by token type. Rules are tried in order, and the first that matches wins. */
+export type LexerRules<Type extends string = string> = { [Name in Type]?: LexerRule };
+
+/** Options for `IrregularExpression.lexer()`. */
+export interface LexerOptions<Type extends string = string, ErrorType extends string = never> {
+    /** Token types to leave out of the output, such as whitespace */
+    skip?: NoInfer<Type>[];
+    /**
+     * Further states, each with its own rules. The rules given to
+     * `lexer()` form the `main` state, which the lexer starts in.
+     */
+    states?: Record<string, LexerRules<Type>>;
+    /**
+     * The token type for input no rule matches. Each error token runs up to
+     * the next place a rule matches. Without it, unmatched input throws a
+     * {@link LexerError}.
+     */
+    errorToken?: ErrorType;
+}
+
+/** A rule compiled by `IrregularExpression.lexer()`. */
+export interface CompiledRule {
+    type: string;
+    pattern: PatternNode;
+    flags: string;
+    skip: boolean;
+    push?: string;
+    pop?: boolean;
+    next?: string;
+}
+
+/** Thrown when the lexer meets input that no rule matches. */
+export class LexerError extends Error {
+    /** The offset of the unmatched input */
+    readonly offset: number;
+
+    /** The 1-based line of the unmatched input */
+    readonly line: number;
+
+    /** The 1-based column of the unmatched input */
+    readonly column: number;
+
+    constructor(message: string, offset: number, line: number, column: number) {
+        super(`${message} at line ${line}, column ${column}`);
+        this.name = 'LexerError';
+        this.offset = offset;
+        this.line = line;
+        this.column = column;
+    }
+}
+
+/** The compiled rules of one lexer state. */
+interface State {
+    rules: CompiledRule[];
+    /** Finds a token at `lastIndex` exactly */
+    sticky: RegExp;
+    /** Finds the next place any rule matches, for error recovery */
+    search: RegExp;
+}
+
+/**
+ * Splits input into tokens. Use `IrregularExpression.lexer()` rather than
+ * constructing one directly.
+ *
+ * @example
+ * ```typescript
+ * const lexer = IrregularExpression.lexer({
+ *   NUMBER: b => b.digit().oneOrMore(),
+ *   PLUS: b => b.literal("+"),
+ *   WS: b => b.whitespace().oneOrMore(),
+ * }, { skip: ["WS"] });
+ *
+ * console.log([...lexer.tokenize("1 + 22")].map(token => token.value)); // ["1", "+", "22"]
+ * ```
+ */
+export class Lexer<Type extends string = string> {
+    private readonly states = new Map<string, State>();
+
+    /**
+     * @param states The compiled rules of each state; the lexer starts in `main`.
+     * @param errorToken The token type for unmatched input, if it should not throw.
+     * @throws {SyntaxError} If a rule name is not a valid group name or a rule enters an unknown state.
+     */
+    constructor(states: Map<string, CompiledRule[]>, private readonly errorToken?: string) {
+        for (const [name, rules] of states) {
+            for (const rule of rules) {
+                if (!/^[$_\p{ID_Start}][$\u200C\u200D\p{ID_Continue}]*$/u.test(rule.type)) {
+                    throw new SyntaxError(`Lexer rule names must be valid group names, got '${rule.type}'.`);
+                }
+                const target = rule.push ?? rule.next;
+                if (target !== undefined && !states.has(target)) {
+                    throw new SyntaxError(`Lexer rule '${rule.type}' enters unknown state '${target}'.`);
+                }
+            }
+            this.states.set(name, this.compile(rules));
+        }
+    }
+
+    /**
+     * Splits the input into tokens, lazily.
+     *
+     * @param input The text to tokenize.
+     * @returns The tokens, in order.
+     * @throws {LexerError} If no rule matches somewhere in the input and there is no error token.
+     */
+    *tokenize(input: string): Generator<Token<Type>, void> {
+        const lines = new LineIndex(input);
+        const stack = ['main'];
+        let offset = 0;
+        while (offset < input.length) {
+            const state = this.states.get(stack[stack.length - 1])!;
+            state.sticky.lastIndex = offset;
+            const match = state.sticky.exec(input);
+            if (!match) {
+                const end = this.recover(state, input, offset);
+                if (this.errorToken === undefined) {
+                    const { line, column } = lines.locate(offset);
+                    throw new LexerError(`Unexpected input '${input.slice(offset, end)}'`, offset, line, column);
+                }
+                yield { type: this.errorToken as Type, value: input.slice(offset, end), offset, ...lines.locate(offset) };
+                offset = end;
+                continue;
+            }
+            const rule = state.rules.find(rule => match.groups![rule.type] !== undefined)!;
+            if (match[0] === '') {
+                const { line, column } = lines.locate(offset);
+                throw new LexerError(`Lexer rule '${rule.type}' matched the empty string`, offset, line, column);
+            }
+            if (!rule.skip) yield { type: rule.type as Type, value: match[0], offset, ...lines.locate(offset) };
+            offset += match[0].length;
+            if (rule.pop) {
+                if (stack.length === 1) {
+                    const { line, column } = lines.locate(offset);
+                    throw new LexerError(`Lexer rule '${rule.type}' popped the last state`, offset, line, column);
+                }
+                stack.pop();
+            }
+            if (rule.push !== undefined) stack.push(rule.push);
+            if (rule.next !== undefined) stack[stack.length - 1] = rule.next;
+        }
+    }
+
+    /** Joins the rules of a state into one regex, with the flags of all of them. */
+    private compile(rules: CompiledRule[]): State {
+        const flags = new Set(rules.flatMap(rule => [...rule.flags]).filter(flag => !'dgy'.includes(flag)));
+        // 'u' and 'v' cannot be combined, and 'v' accepts everything 'u' does
+        if (flags.has('v')) flags.delete('u');
+        const ast: PatternNode = {
+            type: 'alternation',
+            alternatives: rules.map(rule => ({ type: 'group', capturing: true, name: rule.type, body: rule.pattern })),
+        };
+        const source = rules.length > 0 ? generate(ast, Array.from(flags).join('')) : '(?!)';
+        return {
+            rules,
+            sticky: new RegExp(source, `${Array.from(flags).join('')}y`),
+            search: new RegExp(source, `${Array.from(flags).join('')}g`),
+        };
+    }
+
+    /** Finds where unmatched input at `offset` ends: the next place a rule matches a token. */
+    private recover(state: State, input: string, offset: number): number {
+        let from = offset + String.fromCodePoint(input.codePointAt(offset)!).length;
+        while (from < input.length) {
+            state.search.lastIndex = from;
+            const next = state.search.exec(input);
+            if (!next) break;
+            if (next[0] !== '') return next.index;
+            from = next.index + 1;
+        }
+        return input.length;
+    }
+}
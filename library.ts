@@ -0,0 +1,106 @@
+/**
+ * Named, parameterized pattern fragments:
+ *
+ * ```typescript
+ * const library = new PatternLibrary();
+ * library
+ *   .define("octet", () => library.match().digit().between(1, 3))
+ *   .define("sep", (char: string) => library.match().literal(char));
+ *
+ * const mac = library.match().ref("octet").ref("sep", "-").ref("octet");
+ * ```
+ *
+ * `ref()` records a reference rather than the fragment's pattern, so a
+ * fragment can be defined after the chains that use it. References are
+ * expanded each time the pattern is read, and `build()` reports references
+ * to undefined fragments and cycles between fragments.
+ *
+ * @module
+ */
+
+import { IrregularExpression } from './mod.ts';
+import { InvalidArgumentError } from './errors.ts';
+
+/** Builds a fragment's pattern from the arguments given to `ref()`. */
+export type Fragment<Args extends unknown[] = unknown[]> = (...args: Args) => IrregularExpression<string, string[]>;
+
+/** A registry of named fragments that builders made with {@link PatternLibrary.match} can `ref()`. */
+export class PatternLibrary {
+    private readonly fragments = new Map<string, Fragment>();
+
+    /**
+     * Defines a fragment. Its pattern is inserted wherever a builder calls
+     * `ref(name, ...args)`, as a non-capturing group, so a quantifier after
+     * the reference repeats all of it. Only the pattern is inserted: the
+     * fragment's flags and `validate()` checks are not, and its capture
+     * groups are not counted in the builder's type. A builder referring to a
+     * fragment made with the `i`, `m`, `s`, `u` or `v` flag must have it too,
+     * or `build()` reports a `FragmentReferenceError`.
+     *
+     * @param name The name to refer to the fragment by.
+     * @param fragment Returns the fragment's pattern for the arguments given
+     * to `ref()`. Build it with {@link PatternLibrary.match} to refer to other fragments.
+     * @returns The library for chaining.
+     * @throws {InvalidArgumentError} If `name` is already defined.
+     *
+     * @example
+     * ```typescript
+     * const library = new PatternLibrary();
+     * library
+     *   .define("octet", () => library.match().digit().between(1, 3))
+     *   .define("dotted", () => library.match().literal(".").ref("octet"))
+     *   .define("ipv4", () => library.match().ref("octet").ref("dotted").exactly(3));
+     *
+     * console.log(library.match().ref("ipv4").build().source); // "(?:(?:\\d{1,3})(?:\\.(?:\\d{1,3})){3})"
+     * ```
+     */
+    define<Args extends unknown[]>(name: string, fragment: Fragment<Args>): this {
+        if (this.fragments.has(name)) {
+            throw new InvalidArgumentError(`define: '${name}' is already defined.`, {
+                code: 'duplicate-definition',
+                method: 'define',
+                argument: name,
+            });
+        }
+        this.fragments.set(name, fragment as Fragment);
+        return this;
+    }
+
+    /**
+     * Checks whether a fragment is defined.
+     *
+     * @param name The fragment's name.
+     * @returns True if the library defines it.
+     */
+    has(name: string): boolean {
+        return this.fragments.has(name);
+    }
+
+    /**
+     * Finds a fragment.
+     *
+     * @param name The fragment's name.
+     * @returns The fragment, or undefined if the library does not define it.
+     */
+    get(name: string): Fragment | undefined {
+        return this.fragments.get(name);
+    }
+
+    /**
+     * Initializes a new regex builder whose `ref()` refers to this library's fragments.
+     *
+     * @returns A new instance of IrregularExpression
+     *
+     * @example
+     * ```typescript
+     * const library = new PatternLibrary();
+     * library.define("word", () => library.match().wordCharacter().oneOrMore());
+     * const pair = library.match().ref("word").literal("=").ref("word");
+     *
+     * console.log(pair.build().source); // "(?:\\w+)=(?:\\w+)"
+     * ```
+     */
+    match(): IrregularExpression {
+        return IrregularExpression.match().withLibrary(this);
+    }
+}
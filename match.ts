@@ -0,0 +1,100 @@
+/**
+ * Match objects with positions, used by `IrregularExpression.matchAll()` and
+ * `IrregularExpression.matchFirst()`.
+ *
+ * @module
+ */
+
+/** The start (inclusive) and end (exclusive) offsets of a piece of the input. */
+export type Span = [start: number, end: number];
+
+/**
+ * One match, with the offsets of the match and of each capture group.
+ * Offsets count UTF-16 code units, like string indices. Lines and columns
+ * start at 1; `\n`, `\r\n` and `\r` each end a line.
+ *
+ * @typeParam Named The names of the named capture groups.
+ * @typeParam Captures One entry per capture group.
+ */
+export interface MatchResult<Named extends string = string, Captures extends string[] = string[]> {
+    /** The matched text */
+    text: string;
+    /** The offset of the first matched character */
+    start: number;
+    /** The offset just past the last matched character */
+    end: number;
+    /** The line the match starts on */
+    line: number;
+    /** The column the match starts at */
+    column: number;
+    /** The text of each capture group, starting at group 1; `undefined` if the group did not take part */
+    captures: { [Index in keyof Captures]: string | undefined };
+    /** The text of each named capture group */
+    named: { [Name in Named]: string | undefined };
+    /** The span of each capture group, starting at group 1 */
+    spans: { [Index in keyof Captures]: Span | undefined };
+    /** The span of each named capture group */
+    namedSpans: { [Name in Named]: Span | undefined };
+}
+
+/** Maps offsets in a string to line and column numbers. */
+export class LineIndex {
+    /** The offset at which each line starts */
+    private readonly lineStarts: number[] = [0];
+
+    constructor(input: string) {
+        const breaks = /\r\n?|\n/g;
+        let found: RegExpExecArray | null;
+        while ((found = breaks.exec(input)) !== null) this.lineStarts.push(found.index + found[0].length);
+    }
+
+    /**
+     * Finds the line and column of an offset.
+     *
+     * @param offset An offset into the input.
+     * @returns The 1-based line and column.
+     */
+    locate(offset: number): { line: number; column: number } {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (this.lineStarts[middle] <= offset) low = middle;
+            else high = middle - 1;
+        }
+        return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+    }
+}
+
+/**
+ * Turns a match made with the `d` flag into a {@link MatchResult}.
+ *
+ * @param match The match, with `indices`.
+ * @param lines The line index of the input that was searched.
+ * @returns The match result.
+ */
+export function toMatchResult<Named extends string, Captures extends string[]>(
+    match: RegExpExecArray,
+    lines: LineIndex,
+): MatchResult<Named, Captures> {
+    const indices = match.indices!;
+    // The whole match always has indices, but the element type allows none
+    const [start, end] = indices[0] ?? [match.index, match.index + match[0].length];
+    const span = (pair: [number, number] | undefined): Span | undefined => pair && [pair[0], pair[1]];
+    const named: Record<string, string | undefined> = {};
+    const namedSpans: Record<string, Span | undefined> = {};
+    for (const name of Object.keys(match.groups ?? {})) {
+        named[name] = match.groups![name];
+        namedSpans[name] = span(indices.groups?.[name]);
+    }
+    return {
+        text: match[0],
+        start,
+        end,
+        ...lines.locate(start),
+        captures: match.slice(1) as MatchResult<Named, Captures>['captures'],
+        named: named as MatchResult<Named, Captures>['named'],
+        spans: Array.from(indices).slice(1).map(span) as MatchResult<Named, Captures>['spans'],
+        namedSpans: namedSpans as MatchResult<Named, Captures>['namedSpans'],
+    };
+}
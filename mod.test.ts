@@ -1,6 +1,22 @@
 // IrregularExpression.test.ts
-import { assertEquals, assertFalse, assert } from "@std/assert";
-import { IrregularExpression } from './mod.ts';
+import { assertEquals, assertFalse, assert, assertRejects, assertThrows } from "@std/assert";
+import {
+  expandCharacterSet,
+  FragmentReferenceError,
+  InvalidArgumentError,
+  irx,
+  IrregularExpression,
+  IrregularExpressionError,
+  LexerError,
+  MatchTimeoutError,
+  PatternLibrary,
+  PatternSyntaxError,
+  presets,
+  QuantifierError,
+  RegexParseError,
+  SchemaError,
+  UnanalyzablePatternError,
+} from './mod.ts';
 
 Deno.test("IrregularExpression - Basic Matching", () => {
   const regex = IrregularExpression.match()
@@ -65,11 +81,11 @@ Deno.test("IrregularExpression - Groups", () => {
   const regex = IrregularExpression.match()
     .capture(group => group.digit().exactly(3))
     .literal("-")
-    .namedCapture("number", (group: any) => group.digit().exactly(4));
+    .namedCapture("number", group => group.digit().exactly(4));
 
   const match = regex.execute("123-4567")[0];
   assertEquals(match[1], "123");
-  assertEquals(match.groups?.number, "4567");
+  assertEquals(match.groups.number, "4567");
 });
 
 Deno.test("IrregularExpression - Lookarounds", () => {
@@ -136,7 +152,7 @@ Deno.test("IrregularExpression - Error Handling", () => {
   let errorMessage = "";
   regex.addEventListener("error", (event: Event) => {
     if (event instanceof CustomEvent) {
-      errorMessage = event.detail;
+      errorMessage = event.detail.message;
     }
   });
   regex.runTimes(-1);
@@ -309,3 +325,1132 @@ Deno.test("then method works correctly", () => {
   assertEquals(jsRegex.test("123-456-7890"), true);
   assertEquals(jsRegex.test("12-34-5678"), false);
 });
+
+Deno.test("IrregularExpression - toAST", () => {
+  const ast = IrregularExpression.match()
+    .startOfLine()
+    .digit().exactly(3)
+    .literal("-")
+    .namedCapture("rest", group => group.wordCharacter().oneOrMore())
+    .toAST();
+
+  assertEquals(ast, {
+    type: "sequence",
+    elements: [
+      { type: "assertion", kind: "startOfLine" },
+      { type: "quantifier", min: 3, max: 3, greedy: true, body: { type: "class", kind: "escape", value: "d" } },
+      { type: "literal", value: "-" },
+      {
+        type: "group",
+        capturing: true,
+        name: "rest",
+        body: {
+          type: "sequence",
+          elements: [
+            { type: "quantifier", min: 1, max: null, greedy: true, body: { type: "class", kind: "escape", value: "w" } },
+          ],
+        },
+      },
+    ],
+  });
+});
+
+Deno.test("IrregularExpression - toAST alternation", () => {
+  const ast = IrregularExpression.match()
+    .literal("cat")
+    .or()
+    .literal("dog")
+    .toAST();
+
+  assertEquals(ast, {
+    type: "alternation",
+    alternatives: [
+      { type: "sequence", elements: [{ type: "literal", value: "cat" }] },
+      { type: "sequence", elements: [{ type: "literal", value: "dog" }] },
+    ],
+  });
+});
+
+Deno.test("IrregularExpression - Quantifiers keep element boundaries", () => {
+  assertEquals(IrregularExpression.match().literal("colou").literal("r").zeroOrOne().getPattern(), "colour?");
+  assertEquals(IrregularExpression.match().literal("ab").oneOrMore().getPattern(), "ab+");
+  assertEquals(IrregularExpression.match().digit().exactly(3).exactly(2).getPattern(), "(?:\\d{3}){2}");
+  assertEquals(
+    IrregularExpression.combine(
+      IrregularExpression.match().literal("cat").or().literal("dog"),
+      IrregularExpression.match().literal("s"),
+    ).getPattern(),
+    "(?:cat|dog)s",
+  );
+  assertEquals(
+    IrregularExpression.match().capture(g => g.digit()).backreference(1).literal("0").getPattern(),
+    "(\\d)(?:\\1)0",
+  );
+});
+
+Deno.test("IrregularExpression - Quantifier with nothing to repeat", () => {
+  const regex = IrregularExpression.match().startOfLine();
+  let errorMessage = "";
+  regex.addEventListener("error", (event: Event) => {
+    if (event instanceof CustomEvent) {
+      errorMessage = event.detail.message;
+    }
+  });
+  regex.oneOrMore();
+  regex.build();
+  assertEquals(errorMessage, "oneOrMore has nothing to repeat.");
+  assertEquals(regex.getPattern(), "^");
+});
+
+Deno.test("IrregularExpression.from - round-trips through getPattern", () => {
+  const sources = [
+    "^(?<year>\\d{4})-(?<month>\\d{2})$",
+    "(?<=\\$)\\d+(?:\\.\\d\\d)?",
+    "[\\w.-]+@[^\\s@]+",
+    "\\p{Script=Greek}+\\P{L}",
+    "(a|b)*?\\1{2,}",
+    "\\bfoo\\B(?!ab)(?<!c)",
+    "(?<word>\\w+) \\k<word>",
+  ];
+  for (const source of sources) {
+    assertEquals(IrregularExpression.from(source, "u").getPattern(), source);
+  }
+});
+
+Deno.test("IrregularExpression.from - parses escapes into literals", () => {
+  const regex = IrregularExpression.from("\\u{1F600}\\x41\\u0042\\t", "u");
+  assertEquals(regex.toAST(), {
+    type: "sequence",
+    elements: [{ type: "literal", value: "\u{1F600}AB\t" }],
+  });
+  assertEquals(regex.getPattern(), "\u{1F600}AB\\t");
+});
+
+Deno.test("IrregularExpression.from - carries flags and keeps chaining", () => {
+  const regex = IrregularExpression.from(/^\d+/im)
+    .literal("px")
+    .endOfLine()
+    .build();
+
+  assertEquals(regex.flags, "im");
+  assertEquals(regex.source, "^\\d+px$");
+  assert(regex.test("first\n12PX"));
+  assertEquals(IrregularExpression.from("a").build().flags, "g");
+  assertEquals(IrregularExpression.from(/a/g, "y").build().flags, "y");
+});
+
+Deno.test("IrregularExpression.from - reports the offset of parse errors", () => {
+  const cases: [string, string, number][] = [
+    ["ab)", "", 2],
+    ["x(a", "", 1],
+    ["[z-a]", "", 1],
+    ["a{2,1}", "", 1],
+    ["\\p{Nope}", "u", 0],
+    ["(?<a>x)(?<a>y)", "", 10],
+  ];
+  for (const [source, flags, offset] of cases) {
+    const error = assertThrows(() => IrregularExpression.from(source, flags), RegexParseError);
+    assertEquals((error as RegexParseError).offset, offset, source);
+  }
+  assertThrows(() => IrregularExpression.from("a", "gg"), SyntaxError);
+});
+
+Deno.test("IrregularExpression - explain", () => {
+  const regex = IrregularExpression.match()
+    .startOfLine()
+    .digit().exactly(3)
+    .literal("-")
+    .namedCapture("rest", group => group
+      .wordCharacter()
+      .oneOrMore()
+    )
+    .negativeLookahead(group => group.literal("x"))
+    .endOfLine()
+    .multiline();
+
+  assertEquals(regex.explain(), [
+    "flags: global (find all matches), multiline (^ and $ match at line breaks)",
+    "start of line",
+    "then exactly 3 digits",
+    "then the literal '-'",
+    "then capture group #1 \"rest\":",
+    "  one or more word characters",
+    "then not followed by:",
+    "  the literal 'x'",
+    "then end of line",
+  ].join("\n"));
+});
+
+Deno.test("IrregularExpression - explain alternation and backreferences", () => {
+  const regex = IrregularExpression.from("(a)(?:cat|do+g)\\1?", "");
+  assertEquals(regex.explain(), [
+    "capture group #1:",
+    "  the literal 'a'",
+    "then group:",
+    "  either:",
+    "    the literal 'cat'",
+    "    or in order:",
+    "      the literal 'd'",
+    "      then one or more 'o' characters",
+    "      then the literal 'g'",
+    "then optionally the same text as capture group #1",
+  ].join("\n"));
+  assertEquals(regex.explainTree().flags, []);
+});
+
+Deno.test("IrregularExpression - explainTree", () => {
+  const tree = IrregularExpression.match()
+    .literal("$")
+    .range("0", "9")
+    .between(1, 3)
+    .ignoreCase()
+    .explainTree();
+
+  assertEquals(JSON.parse(JSON.stringify(tree)), {
+    pattern: "\\$[0-9]{1,3}",
+    flags: [
+      { flag: "g", description: "global (find all matches)" },
+      { flag: "i", description: "case-insensitive" },
+    ],
+    steps: [
+      { type: "literal", description: "the literal '$'", source: "\\$", children: [] },
+      { type: "quantifier", description: "between 1 and 3 characters from '0' to '9'", source: "[0-9]{1,3}", children: [] },
+    ],
+  });
+});
+
+Deno.test("IrregularExpression - Prefix quantifiers", () => {
+  const regex = IrregularExpression.match()
+    .startOfLine()
+    .exactly(3).digit()
+    .then("-")
+    .exactly(3).digit()
+    .then("-")
+    .exactly(4).digit()
+    .endOfLine()
+    .build();
+
+  assertEquals(regex.toString(), "/^\\d{3}-\\d{3}-\\d{4}$/g");
+  assert(regex.test("123-456-7890"));
+  assertFalse(regex.test("12-34-5678"));
+});
+
+Deno.test("IrregularExpression - Prefix quantifiers repeat whole elements", () => {
+  assertEquals(
+    IrregularExpression.match()
+      .oneOrMore().literal("ab")
+      .between(1, 2).capture(group => group.digit())
+      .zeroOrOne().group(group => group.literal("x").or().literal("y"))
+      .getPattern(),
+    "(?:ab)+(\\d){1,2}(x|y)?",
+  );
+  assertEquals(
+    IrregularExpression.match().prefixQuantifiers().literal("x").exactly(2).wordCharacter().getPattern(),
+    "x\\w{2}",
+  );
+});
+
+Deno.test("IrregularExpression - Prefix quantifier errors", () => {
+  const errors: string[] = [];
+  const listen = (regex: IrregularExpression) => {
+    regex.addEventListener("error", (event: Event) => {
+      if (event instanceof CustomEvent) errors.push(event.detail.message);
+    });
+    return regex;
+  };
+
+  listen(IrregularExpression.match()).exactly(2).endOfLine();
+  listen(IrregularExpression.match()).zeroOrMore().oneOrMore().digit();
+  const trailing = listen(IrregularExpression.match()).atLeast(2);
+  assertEquals(trailing.build().source, "(?!)");
+  assertEquals(trailing.getPattern(), "");
+
+  assertEquals(errors, [
+    "exactly cannot repeat an anchor.",
+    "oneOrMore cannot follow zeroOrMore, which has nothing to repeat yet.",
+    "atLeast has nothing to repeat.",
+  ]);
+
+  const matching = IrregularExpression.match().exactly(2);
+  assertEquals(matching.execute("ab"), []);
+  assertEquals(matching.diagnostics().map(error => error.code), ["nothing-to-repeat"]);
+  const printed = IrregularExpression.match().prefixQuantifiers().literal("a").oneOrMore();
+  assertEquals(printed.getPattern(), "a");
+  assertEquals(printed.diagnostics().map(error => [error.code, error.offset]), [["nothing-to-repeat", 1]]);
+  assertEquals(IrregularExpression.match().exactly(2).matchAll("ab"), []);
+});
+
+Deno.test("IrregularExpression - Lazy quantifiers", () => {
+  const regex = IrregularExpression.match()
+    .literal("<")
+    .anySingleCharacter().zeroOrMore("lazy")
+    .literal(">");
+
+  assertEquals(regex.getPattern(), "<.*?>");
+  assertEquals(regex.execute("<a><b>").map(match => match[0]), ["<a>", "<b>"]);
+  assertEquals(
+    IrregularExpression.match()
+      .digit().oneOrMore("lazy")
+      .digit().zeroOrOne("lazy")
+      .digit().exactly(2, "lazy")
+      .digit().atLeast(2, "lazy")
+      .digit().between(1, 3, "lazy")
+      .getPattern(),
+    "\\d+?\\d??\\d{2}?\\d{2,}?\\d{1,3}?",
+  );
+  assertEquals(IrregularExpression.match().atLeast(1, "lazy").wordCharacter().getPattern(), "\\w+?");
+});
+
+Deno.test("IrregularExpression - Atomic groups and possessive quantifiers", () => {
+  const atomic = IrregularExpression.match()
+    .atomic(group => group.literal("a").oneOrMore())
+    .literal("ab");
+  assertEquals(atomic.getPattern(), "(?=(a+))\\1ab");
+  assertFalse(atomic.test("aaab"));
+
+  const possessive = IrregularExpression.match()
+    .startOfLine()
+    .digit().oneOrMore("possessive")
+    .digit()
+    .build();
+  assertEquals(possessive.source, "^(?=(\\d+))\\1\\d");
+  assertFalse(possessive.test("123"));
+
+  assertEquals(
+    IrregularExpression.match().literal("x").zeroOrMore("possessive").explain(),
+    "flags: global (find all matches)\nzero or more 'x' characters (never giving any back)",
+  );
+});
+
+Deno.test("IrregularExpression - Atomic emulation keeps group numbers", () => {
+  const regex = IrregularExpression.match()
+    .capture(group => group.wordCharacter())
+    .atomic(group => group.capture(inner => inner.digit()).oneOrMore())
+    .backreference(1)
+    .backreference(2);
+
+  assertEquals(regex.getPattern(), "(\\w)(?=((\\d)+))\\2\\1\\3");
+
+  const [match] = regex.execute("a12a2");
+  assertEquals([...match], ["a12a2", "a", "2"]);
+  assertEquals(match.index, 0);
+  assertEquals(regex.replace("a12a2!", "<$2$1>"), "<2a>!");
+  assertEquals(regex.replace("a12a2!", (_match, first, second) => `${second}${first}`), "2a!");
+});
+
+Deno.test("IrregularExpression - Unicode properties", () => {
+  const name = IrregularExpression.match()
+    .startOfLine()
+    .uppercaseLetter()
+    .lowercaseLetter().oneOrMore()
+    .endOfLine();
+
+  assertEquals(name.build().source, "^\\p{Lu}\\p{Ll}+$");
+  assertEquals(name.build().flags, "gu");
+  assert(name.test("Zoë"));
+  assert(name.test("Ωμέγα"));
+  assertFalse(name.test("zoë"));
+
+  assertEquals(
+    IrregularExpression.match()
+      .script("Greek")
+      .letter()
+      .emoji()
+      .unicodeProperty("General_Category", "Decimal_Number")
+      .notUnicodeProperty("White_Space")
+      .getPattern(),
+    "\\p{Script=Greek}\\p{L}\\p{Extended_Pictographic}\\p{General_Category=Decimal_Number}\\P{White_Space}",
+  );
+  assert(IrregularExpression.match().emoji().test("Hello 🌍"));
+  assertFalse(IrregularExpression.match().emoji().test("#1"));
+});
+
+Deno.test("IrregularExpression - Unicode property validation", () => {
+  const regex = IrregularExpression.match();
+  const errors: string[] = [];
+  regex.addEventListener("error", (event: Event) => {
+    if (event instanceof CustomEvent) errors.push(event.detail.message);
+  });
+
+  regex.script("Klingon").unicodeProperty("Bogus");
+  assertEquals(errors, [
+    "script expects a Unicode property supported by ECMAScript, got 'Script=Klingon'.",
+    "unicodeProperty expects a Unicode property supported by ECMAScript, got 'Bogus'.",
+  ]);
+  assertEquals(regex.getPattern(), "");
+  assertEquals(regex.build().flags, "g");
+});
+
+Deno.test("IrregularExpression - charClass", () => {
+  const identifier = IrregularExpression.match()
+    .charClass(c => c.range("a", "z").digit().chars("_-"))
+    .oneOrMore();
+
+  assertEquals(identifier.getPattern(), "[a-z\\d_-]+");
+  assert(identifier.test("snake_case-2"));
+  assertEquals(IrregularExpression.match().charClass(c => c.chars("a-z")).getPattern(), "[a\\-z]");
+  assertEquals(IrregularExpression.match().charClass(c => c.chars("^]").negate()).getPattern(), "[^\\^\\]]");
+
+  const consonant = IrregularExpression.match()
+    .startOfLine()
+    .charClass(c => c.range("a", "z").subtract(vowel => vowel.chars("aeiou")))
+    .endOfLine();
+
+  assertEquals(consonant.getPattern(), "^[[a-z]--[aeiou]]$");
+  assertEquals(consonant.build().flags, "gv");
+  assert(consonant.test("b"));
+  assertFalse(consonant.test("e"));
+
+  const greek = IrregularExpression.match().charClass(c => c.script("Greek").intersect(other => other.letter()));
+  assertEquals(greek.getPattern(), "[\\p{Script=Greek}&&\\p{L}]");
+  assert(greek.test("λ"));
+  assertFalse(greek.test("a"));
+
+  const emoticon = IrregularExpression.match().charClass(c => c.range("\u{1F600}", "\u{1F64F}"));
+  assertEquals(emoticon.build().flags, "gu");
+  assertEquals(emoticon.diagnostics(), []);
+  assert(emoticon.test("😃"));
+  const smiley = IrregularExpression.match().anyOf("😀x");
+  assertEquals(smiley.build().flags, "gu");
+  assertEquals(smiley.execute("\uD83D😀").map(match => match[0]), ["😀"]);
+  assertEquals(IrregularExpression.match().literal("😀").oneOrMore().build().flags, "gu");
+});
+
+Deno.test("IrregularExpression - charClass expansion without the v flag", () => {
+  const ast = IrregularExpression.match()
+    .charClass(c => c.range("a", "z").subtract(vowel => vowel.chars("aeiou")))
+    .toAST();
+  assert(ast.type === "sequence" && ast.elements[0].type === "class" && ast.elements[0].kind === "set");
+
+  const expanded = expandCharacterSet(ast.elements[0]);
+  assertEquals(expanded.operations, undefined);
+  assertEquals(expanded.members, [
+    { kind: "range", from: "b", to: "d" },
+    { kind: "range", from: "f", to: "h" },
+    { kind: "range", from: "j", to: "n" },
+    { kind: "range", from: "p", to: "t" },
+    { kind: "range", from: "v", to: "z" },
+  ]);
+});
+
+Deno.test("IrregularExpression.from - v flag class sets", () => {
+  const regex = IrregularExpression.from(/[\p{L}--[a-z]][[a-c]&&[b-d]][\w--\d]/v);
+
+  assertEquals(regex.getPattern(), "[\\p{L}--[a-z]][[a-c]&&[b-d]][\\w--\\d]");
+  assertEquals(regex.build().flags, "v");
+  assert(regex.test("Éb_"));
+  assertFalse(regex.test("eb_"));
+
+  assertThrows(() => IrregularExpression.from("[a-z&&b]", "v"), RegexParseError, "at offset 4");
+  assertThrows(() => IrregularExpression.from("[a&&b--c]", "v"), RegexParseError, "Invalid set operation");
+  assertThrows(() => IrregularExpression.from("[a&&&b]", "v"), RegexParseError, "Invalid set operation");
+  assertThrows(() => IrregularExpression.from("[\\q{abc}]", "v"), RegexParseError, "not supported");
+
+  const modifier = assertThrows(() => IrregularExpression.from("a(?i:b)"), RegexParseError, "not supported");
+  assertEquals(modifier.offset, 1);
+  assertThrows(() => IrregularExpression.from("(?-s:.)", "s"), RegexParseError, "change a flag");
+  assertEquals(IrregularExpression.from("(?i-s:b)c", "i").getPattern(), "(?:b)c");
+  assertThrows(() => IrregularExpression.from("(?ii:a)", "i"), RegexParseError, "Repeated flag 'i' in modifier group at offset 3");
+  assertThrows(() => IrregularExpression.from("(?i-x:a)"), RegexParseError, "Invalid flag 'x' in modifier group at offset 4");
+  assertThrows(() => IrregularExpression.from("(?-:a)"), RegexParseError, "Invalid modifier group");
+});
+
+Deno.test("IrregularExpression - Typed captures", () => {
+  const date = IrregularExpression.match()
+    .namedCapture("year", group => group.digit().exactly(4))
+    .literal("-")
+    .group(group => group.digit().exactly(2))
+    .literal("-")
+    .nonCapturingGroup(group => group.namedCapture("day", day => day.digit().exactly(2)));
+
+  const [match] = date.execute("2024-05-17");
+  const year: string | undefined = match.groups.year;
+  assertEquals([year, match[2], match.groups.day], ["2024", "05", "17"]);
+  // @ts-expect-error: a group may not take part in the match
+  const day: string = match.groups.day;
+  assertEquals(day, "17");
+
+  const [bare] = IrregularExpression.match().literal("v").namedCapture("minor", group => group.digit()).zeroOrOne().execute("v");
+  assertEquals(bare.groups.minor, undefined);
+  // @ts-expect-error: there is no group named "month"
+  assertEquals(match.groups.month, undefined);
+
+  assertEquals(
+    date.replace("2024-05-17", (_match, first, second, third, _offset, _input, groups) => `${groups.day}.${second}.${first}/${third}`),
+    "17.05.2024/17",
+  );
+
+  const repeated = IrregularExpression.combine(
+    IrregularExpression.match().capture(group => group.wordCharacter()),
+    IrregularExpression.match().namedCapture("next", group => group.wordCharacter()),
+  )
+    .backreference(2)
+    .namedBackreference("next");
+  assert(repeated.test("abbb"));
+  // @ts-expect-error: there is no group 3
+  repeated.backreference(3);
+  // @ts-expect-error: there is no group named "first"
+  repeated.namedBackreference("first");
+
+  const parsed = IrregularExpression.from("(?<word>\\w+)").namedBackreference("anything");
+  assertEquals(parsed.getPattern(), "(?<word>\\w+)\\k<anything>");
+});
+
+Deno.test("IrregularExpression - matchAll and matchFirst", () => {
+  const setting = IrregularExpression.match()
+    .namedCapture("key", group => group.wordCharacter().oneOrMore())
+    .literal("=")
+    .capture(group => group.digit().oneOrMore())
+    .zeroOrOne();
+
+  assertEquals(setting.matchAll("a=1\r\nbb=\nc=33"), [
+    { text: "a=1", start: 0, end: 3, line: 1, column: 1, captures: ["a", "1"], named: { key: "a" }, spans: [[0, 1], [2, 3]], namedSpans: { key: [0, 1] } },
+    { text: "bb=", start: 5, end: 8, line: 2, column: 1, captures: ["bb", undefined], named: { key: "bb" }, spans: [[5, 7], undefined], namedSpans: { key: [5, 7] } },
+    { text: "c=33", start: 9, end: 13, line: 3, column: 1, captures: ["c", "33"], named: { key: "c" }, spans: [[9, 10], [11, 13]], namedSpans: { key: [9, 10] } },
+  ]);
+  assertEquals(setting.build().flags, "g");
+  assertEquals(setting.runTimes(1).matchAll("a=1 b=2").length, 1);
+
+  const error = IrregularExpression.match().literal("error").matchFirst("ok\nan error");
+  assertEquals(error && [error.start, error.end, error.line, error.column], [6, 11, 2, 4]);
+  assertEquals(IrregularExpression.match().literal("error").matchFirst("ok"), null);
+  assertEquals(IrregularExpression.match().digit().zeroOrMore().matchAll("a1").map(match => match.text), ["", "1", ""]);
+});
+
+Deno.test("IrregularExpression - hasIndices", () => {
+  const regex = IrregularExpression.match()
+    .atomic(group => group.literal("a").oneOrMore())
+    .capture(group => group.digit())
+    .hasIndices();
+
+  assertEquals(regex.build().flags, "dg");
+  const [match] = regex.execute("xaa1");
+  assertEquals(match.indices?.[1], [3, 4]);
+  assertEquals(match.indices?.length, 2);
+});
+
+Deno.test("IrregularExpression.lexer - tokens", () => {
+  const lexer = IrregularExpression.lexer({
+    NUMBER: b => b.digit().oneOrMore(),
+    IDENT: b => b.letter().wordCharacter().zeroOrMore(),
+    OP: b => b.anyOf("+*="),
+    WS: b => b.whitespace().oneOrMore(),
+  }, { skip: ["WS"] });
+
+  assertEquals([...lexer.tokenize("x = 12\n  + y2")], [
+    { type: "IDENT", value: "x", offset: 0, line: 1, column: 1 },
+    { type: "OP", value: "=", offset: 2, line: 1, column: 3 },
+    { type: "NUMBER", value: "12", offset: 4, line: 1, column: 5 },
+    { type: "OP", value: "+", offset: 9, line: 2, column: 3 },
+    { type: "IDENT", value: "y2", offset: 11, line: 2, column: 5 },
+  ]);
+
+  const error = assertThrows(() => [...lexer.tokenize("1 ? 2")], LexerError, "Unexpected input '?' at line 1, column 3");
+  assertEquals(error.offset, 2);
+
+  const recovering = IrregularExpression.lexer({ NUMBER: b => b.digit().oneOrMore() }, { errorToken: "ERROR" });
+  assertEquals([...recovering.tokenize("1ab2")].map(token => [token.type, token.value]), [
+    ["NUMBER", "1"],
+    ["ERROR", "ab"],
+    ["NUMBER", "2"],
+  ]);
+  assertThrows(() => IrregularExpression.lexer({ "not-a-name": b => b.digit() }), SyntaxError, "valid group names");
+});
+
+Deno.test("IrregularExpression.lexer - states", () => {
+  const lexer = IrregularExpression.lexer({
+    NUMBER: b => b.digit().oneOrMore(),
+    QUOTE: { match: b => b.literal('"'), push: "string" },
+    WS: { match: b => b.whitespace().oneOrMore(), skip: true },
+  }, {
+    states: {
+      string: {
+        ESCAPE: b => b.literal("\\").anySingleCharacter(),
+        TEXT: b => b.noneOf('"\\').oneOrMore(),
+        QUOTE: { match: b => b.literal('"'), pop: true },
+      },
+    },
+  });
+
+  assertEquals([...lexer.tokenize('1 "a\\"b" 2')].map(token => `${token.type}:${token.value}`), [
+    "NUMBER:1",
+    'QUOTE:"',
+    "TEXT:a",
+    'ESCAPE:\\"',
+    "TEXT:b",
+    'QUOTE:"',
+    "NUMBER:2",
+  ]);
+  assertThrows(() => IrregularExpression.lexer({ A: { match: b => b.digit(), push: "missing" } }), SyntaxError, "unknown state");
+});
+
+Deno.test("IrregularExpression - matchStream", async () => {
+  const streamOf = (chunks: (string | Uint8Array)[]) =>
+    new ReadableStream<string | Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(chunk));
+        controller.close();
+      },
+    });
+  const collect = async <T>(matches: AsyncIterable<T>) => {
+    const results: T[] = [];
+    for await (const match of matches) results.push(match);
+    return results;
+  };
+
+  const log = "[INFO] ok\r\n[ERROR] disk full\n[ERROR] auth failed\n";
+  const errors = IrregularExpression.match()
+    .literal("[ERROR] ")
+    .capture(group => group.noneOf("\r\n").oneOrMore());
+  const expected = errors.matchAll(log);
+  assertEquals(expected.map(match => [match.captures[0], match.line]), [["disk full", 2], ["auth failed", 3]]);
+  for (const size of [1, 4, 9, 100]) {
+    const chunks = [];
+    for (let i = 0; i < log.length; i += size) chunks.push(log.slice(i, i + size));
+    assertEquals(await collect(errors.matchStream(streamOf(chunks))), expected);
+  }
+
+  const bytes = new TextEncoder().encode("héllo wörld");
+  const umlauts = IrregularExpression.match().anyOf("éö").matchStream(streamOf([...bytes].map(byte => new Uint8Array([byte]))));
+  assertEquals((await collect(umlauts)).map(match => [match.text, match.start]), [["é", 1], ["ö", 7]]);
+
+  const digits = IrregularExpression.match().digit().oneOrMore().matchStream(streamOf(["1234", "5678", "9"]), { window: 8 });
+  await assertRejects(() => collect(digits), RangeError, "reaches the stream window of 8 characters");
+
+  const chunked = (text: string) => streamOf(text.match(/[^]{1,4}/g)!);
+  const greedy = IrregularExpression.match().literal("a").anySingleCharacter().zeroOrMore().literal("b");
+  const long = "a" + "c".repeat(30) + "b";
+  assertEquals(greedy.matchAll(long).map(match => [match.start, match.end]), [[0, 32]]);
+  await assertRejects(() => collect(greedy.matchStream(chunked(long), { window: 16 })), RangeError, "may start at line 1, column 1");
+  const bracketed = IrregularExpression.match().literal("a").noneOf("b").zeroOrMore().literal("b");
+  const text = "x".repeat(100) + "accb" + "y".repeat(40);
+  assertEquals((await collect(bracketed.matchStream(chunked(text), { window: 16 }))).map(match => match.start), [100]);
+});
+
+Deno.test("IrregularExpression - analyze ReDoS", () => {
+  const [finding, ...rest] = IrregularExpression.from(/(\w+)+$/).analyze();
+  assertEquals(rest, []);
+  assertEquals(finding.kind, "nested-quantifier");
+  assertEquals(finding.severity, "high");
+  assertEquals(finding.span, [0, 6]);
+  assertEquals(finding.source, "(\\w+)+");
+  assertEquals(finding.attack, "a".repeat(30) + "!");
+
+  assertEquals(IrregularExpression.from(/^(a|a)*$/).analyze().map(f => f.kind), ["overlapping-alternation"]);
+  assertEquals(IrregularExpression.from(/\d+\d+x/).analyze().map(f => [f.kind, f.severity]), [["polynomial-backtracking", "medium"]]);
+  assertEquals(IrregularExpression.from(/^\d+\.\d+$/).analyze(), []);
+  assertEquals(IrregularExpression.match().capture(group => group.wordCharacter().oneOrMore("possessive")).oneOrMore().analyze(), []);
+
+  const warnings: string[] = [];
+  const regex = IrregularExpression.from(/(\w+)+$/).checkReDoS();
+  regex.addEventListener("warning", (event: Event) => {
+    if (event instanceof CustomEvent) warnings.push(event.detail.kind);
+  });
+  regex.build();
+  assertEquals(warnings, ["nested-quantifier"]);
+});
+
+Deno.test("IrregularExpression - async matching in workers", async () => {
+  const digits = IrregularExpression.match().digit().oneOrMore();
+  assertEquals(await digits.testAsync("abc 123"), true);
+  assertEquals((await digits.executeAsync("123 abc 456")).map(match => [match[0], match.index]), [["123", 0], ["456", 8]]);
+
+  const atomic = IrregularExpression.match().capture(group => group.digit().oneOrMore("possessive")).literal("x");
+  assertEquals(await atomic.executeAsync("12x 3x"), atomic.execute("12x 3x"));
+  assertEquals(await atomic.replaceAsync("12x 3x", "<$1>"), "<12> <3>");
+  assertEquals(await atomic.replaceAsync("12x 3x", (_, digits, offset) => `${digits}@${offset}`), "12@0 3@4");
+
+  const slow = IrregularExpression.from(/^(a+)+$/);
+  const attack = "a".repeat(40) + "!";
+  const error = await assertRejects(() => slow.testAsync(attack, { timeoutMs: 50 }), MatchTimeoutError);
+  assertEquals(error.timeoutMs, 50);
+  await assertRejects(() => slow.testAsync(attack, { signal: AbortSignal.timeout(50) }), DOMException);
+  assertEquals(await digits.testAsync("1", { timeoutMs: 1000 }), true);
+
+  IrregularExpression.terminateWorkers();
+});
+
+Deno.test("presets - example table", () => {
+  const table: [string, IrregularExpression, string[], string[]][] = [
+    ["ipv4", presets.ipv4(), ["0.0.0.0", "192.168.1.1", "255.255.255.255"], ["256.1.1.1", "1.2.3", "01.2.3.4", "1.2.3.4.5"]],
+    ["ipv4 cidr", presets.ipv4({ cidr: "required" }), ["10.0.0.0/8", "1.2.3.4/32"], ["1.2.3.4", "1.2.3.4/33"]],
+    ["ipv6", presets.ipv6(), ["::", "::1", "1:2:3:4:5:6:7:8", "2001:db8::8a2e:370:7334", "1::", "::ffff:192.0.2.128"], ["1:2:3:4:5:6:7:8:9", "2001:db8:::1", "12345::", "1::2::3", "1:2:3:4:5:6:7", "fe80::1%eth0"]],
+    ["ipv6 zone", presets.ipv6({ zone: true, embeddedIpv4: false }), ["fe80::1%eth0"], ["::ffff:1.2.3.4"]],
+    ["uuid", presets.uuid(), ["f47ac10b-58cc-4372-a567-0e02b2c3d479", "01890a5d-ac96-774b-bcce-b302099a8057"], ["f47ac10b-58cc-0372-a567-0e02b2c3d479", "f47ac10b-58cc-4372-c567-0e02b2c3d479", "00000000-0000-0000-0000-000000000000"]],
+    ["uuid v4", presets.uuid({ version: 4, nilAndMax: true }), ["f47ac10b-58cc-4372-a567-0e02b2c3d479", "00000000-0000-0000-0000-000000000000"], ["01890a5d-ac96-774b-bcce-b302099a8057"]],
+    ["iso8601", presets.iso8601(), ["2024-02-29T13:45:30Z", "2024-02-29T13:45", "2024-02-29T13:45:30.123+01:00"], ["2023-02-29T00:00Z", "2024-13-01T00:00", "2024-01-01T24:00"]],
+    ["iso8601 date", presets.iso8601({ type: "date" }), ["2024-02-29", "2023-12-31"], ["2023-02-29", "2023-04-31", "2023-1-01"]],
+    ["semver", presets.semver(), ["1.0.0", "1.0.0-alpha.1", "1.0.0-beta+exp.sha.5114f85"], ["1.0", "01.0.0", "1.0.0-01", "v1.0.0"]],
+    ["semver v", presets.semver({ prefix: true, prerelease: false }), ["v1.2.3", "1.2.3+build.5"], ["1.2.3-rc.1"]],
+    ["email", presets.email(), ["jane.doe+news@example.co.uk", "a@b.io"], ["jane..doe@example.com", "jane@localhost", "jane@-example.com", '"jane"@example.com']],
+    ["email rfc5322", presets.email({ mode: "rfc5322" }), ['"jane doe"@[192.0.2.1]', "jane@localhost", "user@[IPv6:2001:db8::1]"], ["jane..doe@example.com", "a b@example.com"]],
+    ["url", presets.url(), ["https://example.com", "http://localhost:8080/path?q=1#top", "http://[::1]:3000/"], ["example.com", "ftp://example.com", "https://exa mple.com"]],
+    ["url options", presets.url({ optionalProtocol: true, protocols: ["ftp"], localhost: false }), ["example.com/path", "ftp://files.example.org"], ["http://example.com", "localhost"]],
+    ["hexColor", presets.hexColor(), ["#fff", "#ffff", "#1e90ff", "#1e90ff80"], ["fff", "#ff", "#fffff", "#ggg"]],
+    ["hexColor no alpha", presets.hexColor({ alpha: false, hash: "optional" }), ["fff", "#1e90ff"], ["#1e90ff80"]],
+    ["macAddress", presets.macAddress(), ["00:1a:2b:3c:4d:5e", "00-1A-2B-3C-4D-5E", "001a.2b3c.4d5e"], ["00:1a-2b:3c:4d:5e", "001a2b3c4d5e"]],
+    ["creditCard", presets.creditCard(), ["4111111111111111", "4111 1111 1111 1111", "378282246310005", "6011111111111117"], ["4111111111111112", "4111 1111-1111 1111", "1234567812345670"]],
+    ["creditCard visa", presets.creditCard({ brands: ["visa"], separators: false }), ["4111111111111111"], ["4111 1111 1111 1111", "5500000000000004"]],
+    ["e164", presets.e164(), ["+14155552671", "+442071838750"], ["14155552671", "+0123456", "+1234567890123456"]],
+    ["e164 optional plus", presets.e164({ plus: "optional" }), ["14155552671"], ["+0"]],
+    ["slug", presets.slug(), ["hello", "hello-world-2024"], ["hello--world", "-hello", "Hello", "hello_world"]],
+    ["slug options", presets.slug({ separator: "_", uppercase: true }), ["Hello_World"], ["hello-world"]],
+  ];
+  for (const [name, preset, valid, invalid] of table) {
+    const whole = IrregularExpression.match().startOfLine().use(preset).endOfLine();
+    for (const input of valid) assert(whole.test(input), `${name} should match ${input}`);
+    for (const input of invalid) assertFalse(whole.test(input), `${name} should not match ${input}`);
+  }
+  assertThrows(() => presets.uuid({ version: 9 }), RangeError);
+});
+
+Deno.test("IrregularExpression - use and validate", () => {
+  const endpoint = IrregularExpression.match()
+    .use(presets.ipv4())
+    .literal(":")
+    .capture(group => group.digit().oneOrMore());
+  assertEquals(endpoint.execute("10.0.0.1:80")[0][1], "80");
+  assertEquals(IrregularExpression.match().use(presets.slug()).oneOrMore().getPattern(), "(?:[a-z0-9]+(?:-[a-z0-9]+)*)+");
+
+  const cards = IrregularExpression.match().use(presets.creditCard());
+  const input = "pay 4111 1111 1111 1111 or 4111 1111 1111 1112";
+  assertEquals(cards.execute(input).map(match => match.index), [4]);
+  assertEquals(cards.replace(input, "[$&]"), "pay [4111 1111 1111 1111] or 4111 1111 1111 1112");
+
+  const even = IrregularExpression.match().digit().oneOrMore().validate(text => Number(text) % 2 === 0);
+  assertEquals(even.execute("1 2 3 4").map(match => match[0]), ["2", "4"]);
+  assertEquals(even.test("13 5"), false);
+
+  // Each check sees only the text its own preset matched
+  const pair = IrregularExpression.match().startOfLine().use(presets.creditCard()).literal(",").use(presets.creditCard()).endOfLine();
+  assertEquals(pair.test("4111111111111111,4111111111111112"), false);
+  assertEquals(pair.test("4111111111111111,378282246310005"), true);
+  const dates = IrregularExpression.match().use(presets.iso8601({ type: "date" })).literal(" ").use(presets.iso8601({ type: "date" }));
+  assertEquals(dates.test("2024-02-29 2023-02-29"), false);
+  assertEquals(dates.test("2024-02-29 2023-02-28"), true);
+  const trailing = IrregularExpression.match().startOfLine().use(presets.creditCard()).literal(" ").digit().endOfLine();
+  assertEquals(trailing.test("4111111111111111 5"), true);
+  assertEquals(presets.creditCard().literal(" ").digit().execute("4111111111111111 5").map(match => match[0]), ["4111111111111111 5"]);
+  const card = presets.creditCard();
+  const both = IrregularExpression.match().use(card).literal("/").use(card).capture(group => group.digit());
+  assertEquals(both.execute("4111111111111111/4111111111111111x 4111111111111111/41111111111111117").map(match => [match[0], match[1]]), [
+    ["4111111111111111/41111111111111117", "7"],
+  ]);
+  const inGroup = IrregularExpression.match().digit().capture(group => group.use(presets.iso8601({ type: "date" }))).backreference(1);
+  assertEquals(inGroup.execute("12023-02-292023-02-29 12024-02-292024-02-29").map(match => match[1]), ["2024-02-29"]);
+  assertEquals(dates.generate({ count: 5, seed: 1 }).every(sample => dates.test(sample)), true);
+  const seven = IrregularExpression.match().literal("x").or(alt => alt.digit().validate(text => text === "7"));
+  assertEquals(seven.execute("x 3 7").map(match => match[0]), ["x", "7"]);
+  assertEquals(seven.getPattern(), "x|(?:\\d)");
+});
+
+Deno.test("IrregularExpression - toJSON and fromJSON", () => {
+  const original = IrregularExpression.match()
+    .startOfLine()
+    .namedCapture("year", group => group.digit().exactly(4))
+    .atomic(group => group.literal("x").oneOrMore("possessive"))
+    .or()
+    .unicodeProperty("Script", "Greek")
+    .runTimes(2)
+    .ignoreCase();
+  const json = JSON.stringify(original);
+  const restored = IrregularExpression.fromJSON(json);
+  assertEquals(JSON.stringify(restored), json);
+  assertEquals(restored.getPattern(), original.getPattern());
+  assertEquals(restored.build().flags, "giu");
+  assertEquals(IrregularExpression.fromJSON(JSON.stringify(IrregularExpression.match().digit().runTimes(2))).execute("123").length, 2);
+  assertEquals(original.diagnostics(), []);
+
+  const checked = IrregularExpression.match().digit().oneOrMore().validate(text => Number(text) < 100);
+  const unchecked = IrregularExpression.fromJSON(JSON.stringify(checked));
+  assertEquals(checked.diagnostics().map(error => [error.code, error.method]), [["unserializable-check", "toJSON"]]);
+  assertEquals([checked.test("250"), unchecked.test("250")], [false, true]);
+  assertThrows(() => JSON.stringify(checked.strict()), IrregularExpressionError, "cannot save checks added with validate()");
+
+  const document = { version: 1, pattern: { type: "sequence", elements: [] as unknown[] }, flags: "g", maxRun: null };
+  const invalid: [unknown, string, string][] = [
+    ["{", "", "Invalid JSON"],
+    [{ ...document, version: 2 }, "version", "newer than this library's"],
+    [{ ...document, flags: "gg" }, "flags", "distinct letters"],
+    [{ ...document, maxRun: -1 }, "maxRun", "non-negative integer"],
+    [{ ...document, pattern: { type: "sequence", elements: [{ type: "literal" }] } }, "pattern.elements[0].value", "Expected a string, got nothing"],
+    [{ ...document, pattern: { type: "quantifier", min: 3, max: 1, greedy: true, body: { type: "literal", value: "a" } } }, "pattern.max", "less than min"],
+    [{ ...document, pattern: { type: "backreference", ref: 2 }, flags: "u" }, "pattern", "does not compile"],
+  ];
+  for (const [input, path, message] of invalid) {
+    const error = assertThrows(() => IrregularExpression.fromJSON(input), SchemaError, message);
+    assertEquals(error.path, path);
+  }
+
+  const migrated = IrregularExpression.fromJSON({ version: 2, source: "a+" }, {
+    migrate: (old, version) => {
+      assertEquals(version, 2);
+      return { version: 1, pattern: IrregularExpression.from(String(old.source)).toAST(), flags: "g", maxRun: null };
+    },
+  });
+  assertEquals(migrated.getPattern(), "a+");
+});
+
+Deno.test("IrregularExpression - toDialect", () => {
+  const date = IrregularExpression.from(/(?<year>\d{4})-(?<month>\d\d)\s\k<year>/i);
+  assertEquals(date.toDialect("python"), {
+    dialect: "python",
+    pattern: "(?i)(?P<year>[0-9]{4})-(?P<month>[0-9][0-9])[\\x09-\\x0D \\xA0\\u1680\\u2000-\\u200A\\u2028-\\u2029\\u202F\\u205F\\u3000\\uFEFF](?P=year)",
+    diagnostics: [],
+  });
+  assertEquals(date.toDialect("pcre").pattern?.slice(0, 30), "(?i)(?<year>\\d{4})-(?<month>\\d");
+  assertEquals(date.toDialect("postgres").pattern?.endsWith("\\1"), true);
+  assertEquals(date.toDialect("postgres").diagnostics.map(diagnostic => diagnostic.construct), ["named group", "named group"]);
+
+  const price = IrregularExpression.from(/(?<=\$)(\d+)\1$/);
+  const re2 = price.toDialect("re2");
+  assertEquals(re2.pattern, null);
+  assertEquals(re2.diagnostics.map(({ severity, construct, span }) => [severity, construct, span]), [
+    ["error", "lookbehind", [0, 7]],
+    ["error", "backreference", [12, 14]],
+  ]);
+  assertEquals(price.toDialect("pcre").pattern, "(?<=\\$)(\\d+)\\1\\z");
+  assertEquals(IrregularExpression.from(/(?<=a+)b/).toDialect("python").diagnostics[0].severity, "error");
+
+  const optional = IrregularExpression.from(/(a)?b\1/).toDialect("python");
+  assertEquals(optional.pattern, "(a)?b\\1");
+  assertEquals(optional.diagnostics.map(({ severity, construct, span }) => [severity, construct, span]), [["warning", "backreference", [5, 7]]]);
+  assertEquals(optional.diagnostics[0].message.includes("matches it as empty"), true);
+  for (const unset of [/(?:(a)|b)\1/, /(?!(a))\1/, /\1(a)/, /(a\1)/, /(?<x>a)*\k<x>/]) {
+    assertEquals(IrregularExpression.from(unset).toDialect("pcre").diagnostics.map(diagnostic => diagnostic.construct), ["backreference"]);
+  }
+  for (const set of [/(a)+\1/, /(?=(a))\1/, /(?:(a)|b)(c)\2/, /(a)(?:b|\1)/]) {
+    assertEquals(IrregularExpression.from(set).toDialect("python").diagnostics, []);
+  }
+  assertEquals(IrregularExpression.from(/(a)?b\1/).toDialect("postgres").diagnostics, []);
+
+  assertEquals(IrregularExpression.from(/^[\]^a-]+.$/).toDialect("posix-ere").pattern, "^[]^a-]+[^\n\r\u2028-\u2029]$");
+  const posix = IrregularExpression.from(/(?:ab)*?\b/i).toDialect("posix-ere");
+  assertEquals(posix.diagnostics.map(({ severity, construct }) => [severity, construct]), [
+    ["warning", "non-capturing group"],
+    ["error", "lazy quantifier"],
+    ["error", "word boundary"],
+    ["warning", "flag"],
+  ]);
+  assertThrows(() => date.toDialect("perl" as never), RangeError, "Unknown dialect");
+});
+
+Deno.test("IrregularExpression - fromDialect", () => {
+  const python = IrregularExpression.fromDialect("(?i)^(?P<key>[a-z]++)=(?P=key)\\Z", "python");
+  assertEquals(python.getPattern(), "^(?<key>(?=([a-z]+))\\2)=\\k<key>$");
+  assertEquals(python.test("Key=kEY"), true);
+  assertEquals(python.test("Key=kEY\n"), false);
+
+  // Python's `$` also matches before a final newline, and its `\d` is Unicode-aware
+  const digits = IrregularExpression.fromDialect("^\\d+$", "python");
+  assertEquals(digits.getPattern(), "^\\p{Nd}+(?=\\n?$)");
+  assertEquals(digits.test("١٢٣\n"), true);
+  assertEquals(IrregularExpression.fromDialect("(?a)^\\d+$", "python").test("١٢٣"), false);
+
+  const pcre = IrregularExpression.fromDialect("(?x) (a)(b) \\g{-1} # the b again\n (?>c|cd)++ \\Qa.b\\E\\z", "pcre");
+  assertEquals(pcre.getPattern(), "(a)(b)\\2(?=((?:(?=(c|cd))\\4)+))\\3a\\.b$");
+  assertEquals(pcre.test("abbcca.b"), true);
+
+  const invalid: [string, "python" | "pcre", string, number][] = [
+    ["(a)(?(1)b|c)", "pcre", "Conditional groups", 3],
+    ["a(?R)", "pcre", "Recursion", 1],
+    ["a\\Gb", "pcre", "\\G has no ECMAScript equivalent", 1],
+    ["ab(?i)c", "python", "only supported at the start", 2],
+    ["(?i:b)", "pcre", "Scoped inline flags", 0],
+    ["\\p{Lu}", "python", "no Unicode property escapes", 0],
+    ["(?<n>x)", "python", "(?P<name>...)", 0],
+    ["(a)\\2", "python", "does not exist: 2", 3],
+    ["a**", "python", "Multiple repeat", 2],
+  ];
+  for (const [source, dialect, message, offset] of invalid) {
+    const error = assertThrows(() => IrregularExpression.fromDialect(source, dialect), RegexParseError, message);
+    assertEquals(error.offset, offset);
+  }
+});
+
+Deno.test("IrregularExpression - toRailroadSVG", () => {
+  assertEquals(IrregularExpression.match().literal("a<").toRailroadSVG().split("\n").slice(-4), [
+    '<path d="M 20 22 v 20 M 20 32 H 40"/>',
+    '<g class="literal"><rect x="40" y="20" width="52" height="24" rx="3"/><text x="66" y="36">&quot;a&lt;&quot;</text></g>',
+    '<path d="M 92 32 H 112 M 112 22 v 20"/>',
+    "</svg>",
+  ]);
+
+  const regex = IrregularExpression.from(/^(?<year>\d{4})-(\d\d)?(?:a|bc)+?(?<!q)$/);
+  const svg = regex.toRailroadSVG();
+  assertEquals(svg, IrregularExpression.from(/^(?<year>\d{4})-(\d\d)?(?:a|bc)+?(?<!q)$/).toRailroadSVG());
+  assertEquals(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" class="railroad"'), true);
+  for (const part of ['class="anchor"', ">start of line<", 'class="group named"', ">#1 year<", ">#2<", ">4 times<", ">1+ times, lazy<", 'class="lookaround lookbehind"', ">not preceded by<"]) {
+    assertEquals(svg.includes(part), true, part);
+  }
+});
+
+Deno.test("IrregularExpression - generate", () => {
+  const regex = IrregularExpression.match()
+    .startOfLine()
+    .namedCapture("quote", group => group.anyOf("\"'"))
+    .wordCharacter().between(1, 4)
+    .namedBackreference("quote")
+    .endOfLine();
+  const samples = regex.generate({ count: 20, seed: 3 });
+  assertEquals(samples.length, 20);
+  assertEquals(samples, regex.generate({ count: 20, seed: 3 }));
+  assert(samples.every(sample => /^(["'])\w{1,4}\1$/.test(sample)), samples.join());
+  assertFalse(samples.every(sample => sample === samples[0]));
+
+  const misses = regex.generateNonMatching({ count: 20, seed: 3 });
+  assertEquals(misses.length, 20);
+  assertEquals(misses, regex.generateNonMatching({ count: 20, seed: 3 }));
+  assertFalse(misses.some(sample => /^(["'])\w{1,4}\1$/.test(sample)), misses.join());
+
+  const even = IrregularExpression.match()
+    .negativeLookahead(group => group.literal("0"))
+    .digit().oneOrMore()
+    .validate(text => Number(text) % 2 === 0);
+  const evens = even.generate({ count: 10, maxRepeat: 2 });
+  assertEquals(evens.length, 10);
+  for (const sample of evens) {
+    assert(/^[1-9]\d?$/.test(sample) && Number(sample) % 2 === 0, sample);
+  }
+  assertEquals(IrregularExpression.match().literal("a").exactly(3).generate({ count: 2 }), ["aaa", "aaa"]);
+  assertEquals(IrregularExpression.match().positiveLookahead(group => group.literal("a")).literal("b").generate(), []);
+  assertThrows(() => regex.generate({ count: -1 }), RangeError);
+});
+
+Deno.test("IrregularExpression - compare", () => {
+  const compare = (a: RegExp, b: RegExp) => IrregularExpression.compare(IrregularExpression.from(a), IrregularExpression.from(b));
+  assertEquals(compare(/^(a|b)*$/, /(a*b*)*/), { relation: "equivalent", onlyA: null, onlyB: null });
+  assertEquals(compare(/\d{2,3}/, /\d\d\d?/).relation, "equivalent");
+  assertEquals(compare(/abc/i, /[aA][bB][cC]/).relation, "equivalent");
+  assertEquals(compare(/k/iu, /[kK]/u), { relation: "bSubsetOfA", onlyA: "K", onlyB: null });
+  assertEquals(compare(/./, /[^\n\r\u2028\u2029]/).relation, "equivalent");
+  assertEquals(compare(/a+/, /a*/), { relation: "aSubsetOfB", onlyA: null, onlyB: "" });
+  assertEquals(compare(/.*a.{2}/, /.*a.{1}/), { relation: "incomparable", onlyA: "aba", onlyB: "aa" });
+
+  const before = IrregularExpression.match().digit().oneOrMore().or().literal("x");
+  const after = IrregularExpression.match().charClass(c => c.range("0", "9").chars("x")).oneOrMore();
+  assertEquals(IrregularExpression.compare(before, after), { relation: "aSubsetOfB", onlyA: null, onlyB: "xx" });
+
+  const error = assertThrows(() => compare(/x/, /(a)\1/), UnanalyzablePatternError, "\\1 is a backreference");
+  assertEquals([error.pattern, error.construct], ["b", "\\1"]);
+  assertThrows(() => compare(/a(?=b)/, /a/), UnanalyzablePatternError, "(?=b) is a lookaround");
+  assertThrows(() => compare(/^a/m, /a/), UnanalyzablePatternError, "under the m flag");
+  assertThrows(() => compare(/a/u, /a/), UnanalyzablePatternError, "u or v flag");
+  assertThrows(
+    () => IrregularExpression.compare(before, IrregularExpression.match().digit().validate(() => true)),
+    UnanalyzablePatternError,
+    "validate()",
+  );
+});
+
+Deno.test("IrregularExpression - strict mode and diagnostics", () => {
+  const details: unknown[] = [];
+  const regex = IrregularExpression.match().literal("ab");
+  regex.addEventListener("error", (event: Event) => {
+    if (event instanceof CustomEvent) details.push(event.detail);
+  });
+  regex.exactly(-1).capture(group => group.digit().between(3, 1)).endOfLine().oneOrMore();
+  assertEquals(regex.build().source, "(?!)");
+  assertEquals(regex.getPattern(), "ab(\\d)$");
+
+  const diagnostics = regex.diagnostics();
+  assertEquals(details, diagnostics);
+  assertEquals(
+    diagnostics.map(error => [error.name, error.code, error.method, error.argument, error.offset]),
+    [
+      ["InvalidArgumentError", "invalid-count", "exactly", -1, 2],
+      ["InvalidArgumentError", "invalid-count", "between", [3, 1], 2],
+      ["QuantifierError", "nothing-to-repeat", "oneOrMore", undefined, 7],
+    ],
+  );
+  assert(diagnostics[2] instanceof QuantifierError);
+  diagnostics.pop();
+  assertEquals(regex.diagnostics().length, 3);
+
+  const strict = IrregularExpression.match().strict().digit();
+  const error = assertThrows(() => strict.exactly(-1), InvalidArgumentError, "exactly expects a non-negative integer.");
+  assertEquals([error.code, error.method, error.argument, error.offset], ["invalid-count", "exactly", -1, 2]);
+  assertEquals(strict.getPattern(), "\\d");
+  assertThrows(() => IrregularExpression.match().strict().capture(group => group.atLeast(2)), QuantifierError, "atLeast has nothing to repeat.");
+  assertThrows(() => IrregularExpression.match().strict().charClass(c => c.range("z", "a")), InvalidArgumentError, "charClass: range");
+
+  const invalid = IrregularExpression.from("a(?<n>b)").strict().namedCapture("n", group => group.literal("c"));
+  const syntax = assertThrows(() => invalid.build(), PatternSyntaxError);
+  assertEquals([syntax.code, syntax.method, syntax.offset], ["invalid-pattern", "build", 11]);
+
+  const twice = IrregularExpression.match()
+    .namedCapture("a", group => group.digit())
+    .namedCapture("a", group => group.digit());
+  assertEquals(twice.execute("12"), []);
+  assertEquals(twice.matchAll("12"), []);
+  assertEquals(
+    twice.diagnostics().map(error => [error.name, error.code, error.method, error.argument, error.offset]),
+    [
+      ["PatternSyntaxError", "invalid-pattern", "execute", "(?<a>\\d)(?<a>\\d)", 11],
+      ["PatternSyntaxError", "invalid-pattern", "matchAll", "(?<a>\\d)(?<a>\\d)", 11],
+    ],
+  );
+  const thrown = assertThrows(() => twice.clone().strict().execute("12"), PatternSyntaxError);
+  assertEquals([thrown.code, thrown.method, thrown.offset], ["invalid-pattern", "execute", 11]);
+});
+
+Deno.test("IrregularExpression - immutable and clone", () => {
+  const base = IrregularExpression.immutable().startOfLine();
+  const digits = base.digit().oneOrMore();
+  const word = base.wordCharacter().oneOrMore();
+  assertEquals([base.getPattern(), digits.getPattern(), word.getPattern()], ["^", "^\\d+", "^\\w+"]);
+  assertEquals(digits.or().literal("x").getPattern(), "^\\d+|x");
+  assertEquals(digits.getPattern(), "^\\d+");
+  assertEquals(base.group(group => group.digit()).getPattern(), "^(\\d)");
+  assertEquals(base.build().source, "^");
+
+  const prefix = IrregularExpression.immutable().exactly(2);
+  assertEquals([prefix.digit().getPattern(), prefix.literal("x").getPattern(), prefix.getPattern()], ["\\d{2}", "x{2}", ""]);
+
+  const strict = IrregularExpression.immutable().strict();
+  assertThrows(() => strict.exactly(-1), InvalidArgumentError);
+  const lenient = IrregularExpression.immutable();
+  assertEquals([lenient.exactly(-1).diagnostics().length, lenient.diagnostics().length], [1, 0]);
+
+  const mutable = IrregularExpression.match().digit().oneOrMore().ignoreCase().runTimes(1).validate(text => text !== "1");
+  const copy = mutable.clone().literal("x");
+  assertEquals([mutable.getPattern(), copy.getPattern()], ["\\d+", "\\d+x"]);
+  assertEquals(mutable.clone().build().flags, "gi");
+  assertEquals(mutable.clone().execute("1 2 3").map(match => match[0]), ["2"]);
+
+  const frozen = IrregularExpression.from(/a|b/).immutable();
+  assertEquals(frozen.clone().literal("c").getPattern(), "a|bc");
+  assertEquals(frozen.getPattern(), "a|b");
+
+  const pending = IrregularExpression.immutable().exactly(2);
+  const heard: string[] = [];
+  pending.addEventListener("error", event => heard.push((event as CustomEvent).detail.code));
+  assertEquals(pending.build().source, "(?!)");
+  assertEquals(heard, ["nothing-to-repeat"]);
+  assertEquals(pending.diagnostics().map(error => error.code), ["nothing-to-repeat"]);
+  const derived = pending.exactly(-1);
+  assertEquals(heard, ["nothing-to-repeat", "invalid-count"]);
+  assertEquals(pending.diagnostics().length, 1);
+  assertEquals(derived.diagnostics().map(error => error.code), ["nothing-to-repeat", "invalid-count"]);
+});
+
+Deno.test("PatternLibrary - define and ref", () => {
+  const library = new PatternLibrary();
+  library
+    .define("octet", () => library.match().digit().between(1, 3))
+    .define("dotted", () => library.match().literal(".").ref("octet"))
+    .define("ipv4", () => library.match().ref("octet").ref("dotted").exactly(3))
+    .define("sep", (char: string) => library.match().literal(char));
+  assertEquals(library.match().ref("ipv4").build().source, "(?:(?:\\d{1,3})(?:\\.(?:\\d{1,3})){3})");
+  const dashed = library.match().startOfLine().ref("octet").ref("sep", "-").ref("octet").endOfLine();
+  assert(dashed.test("10-200"));
+  assertFalse(dashed.test("10+200"));
+  assertThrows(() => library.define("sep", () => library.match()), InvalidArgumentError, "'sep' is already defined");
+
+  const later = library.match().capture(group => group.ref("pair")).oneOrMore();
+  library.define("pair", () => library.match().literal("ab"));
+  assertEquals(later.getPattern(), "((?:ab))+");
+
+  const cyclic = new PatternLibrary();
+  cyclic
+    .define("a", () => cyclic.match().literal("x").ref("b"))
+    .define("b", () => cyclic.match().zeroOrOne().ref("a"));
+  const regex = cyclic.match().ref("a").ref("missing");
+  assertEquals(regex.build().source, "(?!)");
+  assertEquals(regex.diagnostics().map(error => [error.code, error.argument, error.message]), [
+    ["reference-cycle", "a", "ref: fragments refer to each other in a cycle: a -> b -> a."],
+    ["undefined-reference", "missing", "ref: 'missing' is not defined in the library."],
+  ]);
+  assertThrows(() => cyclic.match().strict().ref("missing").build(), FragmentReferenceError, "'missing' is not defined");
+  // Matching without build() reports the same errors, and matches nothing
+  const looping = cyclic.match().ref("a");
+  assertEquals(looping.execute("xx"), []);
+  assertEquals(looping.matchAll("xx"), []);
+  assertEquals(looping.replace("xx", "-", { limit: 1 }), "xx");
+  assertEquals(looping.diagnostics().map(error => error.code), ["reference-cycle", "reference-cycle", "reference-cycle"]);
+  assertEquals(cyclic.match().literal("x").ref("missing").getPattern(), "x(?!)");
+
+  const unicode = new PatternLibrary();
+  unicode.define("letter", () => unicode.match().unicodeProperty("L"));
+  const word = unicode.match().ref("letter").oneOrMore();
+  assertEquals(word.build().source, "(?!)");
+  assertEquals(word.diagnostics().map(error => [error.code, error.message]), [
+    ["missing-flags", "ref: 'letter' needs the u flag, which the builder referring to it does not have."],
+  ]);
+  assert(unicode.match().unicode().ref("letter").oneOrMore().test("é"));
+  assert(unicode.match().unicodeSets().ref("letter").test("é"));
+  assertThrows(() => IrregularExpression.match().strict().ref("octet"), FragmentReferenceError, "needs a builder made by PatternLibrary.match()");
+});
+
+Deno.test("irx - tagged template", () => {
+  const userInput = "1+1=2?";
+  const code = IrregularExpression.match().digit().exactly(3);
+  const regex = irx`^${code}-${userInput}$`;
+  assertEquals(regex.getPattern(), "^(?:\\d{3})-1\\+1=2\\?$");
+  assert(regex.test("123-1+1=2?"));
+  assertFalse(regex.test("123-11=2"));
+  assertEquals(regex.literal("!").getPattern(), "^(?:\\d{3})-1\\+1=2\\?$!");
+
+  const word = IrregularExpression.match().letter().oneOrMore();
+  const tagged = irx("i")`(\w+):${word}|${"a|b"}`;
+  assertEquals(tagged.build().flags, "giu");
+  assertEquals(tagged.execute("KEY:Wert").map(match => match[1]), ["KEY"]);
+  assert(tagged.test("A|B"));
+  assertEquals(irx("v")`${word}`.build().flags, "gv");
+
+  const atomic = irx`(q)${IrregularExpression.match().atomic(group => group.literal("a").oneOrMore())}y`;
+  assert(atomic.test("qaay"));
+  assertEquals(atomic.execute("qaay").map(match => [...match]), [["qaay", "q"]]);
+  const repeated = IrregularExpression.match().capture(group => group.digit()).backreference(1);
+  assertEquals(irx`(x)${repeated}\1`.getPattern(), "(x)(?:(\\d)\\2)\\1");
+  const digit = irx`${IrregularExpression.match().capture(group => group.digit())}-\1`;
+  assertEquals(digit.getPattern(), "(?:(\\d))-\\1");
+  assertEquals([digit.test("1-1"), digit.test("1-2")], [true, false]);
+  const named = irx`${IrregularExpression.match().namedCapture("x", group => group.digit())}-\k<x>`;
+  assertEquals(named.getPattern(), "(?:(?<x>\\d))-\\k<x>");
+  assertEquals([named.test("3-3"), named.test("3-4")], [true, false]);
+  assertEquals(irx`[${"a-c"}]${"ab"}+`.getPattern(), "[a\\-c](?:ab)+");
+  assertThrows(() => irx`[${repeated}]`, TypeError, "cannot be interpolated into a character class");
+
+  assertThrows(() => irx`(${"a"}`, RegexParseError);
+  assertThrows(() => irx("z")`a`, SyntaxError);
+});
+
+Deno.test("IrregularExpression - replacement builder and replace options", async () => {
+  const date = IrregularExpression.match()
+    .namedCapture("year", group => group.digit().exactly(4))
+    .literal("-")
+    .capture(group => group.digit().exactly(2));
+  const replacement = date.replacement(r => r.text("$1 [").group("year").text("]").group(2).text("0").match());
+  assertEquals(replacement, "$$1 [$<year>]$020$&");
+  assertEquals(date.replace("2024-05", replacement), "$1 [2024]0502024-05");
+  // @ts-expect-error: there is no group 3
+  date.replacement(r => r.group(3));
+  assertThrows(() => IrregularExpression.from("(a)").replacement(r => r.group(100)), RangeError, "100 is not a group number");
+  // @ts-expect-error: there is no group named "month"
+  date.replacement(r => r.group("month"));
+
+  const atomic = IrregularExpression.match().capture(group => group.digit().oneOrMore("possessive")).literal("x");
+  assertEquals(atomic.replace("12x 3x", atomic.replacement(r => r.group(1).text("0"))), "120 30");
+  assertEquals(atomic.replace("12x 3x", "$10"), "120 30");
+
+  const digits = IrregularExpression.match().digit();
+  assertEquals(digits.replace("12345", "x", { limit: 2 }), "xx345");
+  assertEquals(digits.clone().runTimes(3).replace("12345", "x", { limit: 4 }), "xxx45");
+  assertEquals(digits.replace("12345", (d) => `<${d}>`, { limit: 1 }), "<1>2345");
+  assertEquals(digits.replace("12345", "x", { limit: 0 }), "12345");
+  assertThrows(() => digits.replace("1", "x", { limit: -1 }), RangeError, "limit must be a non-negative integer");
+
+  const pair = IrregularExpression.match()
+    .namedCapture("key", group => group.wordCharacter().oneOrMore())
+    .literal("=")
+    .namedCapture("value", group => group.digit().oneOrMore());
+  assertEquals(pair.replaceEach("a=1 b=2 c=3", match => `${match.groups.value}:${match.groups.key}@${match.index}`, { limit: 2 }), "1:a@0 2:b@4 c=3");
+
+  const known = new Map([["bob", "Robert"]]);
+  const lookup = (name: string) => new Promise<string>(resolve => setTimeout(() => resolve(known.get(name) ?? "***"), 5));
+  const users = IrregularExpression.match().namedCapture("user", group => group.wordCharacter().oneOrMore());
+  assertEquals(await users.replaceAsync("alice, bob", (_match, _user, _offset, _input, groups) => lookup(groups.user ?? "")), "***, Robert");
+  assertEquals(await users.replaceAsync("alice, bob", "[$<user>]", { limit: 1 }), "[alice], bob");
+  IrregularExpression.terminateWorkers();
+});
@@ -1,9 +1,189 @@
+import {
+    alternation,
+    type ClassMember,
+    generate,
+    isQuantifiable,
+    lowerAtomic,
+    needsUnicode,
+    needsUnicodeSets,
+    type PatternNode,
+    type QuantifierNode,
+    sequence,
+} from './ast.ts';
+
+import { isUnicodeProperty, parse, RegexParseError } from './parser.ts';
+import {
+    FragmentReferenceError,
+    InvalidArgumentError,
+    IrregularExpressionError,
+    PatternSyntaxError,
+    QuantifierError,
+} from './errors.ts';
+import type { PatternLibrary } from './library.ts';
+import { parseDialect, type SourceDialect } from './dialect-parser.ts';
+import { CharacterClassBuilder, expandCharacterSet, SUPPORTS_UNICODE_SETS } from './char-class.ts';
+import { explainPattern, type ExplanationTree, renderExplanation } from './explain.ts';
+import { renderRailroad } from './railroad.ts';
+import { generateNearMisses, generateSamples, type SampleOptions } from './samples.ts';
+import { LineIndex, type MatchResult, toMatchResult } from './match.ts';
+import { analyzePattern, type ReDoSFinding } from './redos.ts';
+import { comparePatterns, type PatternComparison, UnanalyzablePatternError } from './compare.ts';
+import { type Dialect, type DialectPattern, translatePattern } from './dialect.ts';
+import { DEFAULT_WINDOW, matchExtent, partialMatcher, type StreamOptions, streamMatches } from './stream.ts';
+import { type AsyncMatchOptions, type SerializedMatch, workerPool } from './pool.ts';
+import { expandReplacement, ReplacementBuilder, type ReplaceOptions, spliceMatches } from './replacement.ts';
+import { type FromJSONOptions, readDocument, SCHEMA_VERSION, type SerializedExpression } from './serialize.ts';
+import { type CompiledRule, Lexer, type LexerOptions, type LexerRule, type LexerRules } from './lexer.ts';
+import type {
+    AsyncReplaceCallback,
+    CaptureMatch,
+    CaptureNumber,
+    CombinedCaptures,
+    CombinedNames,
+    ReplaceCallback,
+} from './captures.ts';
+
+export type * from './ast.ts';
+export type { Explanation, ExplanationTree, FlagExplanation } from './explain.ts';
+export type * from './captures.ts';
+export type { MatchResult, Span } from './match.ts';
+export type { StreamOptions } from './stream.ts';
+export type { ReDoSFinding } from './redos.ts';
+export { UnanalyzablePatternError } from './compare.ts';
+export type { PatternComparison, PatternRelation } from './compare.ts';
+export type { Dialect, DialectDiagnostic, DialectPattern } from './dialect.ts';
+export type { SourceDialect } from './dialect-parser.ts';
+export type { SampleOptions } from './samples.ts';
+export { MatchTimeoutError } from './pool.ts';
+export type { AsyncMatchOptions } from './pool.ts';
+export { ReplacementBuilder } from './replacement.ts';
+export type { ReplaceOptions } from './replacement.ts';
+export { Lexer, LexerError } from './lexer.ts';
+export type { LexerOptions, LexerPattern, LexerRule, LexerRules, Token } from './lexer.ts';
+export { RegexParseError } from './parser.ts';
+export {
+    FragmentReferenceError,
+    InvalidArgumentError,
+    IrregularExpressionError,
+    PatternSyntaxError,
+    QuantifierError,
+} from './errors.ts';
+export type {
+    ErrorDetails,
+    FragmentReferenceCode,
+    InvalidArgumentCode,
+    IrregularExpressionErrorCode,
+    QuantifierErrorCode,
+} from './errors.ts';
+export { PatternLibrary } from './library.ts';
+export type { Fragment } from './library.ts';
+export { irx } from './template.ts';
+export type { TemplateTag, TemplateValue } from './template.ts';
+export { CharacterClassBuilder, expandCharacterSet } from './char-class.ts';
+export * as presets from './presets.ts';
+export { SCHEMA_VERSION, SchemaError } from './serialize.ts';
+export type { FromJSONOptions, SchemaMigration, SerializedExpression } from './serialize.ts';
+
+/**
+ * How a quantifier backtracks: `greedy` matches as many repetitions as it can,
+ * `lazy` as few as it can, and `possessive` as many as it can without ever
+ * giving any back.
+ */
+export type QuantifierMode = 'greedy' | 'lazy' | 'possessive';
+
+const QUANTIFIER_MODES: QuantifierMode[] = ['greedy', 'lazy', 'possessive'];
+
+/** What a placeholder node added by `ref()` refers to. */
+interface FragmentReference {
+    library: PatternLibrary;
+    name: string;
+    args: unknown[];
+}
+
+/** A check added with `validate()`. */
+interface Validator {
+    check: (text: string) => boolean;
+    /** The part of the pattern whose text the check receives, or null for the whole match */
+    scope: PatternNode | null;
+}
+
+/** The pattern compiled for the builder's own matching, by `matcher()`. */
+interface Matcher {
+    regex: RegExp;
+    /** The group number each of the pattern's own capture groups ended up with */
+    captures: number[];
+    groupCount: number;
+    /** The hidden group numbers of each part of the pattern a check is scoped to */
+    scoped: Map<PatternNode, number[]>;
+}
+
+/** The placeholder nodes added by `ref()`, which `toAST()` replaces with the fragments they refer to */
+const REFERENCES = new WeakMap<PatternNode, FragmentReference>();
+
+/** The nodes `toAST()` rebuilt around expanded references, mapped to the nodes they stand for */
+const EXPANDED = new WeakMap<PatternNode, PatternNode>();
+
+/** Methods inherited from EventTarget, which an immutable builder runs on itself rather than on a copy. */
+const EVENT_METHODS = new Set(['addEventListener', 'removeEventListener', 'dispatchEvent']);
+
+/** The events a builder dispatches, which an immutable builder passes on from the copies its methods run on. */
+const EVENT_TYPES = ['error', 'warning'];
+
+/**
+ * Gives a builder the types of other capture groups, which only exist at
+ * compile time. TypeScript cannot relate two instances of the generic class
+ * directly, so the builder passes through a type every instance has, rather
+ * than through `unknown`: only a builder goes in and only one comes out.
+ */
+function withCaptures<N extends string, C extends string[]>(builder: EventTarget & Pick<IrregularExpression, 'toAST'>): IrregularExpression<N, C> {
+    return builder as IrregularExpression<N, C>;
+}
+
+/** Gives matches the types of the capture groups of the builder that found them. */
+function withMatchTypes<N extends string, C extends string[]>(matches: RegExpExecArray[]): CaptureMatch<N, C>[] {
+    return matches as CaptureMatch<N, C>[];
+}
+
+/** Builds a quantifier node for the given mode. */
+function quantifier(min: number, max: number | null, mode: QuantifierMode, body: PatternNode): QuantifierNode {
+    const node: QuantifierNode = { type: 'quantifier', min, max, greedy: mode !== 'lazy', body };
+    if (mode === 'possessive') node.possessive = true;
+    return node;
+}
+
+/** Finds where a pattern the RegExp constructor rejected goes wrong, or null if the parser accepts it. */
+function syntaxErrorOffset(pattern: string, flags: string): number | null {
+    try {
+        parse(pattern, flags);
+        return null;
+    } catch (error) {
+        return error instanceof RegexParseError ? error.offset : null;
+    }
+}
+
 /**
  * IrregularExpression: A fluent wrapper for building and using regular expressions.
  * 
  * This class provides an intuitive and human-readable way to construct and use
  * regular expressions in TypeScript/Deno. It offers a chainable API that makes
  * creating complex regex patterns more accessible and less error-prone.
+ *
+ * Quantifiers such as `exactly(3)` can follow the element they repeat
+ * (`.digit().exactly(3)`) or precede it (`.exactly(3).digit()`). A builder
+ * uses whichever form its first quantifier is written in; see
+ * {@link IrregularExpression.prefixQuantifiers} to choose explicitly.
+ *
+ * The type parameters record the capture groups added so far, so `execute()`
+ * results, `replace()` callbacks and backreferences are checked at compile time.
+ *
+ * A call with an invalid argument, such as `exactly(-1)`, is skipped and
+ * reported as an {@link IrregularExpressionError}: it is dispatched as the
+ * `detail` of an `error` event and listed by
+ * {@link IrregularExpression.diagnostics}, and in
+ * {@link IrregularExpression.strict} mode it is thrown.
+ *
+ * @typeParam Named The names of the named capture groups.
+ * @typeParam Captures One entry per capture group, named or not, in any order.
  * 
  * @example
  * ```typescript
@@ -22,9 +202,9 @@
  * console.log(regex.test("12-34-5678")); // false
  * ```
  */
-export class IrregularExpression extends EventTarget {
-    /** The current regex pattern being built */
-    private pattern: string;
+export class IrregularExpression<Named extends string = never, Captures extends string[] = []> extends EventTarget {
+    /** The alternatives of the pattern being built; `or()` starts a new one */
+    private branches: PatternNode[][];
 
     /** The set of flags to be applied to the regex */
     private flags: Set<string>;
@@ -32,15 +212,54 @@ export class IrregularExpression extends EventTarget {
     /** The maximum number of times the regex should run, if set */
     private maxRun: number | null;
 
+    /**
+     * Whether quantifiers apply to the element before them (`postfix`) or after
+     * them (`prefix`). `auto` settles on one the first time a quantifier is called.
+     */
+    private quantifierPlacement: 'auto' | 'prefix' | 'postfix';
+
+    /** A prefix quantifier waiting for the next element to repeat */
+    private pendingQuantifier: { method: string; min: number; max: number | null; mode: QuantifierMode } | null;
+
+    /** Whether `build()` checks the pattern for catastrophic backtracking */
+    private redosCheck: boolean;
+
+    /** Checks each match must pass, added with `validate()` */
+    private validators: Validator[];
+
+    /** Whether errors are thrown as well as reported, set by `strict()` */
+    private strictMode: boolean;
+
+    /** The errors reported so far, returned by `diagnostics()` */
+    private problems: IrregularExpressionError[];
+
+    /** Passes errors on to the builder whose group callback this builder was made for */
+    private forwardError: ((error: IrregularExpressionError) => void) | null;
+
+    /** Whether every method runs on a copy, set by `immutable()` */
+    private immutableMode: boolean;
+
+    /** The library `ref()` looks fragments up in, set by `withLibrary()` */
+    private library: PatternLibrary | null;
+
     /**
      * Private constructor to initialize a new IrregularExpression instance.
      * Use {@link IrregularExpression.match} to create a new instance.
      */
     private constructor() {
         super();
-        this.pattern = '';
+        this.branches = [[]];
         this.flags = new Set(['g']); // Global flag enabled by default
         this.maxRun = null;
+        this.quantifierPlacement = 'auto';
+        this.pendingQuantifier = null;
+        this.redosCheck = false;
+        this.validators = [];
+        this.strictMode = false;
+        this.problems = [];
+        this.forwardError = null;
+        this.immutableMode = false;
+        this.library = null;
     }
 
     /**
@@ -57,6 +276,196 @@ export class IrregularExpression extends EventTarget {
         return new IrregularExpression();
     }
 
+    /**
+     * Initializes a new immutable regex builder: every method leaves the
+     * builder it is called on unchanged and returns a new one. See
+     * {@link IrregularExpression.prototype.immutable}.
+     *
+     * @returns A new immutable instance of IrregularExpression
+     *
+     * @example
+     * ```typescript
+     * const base = IrregularExpression.immutable().startOfLine();
+     * const digits = base.digit().oneOrMore();
+     * const word = base.wordCharacter().oneOrMore();
+     *
+     * console.log(base.getPattern(), digits.getPattern(), word.getPattern()); // "^" "^\\d+" "^\\w+"
+     * ```
+     */
+    static immutable(): IrregularExpression {
+        return new IrregularExpression().immutable();
+    }
+
+    /**
+     * Parses an existing regex into a builder, so it can be inspected or
+     * extended like one built from scratch.
+     *
+     * Flags are taken from `flags` when given, otherwise from the RegExp. A
+     * source string without flags gets the same default flags as
+     * {@link IrregularExpression.match}.
+     *
+     * The groups of a parsed pattern are not known at compile time, so any
+     * group name or number is accepted, unless the names and captures are
+     * given as type arguments, as in `from<never, []>("\\d+")`.
+     *
+     * @param source A RegExp or pattern source (without delimiters).
+     * @param flags Flags overriding those of `source`.
+     * @returns A new instance of IrregularExpression holding the parsed pattern.
+     * @throws {RegexParseError} If the source is not a valid pattern, or has a
+     * modifier group such as `(?i:...)` that changes a flag; `offset` locates the problem.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.from(/^(?<year>\d{4})-(?<month>\d{2})$/u)
+     *   .literal("!")
+     *   .zeroOrOne();
+     *
+     * console.log(regex.getPattern()); // "^(?<year>\d{4})-(?<month>\d{2})$!?"
+     * ```
+     */
+    static from<N extends string = string, C extends string[] = string[]>(source: RegExp | string, flags?: string): IrregularExpression<N, C> {
+        const expression = new IrregularExpression<N, C>();
+        const regexFlags = flags ?? (source instanceof RegExp ? source.flags : undefined);
+        const ast = parse(source instanceof RegExp ? source.source : source, regexFlags);
+        if (regexFlags !== undefined) expression.flags = new Set(regexFlags);
+        const alternatives = ast.type === 'alternation' ? ast.alternatives : [ast];
+        expression.branches = alternatives.map(node => node.type === 'sequence' ? [...node.elements] : [node]);
+        return expression;
+    }
+
+    /**
+     * Creates a builder from a Python `re` or PCRE pattern. Each construct
+     * keeps its meaning in the source dialect: `(?P<name>...)` and `(?P=name)`
+     * become a named group and a backreference, `\A` and `\Z` anchors at the
+     * ends of the input, leading inline flags such as `(?i)` become flags, and
+     * possessive quantifiers and atomic groups become the builder's own. Where
+     * ECMAScript reads a construct differently it is emulated, e.g. `$`
+     * matching before a final newline, or Python's Unicode-aware `\d` and
+     * `\w`, which become property escapes and set the `u` flag.
+     *
+     * Constructs ECMAScript cannot express, such as recursion, conditionals,
+     * `\G` or flags that change part-way through the pattern, throw an error
+     * whose `offset` points at them.
+     *
+     * @param source The pattern source, without delimiters.
+     * @param dialect The dialect the source is written in.
+     * @returns A new instance of IrregularExpression holding the converted pattern.
+     * @throws {RegexParseError} If the source is invalid or cannot be converted.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.fromDialect("(?i)^(?P<key>[a-z]++)=(?P=key)\\Z", "python");
+     *
+     * console.log(regex.getPattern()); // "^(?<key>(?=([a-z]+))\\2)=\\k<key>$"
+     * console.log(regex.test("A=a")); // true
+     *
+     * IrregularExpression.fromDialect("(a)(?(1)b|c)", "pcre");
+     * // RegexParseError: Invalid PCRE pattern: Conditional groups have no ECMAScript equivalent at offset 3
+     * ```
+     */
+    static fromDialect(source: string, dialect: SourceDialect): IrregularExpression<string, string[]> {
+        const { pattern, flags } = parseDialect(source, dialect);
+        const expression = new IrregularExpression<string, string[]>();
+        for (const flag of flags) expression.flags.add(flag);
+        const alternatives = pattern.type === 'alternation' ? pattern.alternatives : [pattern];
+        expression.branches = alternatives.map(node => node.type === 'sequence' ? [...node.elements] : [node]);
+        return expression;
+    }
+
+    /**
+     * Restores a builder saved with {@link IrregularExpression.toJSON}. The
+     * document is checked node by node, and documents of another schema
+     * version are upgraded first: by the library for versions it knows, and
+     * otherwise by `options.migrate`.
+     *
+     * The groups of a restored pattern are not known at compile time, so any
+     * group name or number is accepted.
+     *
+     * @param json The document, or its JSON text.
+     * @param options A migration hook for documents of other schema versions.
+     * @returns A new instance of IrregularExpression holding the restored pattern.
+     * @throws {SchemaError} If the document does not follow the schema; `path` locates the problem.
+     *
+     * @example
+     * ```typescript
+     * const saved = JSON.stringify(IrregularExpression.match().digit().oneOrMore().runTimes(2));
+     * const restored = IrregularExpression.fromJSON(saved);
+     *
+     * console.log(restored.execute("1 22 333").map(m => m[0])); // ["1", "22"]
+     *
+     * IrregularExpression.fromJSON({ version: 1, pattern: { type: "literal" }, flags: "g", maxRun: null });
+     * // SchemaError: Expected a string, got nothing at pattern.value
+     * ```
+     */
+    static fromJSON(json: unknown, options: FromJSONOptions = {}): IrregularExpression<string, string[]> {
+        const document = readDocument(json, options);
+        const expression = new IrregularExpression<string, string[]>();
+        expression.flags = new Set(document.flags);
+        expression.maxRun = document.maxRun;
+        const alternatives = document.pattern.type === 'alternation' ? document.pattern.alternatives : [document.pattern];
+        expression.branches = alternatives.map(node => node.type === 'sequence' ? [...node.elements] : [node]);
+        return expression;
+    }
+
+    /**
+     * Creates a tokenizer from named rules. The rules are compiled into one
+     * sticky regex with a named group per rule; at each position the first
+     * rule that matches produces the next token. The flags of all rules are
+     * merged, as in {@link IrregularExpression.combine}.
+     *
+     * Rules can leave their tokens out (`skip`), and enter (`push`), leave
+     * (`pop`) or switch to (`next`) other states, each with its own rules.
+     *
+     * @param rules The rules of the `main` state, by token type.
+     * @param options Token types to skip, further states, and the error token type.
+     * @returns The lexer.
+     * @throws {SyntaxError} If a rule name is not a valid group name or a rule enters an unknown state.
+     *
+     * @example
+     * ```typescript
+     * const lexer = IrregularExpression.lexer({
+     *   NUMBER: b => b.digit().oneOrMore(),
+     *   QUOTE: { match: b => b.literal('"'), push: "string" },
+     *   WS: b => b.whitespace().oneOrMore(),
+     * }, {
+     *   skip: ["WS"],
+     *   states: {
+     *     string: {
+     *       TEXT: b => b.noneOf('"').oneOrMore(),
+     *       QUOTE: { match: b => b.literal('"'), pop: true },
+     *     },
+     *   },
+     * });
+     *
+     * for (const token of lexer.tokenize('12 "hi"')) console.log(token.type, token.value);
+     * // NUMBER 12
+     * // QUOTE "
+     * // TEXT hi
+     * // QUOTE "
+     * ```
+     */
+    static lexer<Type extends string, ErrorType extends string = never>(
+        rules: LexerRules<Type>,
+        options: LexerOptions<Type, ErrorType> = {},
+    ): Lexer<Type | ErrorType> {
+        const compile = (rules: LexerRules<Type>): CompiledRule[] =>
+            (Object.entries(rules) as [Type, LexerRule][]).map(([type, rule]) => {
+                const { match, ...transitions } = typeof rule === 'function' ? { match: rule } : rule;
+                const builder = IrregularExpression.match();
+                match(builder);
+                return {
+                    ...transitions,
+                    type,
+                    pattern: builder.toAST(),
+                    flags: Array.from(builder.flags).join(''),
+                    skip: transitions.skip === true || (options.skip ?? []).includes(type),
+                };
+            });
+        const states = new Map([['main', compile(rules)]]);
+        for (const [name, stateRules] of Object.entries(options.states ?? {})) states.set(name, compile(stateRules));
+        return new Lexer<Type | ErrorType>(states, options.errorToken);
+    }
+
     /**
      * Adds the 'i' flag for case-insensitive matching.
      * 
@@ -139,7 +548,102 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     unicode(): this {
-        if (!this.flags.has('u')) this.flags.add('u');
+        // 'v' is a superset of 'u', and the two cannot be combined
+        if (!this.flags.has('u') && !this.flags.has('v')) this.flags.add('u');
+        return this;
+    }
+
+    /**
+     * Adds the 'v' flag (unicodeSets): Unicode matching plus set operations
+     * and nested classes inside character classes. Replaces the 'u' flag.
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .charClass(c => c.letter().subtract(other => other.script("Latin")))
+     *   .unicodeSets()
+     *   .build();
+     *
+     * console.log(regex.flags); // "gv"
+     * console.log(regex.test("λ")); // true
+     * console.log(regex.test("a")); // false
+     * ```
+     */
+    unicodeSets(): this {
+        this.flags.delete('u');
+        if (!this.flags.has('v')) this.flags.add('v');
+        return this;
+    }
+
+    /**
+     * Adds the 'd' flag (hasIndices), so matches record the start and end of
+     * each capture group in `indices`. `matchAll()` and `matchFirst()` turn it
+     * on by themselves.
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const [match] = IrregularExpression.match()
+     *   .literal("a")
+     *   .capture(group => group.digit())
+     *   .hasIndices()
+     *   .execute("xa1");
+     *
+     * console.log(match.indices?.[1]); // [2, 3]
+     * ```
+     */
+    hasIndices(): this {
+        if (!this.flags.has('d')) this.flags.add('d');
+        return this;
+    }
+
+    /**
+     * Adds the 'y' flag (sticky), so each match must start exactly where the
+     * previous one ended (at the regex's `lastIndex`).
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .digit()
+     *   .sticky()
+     *   .build();
+     *
+     * console.log("12a3".match(regex)); // ["1", "2"]
+     * ```
+     */
+    sticky(): this {
+        if (!this.flags.has('y')) this.flags.add('y');
+        return this;
+    }
+
+    /**
+     * Makes every following quantifier apply to the element after it, as in
+     * `.exactly(3).digit()`.
+     *
+     * Without this call the builder picks the form from its first quantifier:
+     * one called with nothing before it to repeat switches the builder to
+     * prefix form, one called after an element to postfix form.
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .prefixQuantifiers()
+     *   .literal("x")
+     *   .exactly(2).literal("ab")
+     *   .build();
+     *
+     * console.log(regex.source); // "x(?:ab){2}"
+     * ```
+     */
+    prefixQuantifiers(): this {
+        this.quantifierPlacement = 'prefix';
         return this;
     }
 
@@ -160,8 +664,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     startOfLine(): this {
-        this.pattern += '^';
-        return this;
+        return this.append({ type: 'assertion', kind: 'startOfLine' });
     }
 
     /**
@@ -181,8 +684,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     endOfLine(): this {
-        this.pattern += '$';
-        return this;
+        return this.append({ type: 'assertion', kind: 'endOfLine' });
     }
 
     /**
@@ -205,13 +707,14 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     anySingleCharacter(): this {
-        this.pattern += '.';
-        return this;
+        return this.append({ type: 'class', kind: 'any' });
     }
 
     /**
-     * Matches zero or more occurrences of the previous pattern.
+     * Matches zero or more occurrences of the previous pattern, or of the next
+     * one when quantifiers are written first.
      * 
+     * @param mode How the repetitions backtrack: `'greedy'` (default), `'lazy'` or `'possessive'`.
      * @returns The current instance for chaining.
      * 
      * @example
@@ -226,16 +729,25 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("ab")); // true
      * console.log(regex.test("aab")); // true
      * console.log(regex.test("c")); // false
+     *
+     * const tag = IrregularExpression.match()
+     *   .literal("<")
+     *   .anySingleCharacter().zeroOrMore('lazy')
+     *   .literal(">")
+     *   .build();
+     *
+     * console.log("<a><b>".match(tag)); // ["<a>", "<b>"]
      * ```
      */
-    zeroOrMore(): this {
-        this.pattern += '*';
-        return this;
+    zeroOrMore(mode: QuantifierMode = 'greedy'): this {
+        return this.quantify('zeroOrMore', 0, null, mode);
     }
 
     /**
-     * Matches one or more occurrences of the previous pattern.
+     * Matches one or more occurrences of the previous pattern, or of the next
+     * one when quantifiers are written first.
      * 
+     * @param mode How the repetitions backtrack: `'greedy'` (default), `'lazy'` or `'possessive'`.
      * @returns The current instance for chaining.
      * 
      * @example
@@ -251,14 +763,15 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("b")); // false
      * ```
      */
-    oneOrMore(): this {
-        this.pattern += '+';
-        return this;
+    oneOrMore(mode: QuantifierMode = 'greedy'): this {
+        return this.quantify('oneOrMore', 1, null, mode);
     }
 
     /**
-     * Matches zero or one occurrence of the previous pattern.
+     * Matches zero or one occurrence of the previous pattern, or of the next
+     * one when quantifiers are written first.
      * 
+     * @param mode How the repetitions backtrack: `'greedy'` (default), `'lazy'` or `'possessive'`.
      * @returns The current instance for chaining.
      * 
      * @example
@@ -273,9 +786,8 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("colouur")); // false
      * ```
      */
-    zeroOrOne(): this {
-        this.pattern += '?';
-        return this;
+    zeroOrOne(mode: QuantifierMode = 'greedy'): this {
+        return this.quantify('zeroOrOne', 0, 1, mode);
     }
 
     /**
@@ -295,8 +807,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     literal(text: string): this {
-        this.pattern += this.escapeRegExp(text);
-        return this;
+        return this.append({ type: 'literal', value: text });
     }
 
     /**
@@ -315,8 +826,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     digit(): this {
-        this.pattern += '\\d';
-        return this;
+        return this.append({ type: 'class', kind: 'escape', value: 'd' });
     }
 
     /**
@@ -336,8 +846,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     nonDigit(): this {
-        this.pattern += '\\D';
-        return this;
+        return this.append({ type: 'class', kind: 'escape', value: 'D' });
     }
 
     /**
@@ -358,8 +867,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     wordCharacter(): this {
-        this.pattern += '\\w';
-        return this;
+        return this.append({ type: 'class', kind: 'escape', value: 'w' });
     }
 
     /**
@@ -379,8 +887,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     nonWordCharacter(): this {
-        this.pattern += '\\W';
-        return this;
+        return this.append({ type: 'class', kind: 'escape', value: 'W' });
     }
 
     /**
@@ -400,8 +907,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     whitespace(): this {
-        this.pattern += '\\s';
-        return this;
+        return this.append({ type: 'class', kind: 'escape', value: 's' });
     }
 
     /**
@@ -421,8 +927,7 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     nonWhitespace(): this {
-        this.pattern += '\\S';
-        return this;
+        return this.append({ type: 'class', kind: 'escape', value: 'S' });
     }
 
     /**
@@ -444,131 +949,319 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     wordBoundary(): this {
-        this.pattern += '\\b';
-        return this;
+        return this.append({ type: 'assertion', kind: 'wordBoundary' });
     }
 
     /**
-     * Matches characters in a specific range.
-     * 
-     * @param start The start of the range.
-     * @param end The end of the range.
+     * Matches a character with the given Unicode property, such as
+     * `General_Category=Letter`, `Script=Cyrillic` or the binary `Alphabetic`.
+     * Enables the 'u' flag, which property escapes require.
+     *
+     * @param name A property name, or a lone General_Category value such as `Lu`.
+     * @param value The property value, for properties that take one.
      * @returns The current instance for chaining.
-     * 
+     *
      * @example
      * ```typescript
      * const regex = IrregularExpression.match()
-     *   .range('a', 'z')
+     *   .unicodeProperty("Script", "Cyrillic")
+     *   .oneOrMore()
      *   .build();
-     * 
-     * console.log(regex.test("m")); // true
-     * console.log(regex.test("A")); // false
-     * console.log(regex.test("5")); // false
+     *
+     * console.log(regex.source); // "\\p{Script=Cyrillic}+"
+     * console.log(regex.test("Привет")); // true
+     * console.log(regex.test("Hello")); // false
      * ```
      */
-    range(start: string, end: string): this {
-        this.pattern += `[${start}-${end}]`;
-        return this;
+    unicodeProperty(name: string, value?: string): this {
+        return this.property('unicodeProperty', name, value, false);
     }
 
     /**
-     * Matches any character not in a specific range.
-     * 
-     * @param start The start of the range to exclude.
-     * @param end The end of the range to exclude.
+     * Matches a character without the given Unicode property. Enables the 'u'
+     * flag, which property escapes require.
+     *
+     * @param name A property name, or a lone General_Category value such as `Lu`.
+     * @param value The property value, for properties that take one.
      * @returns The current instance for chaining.
-     * 
+     *
      * @example
      * ```typescript
      * const regex = IrregularExpression.match()
-     *   .notInRange('0', '9')
+     *   .notUnicodeProperty("Letter")
      *   .build();
-     * 
-     * console.log(regex.test("a")); // true
-     * console.log(regex.test("!")); // true
-     * console.log(regex.test("5")); // false
-     * 
+     *
+     * console.log(regex.test("é")); // false
+     * console.log(regex.test("7")); // true
+     * ```
      */
-    notInRange(start: string, end: string): this {
-        this.pattern += `[^${start}-${end}]`;
-        return this;
+    notUnicodeProperty(name: string, value?: string): this {
+        return this.property('notUnicodeProperty', name, value, true);
     }
 
     /**
-     * Matches any of the specified characters.
-     * 
-     * @param chars The characters to match.
+     * Matches a letter in any script (`\p{L}`), unlike `wordCharacter()`
+     * which only knows ASCII letters.
+     *
      * @returns The current instance for chaining.
-     * 
+     *
      * @example
      * ```typescript
      * const regex = IrregularExpression.match()
-     *   .anyOf("aeiou")
+     *   .startOfLine()
+     *   .letter()
+     *   .oneOrMore()
+     *   .endOfLine()
      *   .build();
-     * 
-     * console.log(regex.test("a")); // true
-     * console.log(regex.test("e")); // true
-     * console.log(regex.test("b")); // false
-     * console.log(regex.test("1")); // false
+     *
+     * console.log(regex.test("Zoë")); // true
+     * console.log(regex.test("Ζωή")); // true
+     * console.log(regex.test("R2D2")); // false
      * ```
      */
-    anyOf(chars: string): this {
-        this.pattern += `[${this.escapeRegExp(chars)}]`;
-        return this;
+    letter(): this {
+        return this.property('letter', 'L', undefined, false);
     }
 
     /**
-     * Matches any character not in the specified set.
-     * 
-     * @param chars The characters to exclude.
+     * Matches an uppercase letter in any script (`\p{Lu}`).
+     *
      * @returns The current instance for chaining.
-     * 
+     *
      * @example
      * ```typescript
      * const regex = IrregularExpression.match()
-     *   .noneOf("0123456789")
+     *   .uppercaseLetter()
      *   .build();
-     * 
-     * console.log(regex.test("a")); // true
-     * console.log(regex.test("!")); // true
-     * console.log(regex.test("5")); // false
+     *
+     * console.log(regex.test("Ä")); // true
+     * console.log(regex.test("ä")); // false
      * ```
      */
-    noneOf(chars: string): this {
-        this.pattern += `[^${this.escapeRegExp(chars)}]`;
-        return this;
-    }
-
-    /**
-     * Matches any character except those specified.
-     * @param chars - The characters to exclude from matching.
-     * @returns The current IrregularExpression instance for method chaining.
-     */
-    anyCharacterExcept(chars: string): this {
-        this.pattern += `[^${this.escapeSpecialChars(chars)}]`;
-        return this;
-    }
-
-    /**
-     * Escapes special characters in a string for use in a regular expression.
-     * @param str - The string containing characters to escape.
-     * @returns The input string with special characters escaped.
-     * @private
-     */
-    private escapeSpecialChars(str: string): string {
-        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    uppercaseLetter(): this {
+        return this.property('uppercaseLetter', 'Lu', undefined, false);
     }
 
     /**
-     * Matches the given pattern exactly n times.
-     * 
-     * @param n The number of times to match.
+     * Matches a lowercase letter in any script (`\p{Ll}`).
+     *
      * @returns The current instance for chaining.
-     * 
+     *
      * @example
      * ```typescript
      * const regex = IrregularExpression.match()
-     *   .digit()
+     *   .lowercaseLetter()
+     *   .build();
+     *
+     * console.log(regex.test("ß")); // true
+     * console.log(regex.test("S")); // false
+     * ```
+     */
+    lowercaseLetter(): this {
+        return this.property('lowercaseLetter', 'Ll', undefined, false);
+    }
+
+    /**
+     * Matches a character of the given script, such as `Greek`, `Han` or `Arabic`.
+     *
+     * @param name The script name or its four-letter alias (`Grek`).
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .script("Greek")
+     *   .oneOrMore()
+     *   .build();
+     *
+     * console.log(regex.source); // "\\p{Script=Greek}+"
+     * console.log(regex.test("αβγ")); // true
+     * ```
+     */
+    script(name: string): this {
+        return this.property('script', 'Script', name, false);
+    }
+
+    /**
+     * Matches an emoji pictograph (`\p{Extended_Pictographic}`). Unlike
+     * `\p{Emoji}`, this does not match the digits, `#` and `*` that can
+     * start a keycap sequence.
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .emoji()
+     *   .build();
+     *
+     * console.log(regex.test("Hello 🌍")); // true
+     * console.log(regex.test("123")); // false
+     * ```
+     */
+    emoji(): this {
+        return this.property('emoji', 'Extended_Pictographic', undefined, false);
+    }
+
+    /**
+     * Matches characters in a specific range.
+     * 
+     * @param start The start of the range.
+     * @param end The end of the range.
+     * @returns The current instance for chaining.
+     * 
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .range('a', 'z')
+     *   .build();
+     * 
+     * console.log(regex.test("m")); // true
+     * console.log(regex.test("A")); // false
+     * console.log(regex.test("5")); // false
+     * ```
+     */
+    range(start: string, end: string): this {
+        return this.append({ type: 'class', kind: 'set', negated: false, members: [{ kind: 'range', from: start, to: end }] });
+    }
+
+    /**
+     * Matches any character not in a specific range.
+     * 
+     * @param start The start of the range to exclude.
+     * @param end The end of the range to exclude.
+     * @returns The current instance for chaining.
+     * 
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .notInRange('0', '9')
+     *   .build();
+     * 
+     * console.log(regex.test("a")); // true
+     * console.log(regex.test("!")); // true
+     * console.log(regex.test("5")); // false
+     * 
+     */
+    notInRange(start: string, end: string): this {
+        return this.append({ type: 'class', kind: 'set', negated: true, members: [{ kind: 'range', from: start, to: end }] });
+    }
+
+    /**
+     * Matches any of the specified characters.
+     * 
+     * @param chars The characters to match.
+     * @returns The current instance for chaining.
+     * 
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .anyOf("aeiou")
+     *   .build();
+     * 
+     * console.log(regex.test("a")); // true
+     * console.log(regex.test("e")); // true
+     * console.log(regex.test("b")); // false
+     * console.log(regex.test("1")); // false
+     * ```
+     */
+    anyOf(chars: string): this {
+        return this.append({ type: 'class', kind: 'set', negated: false, members: this.parseMembers(chars) });
+    }
+
+    /**
+     * Matches any character not in the specified set.
+     * 
+     * @param chars The characters to exclude.
+     * @returns The current instance for chaining.
+     * 
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .noneOf("0123456789")
+     *   .build();
+     * 
+     * console.log(regex.test("a")); // true
+     * console.log(regex.test("!")); // true
+     * console.log(regex.test("5")); // false
+     * ```
+     */
+    noneOf(chars: string): this {
+        return this.append({ type: 'class', kind: 'set', negated: true, members: this.parseMembers(chars) });
+    }
+
+    /**
+     * Matches one character from a class assembled with a
+     * {@link CharacterClassBuilder}. Unlike `anyOf()`, characters are always
+     * taken literally, and classes can be combined with intersections and
+     * subtractions.
+     *
+     * Intersections, subtractions and negated nested classes need the 'v'
+     * flag, which is turned on when the runtime supports it. Otherwise the
+     * class is expanded into plain code point ranges under the 'u' flag.
+     *
+     * @param callback A function that defines the class.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .charClass(c => c.range('a', 'z').digit().chars('_-'))
+     *   .oneOrMore()
+     *   .build();
+     *
+     * console.log(regex.source); // "[a-z\\d_-]+"
+     * console.log(regex.test("snake_case-2")); // true
+     *
+     * const consonant = IrregularExpression.match()
+     *   .charClass(c => c.range('a', 'z').subtract(vowel => vowel.chars('aeiou')))
+     *   .build();
+     *
+     * console.log(consonant.source); // "[[a-z]--[aeiou]]"
+     * console.log(consonant.flags); // "gv"
+     * ```
+     */
+    charClass(callback: (characters: CharacterClassBuilder) => CharacterClassBuilder): this {
+        const builder = new CharacterClassBuilder((message, code, argument) =>
+            this.emitError(new InvalidArgumentError(`charClass: ${message}`, { code, method: 'charClass', argument, offset: this.patternEnd() }))
+        );
+        callback(builder);
+        let node = builder.toAST();
+        if (needsUnicodeSets(node)) {
+            if (SUPPORTS_UNICODE_SETS) {
+                this.unicodeSets();
+            } else {
+                node = expandCharacterSet(node);
+                this.unicode();
+            }
+        } else if (needsUnicode(node)) {
+            this.unicode();
+        }
+        return this.append(node);
+    }
+
+    /**
+     * Matches any character except those specified.
+     * @param chars - The characters to exclude from matching.
+     * @returns The current IrregularExpression instance for method chaining.
+     */
+    anyCharacterExcept(chars: string): this {
+        return this.append({ type: 'class', kind: 'set', negated: true, members: this.parseMembers(chars) });
+    }
+
+    /**
+     * Matches the given pattern exactly n times.
+     * The pattern is the previous element, or the next one when quantifiers
+     * are written first.
+     * 
+     * @param n The number of times to match.
+     * @param mode How the repetitions backtrack: `'greedy'` (default), `'lazy'` or `'possessive'`.
+     * @returns The current instance for chaining.
+     * 
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .digit()
      *   .exactly(3)
      *   .build();
      * 
@@ -577,20 +1270,27 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("1234")); // false
      * ```
      */
-    exactly(n: number): this {
+    exactly(n: number, mode: QuantifierMode = 'greedy'): this {
         if (!Number.isInteger(n) || n < 0) {
-            this.emitError('exactly expects a non-negative integer.');
+            this.emitError(new InvalidArgumentError('exactly expects a non-negative integer.', {
+                code: 'invalid-count',
+                method: 'exactly',
+                argument: n,
+                offset: this.patternEnd(),
+            }));
             return this;
         }
-        this.pattern += `{${n}}`;
-        return this;
+        return this.quantify('exactly', n, n, mode);
     }
 
 
     /**
      * Matches the given pattern at least n times.
+     * The pattern is the previous element, or the next one when quantifiers
+     * are written first.
      * 
      * @param n The minimum number of times to match.
+     * @param mode How the repetitions backtrack: `'greedy'` (default), `'lazy'` or `'possessive'`.
      * @returns The current instance for chaining.
      * 
      * @example
@@ -605,20 +1305,27 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("1")); // false
      * ```
      */
-    atLeast(n: number): this {
+    atLeast(n: number, mode: QuantifierMode = 'greedy'): this {
         if (!Number.isInteger(n) || n < 0) {
-            this.emitError('atLeast expects a non-negative integer.');
+            this.emitError(new InvalidArgumentError('atLeast expects a non-negative integer.', {
+                code: 'invalid-count',
+                method: 'atLeast',
+                argument: n,
+                offset: this.patternEnd(),
+            }));
             return this;
         }
-        this.pattern += `{${n},}`;
-        return this;
+        return this.quantify('atLeast', n, null, mode);
     }
 
     /**
      * Matches the given pattern between n and m times (inclusive).
+     * The pattern is the previous element, or the next one when quantifiers
+     * are written first.
      * 
      * @param n The minimum number of times to match.
      * @param m The maximum number of times to match.
+     * @param mode How the repetitions backtrack: `'greedy'` (default), `'lazy'` or `'possessive'`.
      * @returns The current instance for chaining.
      * 
      * @example
@@ -635,13 +1342,17 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("12345")); // false
      * ```
      */
-    between(n: number, m: number): this {
+    between(n: number, m: number, mode: QuantifierMode = 'greedy'): this {
         if (!Number.isInteger(n) || !Number.isInteger(m) || n < 0 || m < n) {
-            this.emitError('between expects two non-negative integers where m >= n.');
+            this.emitError(new InvalidArgumentError('between expects two non-negative integers where m >= n.', {
+                code: 'invalid-count',
+                method: 'between',
+                argument: [n, m],
+                offset: this.patternEnd(),
+            }));
             return this;
         }
-        this.pattern += `{${n},${m}}`;
-        return this;
+        return this.quantify('between', n, m, mode);
     }
 
     /**
@@ -669,11 +1380,10 @@ export class IrregularExpression extends EventTarget {
      * console.log(match[2]); // "4567"
      * ```
      */
-    capture(callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(${groupBuilder.getPattern()})`;
-        return this;
+    capture<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, [...C, string]> {
+        return this.append({ type: 'group', capturing: true, body: this.groupBody(callback) }).retyped<N, [...C, string]>();
     }
 
     /**
@@ -702,11 +1412,11 @@ export class IrregularExpression extends EventTarget {
      * console.log(match.groups.number); // "4567"
      * ```
      */
-    namedCapture(name: string, callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(?<${name}>${groupBuilder.getPattern()})`;
-        return this;
+    namedCapture<Name extends string, N extends string, C extends string[]>(
+        name: Name,
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N | Name, [...C, string]> {
+        return this.append({ type: 'group', capturing: true, name, body: this.groupBody(callback) }).retyped<N | Name, [...C, string]>();
     }
 
     /**
@@ -733,11 +1443,42 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("Ms Davis")); // false
      * ```
      */
-    nonCapturingGroup(callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(?:${groupBuilder.getPattern()})`;
-        return this;
+    nonCapturingGroup<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C> {
+        return this.append({ type: 'group', capturing: false, body: this.groupBody(callback) }).retyped<N, C>();
+    }
+
+    /**
+     * Creates an atomic group: once the group has matched, the engine never
+     * backtracks into it to try a shorter or different match.
+     *
+     * ECMAScript has no atomic groups, so the group is emulated as
+     * `(?=(...))\N`. The capture group this adds is hidden from `execute()`
+     * and `replace()`, and numbered backreferences are renumbered to match, but
+     * it is visible in the RegExp returned by `build()`.
+     *
+     * @param callback A function that defines the pattern within the group.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .atomic(group => group
+     *     .literal("a")
+     *     .oneOrMore()
+     *   )
+     *   .literal("ab")
+     *   .build();
+     *
+     * console.log(regex.source); // "(?=(a+))\\1ab"
+     * console.log(regex.test("aaab")); // false, "a+" keeps every "a"
+     * ```
+     */
+    atomic<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C> {
+        return this.append({ type: 'group', capturing: false, atomic: true, body: this.groupBody(callback) }).retyped<N, C>();
     }
 
     /**
@@ -760,11 +1501,10 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("userdomain.com")); // false
      * ```
      */
-    positiveLookahead(callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(?=${groupBuilder.getPattern()})`;
-        return this;
+    positiveLookahead<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C> {
+        return this.append({ type: 'assertion', kind: 'lookahead', negated: false, body: this.groupBody(callback) }).retyped<N, C>();
     }
 
     /**
@@ -787,11 +1527,10 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("user@domain.com")); // false
      * ```
      */
-    negativeLookahead(callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(?!${groupBuilder.getPattern()})`;
-        return this;
+    negativeLookahead<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C> {
+        return this.append({ type: 'assertion', kind: 'lookahead', negated: true, body: this.groupBody(callback) }).retyped<N, C>();
     }
 
     /**
@@ -814,11 +1553,10 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("100")); // false
      * ```
      */
-    positiveLookbehind(callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(?<=${groupBuilder.getPattern()})`;
-        return this;
+    positiveLookbehind<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C> {
+        return this.append({ type: 'assertion', kind: 'lookbehind', negated: false, body: this.groupBody(callback) }).retyped<N, C>();
     }
 
     /**
@@ -841,11 +1579,10 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("$100")); // false
      * ```
      */
-    negativeLookbehind(callback: (group: IrregularExpression) => IrregularExpression): this {
-        const groupBuilder = IrregularExpression.match();
-        callback(groupBuilder);
-        this.pattern += `(?<!${groupBuilder.getPattern()})`;
-        return this;
+    negativeLookbehind<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C> {
+        return this.append({ type: 'assertion', kind: 'lookbehind', negated: true, body: this.groupBody(callback) }).retyped<N, C>();
     }
 
     /**
@@ -868,16 +1605,54 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("bird")); // false
      * ```
      */
-    or(callback?: (alt: IrregularExpression) => IrregularExpression): this {
-        this.pattern += '|';
+    or(): this;
+    or<N extends string, C extends string[]>(
+        callback: (alt: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, C>;
+    or(callback?: (alt: IrregularExpression<Named, Captures>) => IrregularExpression<string, string[]>): this {
+        this.dropPendingQuantifier();
+        this.branches.push([]);
         if (callback) {
-            const altBuilder = IrregularExpression.match();
-            callback(altBuilder);
-            this.pattern += altBuilder.getPattern();
+            const body = this.groupBody(callback);
+            // Checks scoped to the alternative need it to stay one node
+            this.append(this.validators.some(validator => validator.scope === body) ? { type: 'group', capturing: false, body } : body);
         }
         return this;
     }
 
+    /**
+     * Appends another builder's pattern, such as a preset, as a single
+     * non-capturing group, so a quantifier after it repeats all of it. Its
+     * capture groups come along, and so do its `validate()` checks, which
+     * then receive the text the fragment matched rather than the whole
+     * match. The 'u' or 'v' flag it needs comes along too; its other flags
+     * do not, since they would change the meaning of the rest of the pattern.
+     *
+     * @param fragment The builder to embed.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const endpoint = IrregularExpression.match()
+     *   .startOfLine()
+     *   .use(presets.ipv4())
+     *   .literal(":")
+     *   .digit().between(1, 5)
+     *   .endOfLine();
+     *
+     * console.log(endpoint.test("192.168.0.1:8080")); // true
+     * console.log(endpoint.test("192.168.0.256:8080")); // false
+     * ```
+     */
+    use<N extends string, C extends string[]>(fragment: IrregularExpression<N, C>): IrregularExpression<Named | N, [...Captures, ...C]> {
+        fragment.dropPendingQuantifier();
+        if (fragment.flags.has('v')) this.unicodeSets();
+        else if (fragment.flags.has('u') && !this.flags.has('v')) this.unicode();
+        const group: PatternNode = { type: 'group', capturing: false, body: fragment.unexpanded() };
+        this.validators.push(...fragment.validators.map(({ check, scope }) => ({ check, scope: scope ?? group })));
+        return this.append(group).retyped<Named | N, [...Captures, ...C]>();
+    }
+
     /**
      * Creates a capturing group.
      * 
@@ -903,11 +1678,21 @@ export class IrregularExpression extends EventTarget {
      * console.log(match[2]); // "4567"
      * ```
      */
-    group(callback: (group: IrregularExpression) => void): this {
-        this.pattern += '(';
+    group<N extends string, C extends string[]>(
+        callback: (group: IrregularExpression<Named, Captures>) => IrregularExpression<N, C>,
+    ): IrregularExpression<N, [...C, string]>;
+    group(callback: (group: IrregularExpression<Named, Captures>) => void): IrregularExpression<Named, [...Captures, string]>;
+    group(callback: (group: IrregularExpression<Named, Captures>) => unknown): IrregularExpression<string, string[]> {
+        const outer = this.branches;
+        const pending = this.pendingQuantifier;
+        this.branches = [[]];
+        this.pendingQuantifier = null;
         callback(this);
-        this.pattern += ')';
-        return this;
+        this.dropPendingQuantifier();
+        const body = this.unexpanded();
+        this.branches = outer;
+        this.pendingQuantifier = pending;
+        return this.append({ type: 'group', capturing: true, body }).retyped<string, string[]>();
     }
 
     /**
@@ -930,12 +1715,36 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     build(): RegExp {
+        if (this.dropPendingQuantifier()) return /(?!)/;
+        const { node, failed } = this.resolve();
+        if (failed) return /(?!)/;
+        if (this.redosCheck) this.analyze().forEach(finding => this.emitWarning(finding));
+        const flags = Array.from(this.flags).join('');
+        return this.compile(generate(node, flags), flags, 'build');
+    }
+
+    /**
+     * Compiles a generated pattern, reporting a pattern the regex engine
+     * rejects, such as one with two groups of the same name.
+     *
+     * @param pattern The pattern to compile.
+     * @param flags The flags to compile it with.
+     * @param method The method compiling it, for the error.
+     * @param shown The pattern as the user would see it, if `pattern` has hidden groups.
+     * @returns The regex, or one that matches nothing if the pattern is invalid.
+     */
+    private compile(pattern: string, flags: string, method: string, shown = pattern): RegExp {
         try {
-            return new RegExp(this.pattern, Array.from(this.flags).join(''));
+            return new RegExp(pattern, flags);
         } catch (error) {
-            this.emitError(`Invalid regex pattern: ${error.message}`);
+            this.emitError(new PatternSyntaxError(`Invalid regex pattern: ${error instanceof Error ? error.message : String(error)}`, {
+                code: 'invalid-pattern',
+                method,
+                argument: shown,
+                offset: syntaxErrorOffset(shown, flags),
+            }));
             // Return a regex that matches nothing
-            return /(?!)/;
+            return new RegExp('(?!)', flags);
         }
     }
 
@@ -957,15 +1766,46 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     test(input: string): boolean {
+        if (this.validators.length > 0) {
+            const flags = new Set(this.flags).add('g');
+            return !this.exec('test', input, Array.from(flags).join(''), 1).next().done;
+        }
         try {
             const regex = this.build();
             return regex.test(input);
         } catch (error) {
-            this.emitError(`Test failed: ${error.message}`);
+            if (error instanceof IrregularExpressionError) throw error;
+            this.emitError(new IrregularExpressionError(`Test failed: ${error.message}`, { code: 'match-failed', method: 'test', argument: input }));
             return false;
         }
     }
 
+    /**
+     * Tests if the regex matches the input string, in a Worker so a slow
+     * match cannot block the event loop. See {@link AsyncMatchOptions}.
+     *
+     * @param input The string to test against the regex.
+     * @param options The time limit and abort signal.
+     * @returns True if a match is found, otherwise false.
+     * @throws {MatchTimeoutError} If the match runs longer than `timeoutMs`.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.from(/^(a+)+$/);
+     *
+     * try {
+     *   await regex.testAsync("a".repeat(40) + "!", { timeoutMs: 100 });
+     * } catch (error) {
+     *   console.log(error instanceof MatchTimeoutError); // true
+     * }
+     * ```
+     */
+    async testAsync(input: string, options: AsyncMatchOptions = {}): Promise<boolean> {
+        if (this.validators.length > 0) return (await this.execInWorker('testAsync', input, 1, options)).length > 0;
+        const regex = this.build();
+        return workerPool.run({ op: 'test', source: regex.source, flags: regex.flags, input }, options);
+    }
+
     /**
      * Executes the regex on the input string and returns the match results.
      * 
@@ -984,15 +1824,88 @@ export class IrregularExpression extends EventTarget {
      * console.log(matches.map(m => m[0])); // ["123", "456", "789"]
      * ```
      */
-    execute(input: string): RegExpExecArray[] {
-        const regex = new RegExp(this.pattern, Array.from(this.flags).join(''));
-        const matches: RegExpExecArray[] = [];
-        let match: RegExpExecArray | null;
-        while ((match = regex.exec(input)) !== null && (this.maxRun === null || matches.length < this.maxRun)) {
-            matches.push(match);
-            if (!this.flags.has('g')) break;
-        }
-        return matches;
+    execute(input: string): CaptureMatch<Named, Captures>[] {
+        const flags = Array.from(this.flags).join('');
+        if (this.flags.has('g')) return withMatchTypes<Named, Captures>([...this.exec('execute', input, flags)]);
+        // Without 'g' only the first match is wanted
+        const { value } = this.exec('execute', input, `${flags}g`).next();
+        return withMatchTypes<Named, Captures>(value ? [value] : []);
+    }
+
+    /**
+     * Executes the regex on the input string in a Worker, so a slow match
+     * cannot block the event loop, and returns the same results as `execute()`.
+     *
+     * @param input The string to match against the regex.
+     * @param options The time limit and abort signal.
+     * @returns The matches, up to maxRun, or all matches if maxRun is null.
+     * @throws {MatchTimeoutError} If the match runs longer than `timeoutMs`.
+     *
+     * @example
+     * ```typescript
+     * const controller = new AbortController();
+     * const matches = await IrregularExpression.match()
+     *   .digit()
+     *   .oneOrMore()
+     *   .executeAsync("123 abc 456", { timeoutMs: 50, signal: controller.signal });
+     *
+     * console.log(matches.map(m => m[0])); // ["123", "456"]
+     * ```
+     */
+    async executeAsync(input: string, options: AsyncMatchOptions = {}): Promise<CaptureMatch<Named, Captures>[]> {
+        const matches = await this.execInWorker('executeAsync', input, this.flags.has('g') ? this.maxRun : 1, options);
+        return withMatchTypes<Named, Captures>(matches);
+    }
+
+    /**
+     * Finds every match in the input, up to the limit set with `runTimes()`,
+     * along with where the match and each of its capture groups sit. The 'd'
+     * flag is added for the search, and the builder's other flags are kept.
+     *
+     * @param input The string to search.
+     * @returns The matches, in order.
+     *
+     * @example
+     * ```typescript
+     * const matches = IrregularExpression.match()
+     *   .namedCapture("key", group => group.wordCharacter().oneOrMore())
+     *   .literal("=")
+     *   .capture(group => group.digit().oneOrMore())
+     *   .matchAll("a=1\nbb=22");
+     *
+     * console.log(matches[1]);
+     * // { text: "bb=22", start: 4, end: 9, line: 2, column: 1,
+     * //   captures: ["bb", "22"], named: { key: "bb" },
+     * //   spans: [[4, 6], [7, 9]], namedSpans: { key: [4, 6] } }
+     * ```
+     */
+    matchAll(input: string): MatchResult<Named, Captures>[] {
+        const lines = new LineIndex(input);
+        const flags = new Set(this.flags).add('d').add('g');
+        return [...this.exec('matchAll', input, Array.from(flags).join(''))]
+            .map(match => toMatchResult<Named, Captures>(match, lines));
+    }
+
+    /**
+     * Finds the first match in the input, along with where it and each of its
+     * capture groups sit. See {@link IrregularExpression.matchAll}.
+     *
+     * @param input The string to search.
+     * @returns The first match, or null if there is none.
+     *
+     * @example
+     * ```typescript
+     * const match = IrregularExpression.match()
+     *   .literal("error")
+     *   .matchFirst("ok\nan error");
+     *
+     * console.log(match && [match.start, match.line, match.column]); // [6, 2, 4]
+     * ```
+     */
+    matchFirst(input: string): MatchResult<Named, Captures> | null {
+        const flags = new Set(this.flags).add('d').add('g');
+        const { value } = this.exec('matchFirst', input, Array.from(flags).join('')).next();
+        return value ? toMatchResult<Named, Captures>(value, new LineIndex(input)) : null;
     }
 
     /**
@@ -1012,15 +1925,442 @@ export class IrregularExpression extends EventTarget {
      * ```
      */
     getPattern(): string {
-        return this.pattern;
+        this.dropPendingQuantifier();
+        return generate(this.toAST(), Array.from(this.flags).join(''));
     }
 
     /**
-     * Combines multiple IrregularExpression instances into one.
-     * 
-     * @param expressions The IrregularExpression instances to combine.
-     * @returns A new IrregularExpression instance with combined patterns and flags.
-     * 
+     * Gets the flags the pattern is built with.
+     *
+     * @returns The flags, e.g. `"gi"`.
+     *
+     * @example
+     * ```typescript
+     * console.log(IrregularExpression.match().ignoreCase().getFlags()); // "gi"
+     * ```
+     */
+    getFlags(): string {
+        return Array.from(this.flags).join('');
+    }
+
+    /**
+     * Saves the builder as a JSON-serializable document: the schema version,
+     * the pattern as a tree (see `toAST()`), the flags and the `runTimes()`
+     * limit. `JSON.stringify()` calls it, and
+     * {@link IrregularExpression.fromJSON} restores the builder. Checks added
+     * with `validate()` are functions, and cannot be saved: the document is
+     * still written without them, and an `unserializable-check` error is
+     * reported, so a restored builder does not quietly match more than this
+     * one (thrown in strict mode).
+     *
+     * @returns The document.
+     * @throws {IrregularExpressionError} In strict mode, if the builder has `validate()` checks.
+     *
+     * @example
+     * ```typescript
+     * const json = JSON.stringify(IrregularExpression.match().digit().oneOrMore().ignoreCase());
+     * // {"version":1,"pattern":{"type":"sequence","elements":[{"type":"quantifier","min":1,"max":null,
+     * //   "greedy":true,"body":{"type":"class","kind":"escape","value":"d"}}]},"flags":"gi","maxRun":null}
+     * ```
+     */
+    toJSON(): SerializedExpression {
+        this.dropPendingQuantifier();
+        if (this.validators.length > 0) {
+            this.emitError(new IrregularExpressionError('toJSON cannot save checks added with validate(), so the document leaves them out.', {
+                code: 'unserializable-check',
+                method: 'toJSON',
+            }));
+        }
+        return {
+            version: SCHEMA_VERSION,
+            pattern: this.toAST(),
+            flags: Array.from(this.flags).join(''),
+            maxRun: this.maxRun,
+        };
+    }
+
+    /**
+     * Translates the pattern into another regex dialect: PCRE, Python's `re`,
+     * RE2, POSIX ERE or PostgreSQL. Each construct keeps its meaning, not its
+     * spelling: named groups become `(?P<name>...)` where that is the syntax,
+     * `i`, `m` and `s` become inline flags, and `\d`, `\w`, `\s` and `.` are
+     * spelled out as sets wherever the target reads them differently.
+     * Constructs the target cannot express, such as lookbehind or
+     * backreferences in RE2, are reported as errors instead of being
+     * translated into a pattern that matches something else. Constructs
+     * whose meaning differs only in some matches are written with a
+     * warning, such as a backreference in PCRE or Python to a group that may
+     * not have taken part, which fails there but matches empty here.
+     *
+     * @param dialect The dialect to write.
+     * @returns The translated pattern, or `null` when any diagnostic is an
+     * error, with diagnostics whose spans are offsets in `getPattern()`.
+     * @throws {RangeError} If the dialect is not known.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .namedCapture("year", group => group.digit().exactly(4))
+     *   .ignoreCase();
+     *
+     * console.log(regex.toDialect("python").pattern); // "(?i)(?P<year>[0-9]{4})"
+     *
+     * const { pattern, diagnostics } = IrregularExpression.match()
+     *   .positiveLookbehind(group => group.literal("$"))
+     *   .digit().oneOrMore()
+     *   .toDialect("re2");
+     * // pattern: null
+     * // diagnostics: [{ severity: "error", construct: "lookbehind",
+     * //   message: "RE2 has no lookbehind assertions", span: [0, 7] }]
+     * ```
+     */
+    toDialect(dialect: Dialect): DialectPattern {
+        this.dropPendingQuantifier();
+        return translatePattern(this.toAST(), Array.from(this.flags).join(''), dialect);
+    }
+
+    /**
+     * Gets the pattern as an abstract syntax tree.
+     *
+     * The root is a `sequence` node, or an `alternation` of sequences when
+     * `or()` was used at the top level. The returned nodes are shared with the
+     * builder and must be treated as read-only. A `ref()` to an undefined
+     * fragment, or in a cycle, becomes `(?!)`, which matches nothing;
+     * `build()` and the matching methods report it.
+     *
+     * @returns The root node of the pattern.
+     *
+     * @example
+     * ```typescript
+     * const ast = IrregularExpression.match()
+     *   .digit()
+     *   .oneOrMore()
+     *   .toAST();
+     *
+     * console.log(ast);
+     * // { type: "sequence", elements: [
+     * //   { type: "quantifier", min: 1, max: null, greedy: true,
+     * //     body: { type: "class", kind: "escape", value: "d" } }
+     * // ] }
+     * ```
+     */
+    toAST(): PatternNode {
+        // Reported by `resolve()` where the pattern is compiled
+        return IrregularExpression.expand(this.unexpanded(), this.flags, () => {});
+    }
+
+    /**
+     * Describes the pattern in plain English, one step per line. Nested parts
+     * such as groups and lookarounds are indented under the step that holds them.
+     *
+     * @returns The description.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .startOfLine()
+     *   .digit().exactly(3)
+     *   .literal("-")
+     *   .namedCapture("rest", group => group.wordCharacter().oneOrMore());
+     *
+     * console.log(regex.explain());
+     * // flags: global (find all matches)
+     * // start of input
+     * // then exactly 3 digits
+     * // then the literal '-'
+     * // then capture group #1 "rest":
+     * //   one or more word characters
+     * ```
+     */
+    explain(): string {
+        return renderExplanation(this.explainTree());
+    }
+
+    /**
+     * Describes the pattern as a JSON-serializable tree, for display in tools
+     * that want to lay the explanation out themselves.
+     *
+     * @returns The description tree.
+     *
+     * @example
+     * ```typescript
+     * const tree = IrregularExpression.match()
+     *   .digit()
+     *   .oneOrMore()
+     *   .explainTree();
+     *
+     * console.log(tree.steps[0].description); // "one or more digits"
+     * ```
+     */
+    explainTree(): ExplanationTree {
+        this.dropPendingQuantifier();
+        return explainPattern(this.toAST(), Array.from(this.flags).join(''));
+    }
+
+    /**
+     * Draws the pattern as a railroad diagram, for code review and
+     * documentation. Alternatives branch off the track, quantifiers loop back
+     * under their body with the bounds written below, capture groups are
+     * framed and labelled with their number and name, and anchors and
+     * lookarounds have their own styles. The SVG is self-contained, and the
+     * same pattern always gives the same output, so it can be snapshot-tested.
+     *
+     * @returns The SVG document.
+     *
+     * @example
+     * ```typescript
+     * const svg = IrregularExpression.match()
+     *   .startOfLine()
+     *   .namedCapture("year", group => group.digit().exactly(4))
+     *   .toRailroadSVG();
+     *
+     * await Deno.writeTextFile("year.svg", svg);
+     * ```
+     */
+    toRailroadSVG(): string {
+        this.dropPendingQuantifier();
+        return renderRailroad(this.toAST(), Array.from(this.flags).join(''));
+    }
+
+    /**
+     * Generates random strings the pattern matches in full, for property-based
+     * tests and fuzzing. Classes, quantifiers, alternation and backreferences
+     * are followed directly; lookarounds and anchors are handled by drawing
+     * again until a string matches. Strings must also pass the checks added
+     * with {@link IrregularExpression.validate}.
+     *
+     * @param options `count` (default 10), `seed` (default 0; the same seed
+     * always gives the same strings) and `maxRepeat`, the most repetitions of
+     * an unbounded quantifier (default 5).
+     * @returns The strings. There are fewer than `count` when too many drawn
+     * strings are rejected, e.g. when the pattern can never match.
+     * @throws {RangeError} If `count` or `maxRepeat` is not a non-negative integer.
+     *
+     * @example
+     * ```typescript
+     * const samples = IrregularExpression.match()
+     *   .capture(group => group.wordCharacter().between(1, 3))
+     *   .literal("-")
+     *   .backreference(1)
+     *   .generate({ count: 3, seed: 42 });
+     *
+     * console.log(samples); // ["Sq-Sq", "BXH-BXH", "rT-rT"]
+     * ```
+     */
+    generate(options: SampleOptions = {}): string[] {
+        const ast = this.toAST();
+        return generateSamples(ast, this.build(), options, text => this.acceptsWhole('generate', text, ast));
+    }
+
+    /**
+     * Generates near-misses: strings one small edit away from a matching
+     * string (a character deleted, inserted, replaced, duplicated or swapped,
+     * or the end cut off) that the pattern does not match in full, or that
+     * fail a check added with {@link IrregularExpression.validate}. Useful for
+     * testing that a pattern rejects what it should.
+     *
+     * @param options The same options as {@link IrregularExpression.generate}.
+     * @returns The strings. There are fewer than `count` when edits keep
+     * producing matches, e.g. for `.*`.
+     * @throws {RangeError} If `count` or `maxRepeat` is not a non-negative integer.
+     *
+     * @example
+     * ```typescript
+     * const misses = IrregularExpression.match()
+     *   .digit()
+     *   .exactly(4)
+     *   .generateNonMatching({ count: 3, seed: 7 });
+     *
+     * console.log(misses); // ["09605", "09F65", "928"]
+     * ```
+     */
+    generateNonMatching(options: SampleOptions = {}): string[] {
+        const ast = this.toAST();
+        return generateNearMisses(ast, this.build(), options, text => this.acceptsWhole('generateNonMatching', text, ast));
+    }
+
+    /**
+     * Checks the pattern for catastrophic backtracking (ReDoS): an unbounded
+     * quantifier nested in another, alternatives under a quantifier that can
+     * match the same text, and adjacent unbounded quantifiers over the same
+     * characters. The checks are heuristics, so a clean result is not a proof.
+     *
+     * @returns The findings, each with a severity (`high` for exponential,
+     * `medium` for polynomial), the span of the offending sub-pattern in
+     * `getPattern()`, and an input that triggers the backtracking.
+     *
+     * @example
+     * ```typescript
+     * const [finding] = IrregularExpression.match()
+     *   .capture(group => group.wordCharacter().oneOrMore())
+     *   .oneOrMore()
+     *   .endOfLine()
+     *   .analyze();
+     *
+     * console.log(finding.kind, finding.severity, finding.source); // "nested-quantifier" "high" "(\\w+)+"
+     * console.log(finding.attack); // "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!"
+     * ```
+     */
+    analyze(): ReDoSFinding[] {
+        return analyzePattern(this.toAST(), Array.from(this.flags).join(''));
+    }
+
+    /**
+     * Copies the builder, so the copy can be extended without changing the
+     * original. Everything that shapes the pattern and its use comes along:
+     * the pattern so far, flags, the `runTimes()` limit, `validate()` checks,
+     * `checkReDoS()`, `strict()` and the errors reported so far. Event
+     * listeners do not. The elements of the pattern are shared rather than
+     * copied, so cloning is cheap; a clone of an immutable builder is immutable.
+     *
+     * @returns The copy.
+     *
+     * @example
+     * ```typescript
+     * const base = IrregularExpression.match().startOfLine().digit();
+     * const twice = base.clone().digit();
+     *
+     * console.log(base.getPattern(), twice.getPattern()); // "^\\d" "^\\d\\d"
+     * ```
+     */
+    clone(): this {
+        const copy = this.copy();
+        return (this.immutableMode ? IrregularExpression.immutableView(copy) : copy) as this;
+    }
+
+    /**
+     * Returns an immutable copy of the builder: calling a method on it leaves
+     * it unchanged and returns a new builder with the change, so a common
+     * prefix can be shared by any number of variants. Each call costs a
+     * {@link IrregularExpression.clone}, which shares the elements of the
+     * pattern. Methods that return something else, such as `build()` or
+     * `test()`, return it as usual, and the errors they report are listed by
+     * the builder's `diagnostics()`. Event listeners are added to the builder
+     * itself and hear the events of every call made on it; they are not
+     * carried over to the builders derived from it.
+     *
+     * @returns The immutable copy.
+     *
+     * @example
+     * ```typescript
+     * const year = IrregularExpression.from(/\d{4}/).immutable();
+     * const range = year.literal("-").digit().exactly(4);
+     *
+     * console.log(year.getPattern(), range.getPattern()); // "\\d{4}" "\\d{4}-\\d{4}"
+     * ```
+     */
+    immutable(): this {
+        const copy = this.copy();
+        copy.immutableMode = true;
+        return IrregularExpression.immutableView(copy) as this;
+    }
+
+    /**
+     * Makes the builder throw each error as soon as it is reported, instead
+     * of skipping the offending call and carrying on. The error is still
+     * dispatched as an `error` event and listed by
+     * {@link IrregularExpression.diagnostics} first. Errors in group callbacks
+     * are thrown too, from the method called inside the callback.
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * try {
+     *   IrregularExpression.match().strict().digit().exactly(-1);
+     * } catch (error) {
+     *   if (error instanceof InvalidArgumentError) console.log(error.code, error.method, error.argument); // "invalid-count" "exactly" -1
+     * }
+     * ```
+     */
+    strict(): this {
+        this.strictMode = true;
+        return this;
+    }
+
+    /**
+     * Lists the errors reported so far, including those from group callbacks
+     * and from `build()`, in the order they happened.
+     *
+     * @returns A copy of the list; each entry has a `code`, the `method` that
+     * reported it, the offending `argument` and the `offset` in `getPattern()`.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .capture(group => group.literal("a").between(3, 1))
+     *   .endOfLine()
+     *   .oneOrMore();
+     *
+     * regex.build();
+     * console.log(regex.diagnostics().map(error => error.code)); // ["invalid-count", "nothing-to-repeat"]
+     * ```
+     */
+    diagnostics(): IrregularExpressionError[] {
+        return [...this.problems];
+    }
+
+    /**
+     * Makes `build()` (and the methods that use it) run {@link IrregularExpression.analyze}
+     * and emit a `warning` event for each finding. The event's `detail` is the finding.
+     *
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const regex = IrregularExpression.match()
+     *   .digit().oneOrMore()
+     *   .digit().oneOrMore()
+     *   .checkReDoS();
+     *
+     * regex.addEventListener("warning", (event: Event) => {
+     *   if (event instanceof CustomEvent) console.warn(event.detail.message);
+     * });
+     * regex.build(); // warns about polynomial backtracking in "\\d+\\d+"
+     * ```
+     */
+    checkReDoS(): this {
+        this.redosCheck = true;
+        return this;
+    }
+
+    /**
+     * Adds a check each match must pass, for rules a regex cannot express,
+     * such as a checksum. Matches that fail it are skipped by `test()`,
+     * `execute()`, `matchAll()`, `matchFirst()`, `matchStream()`, `replace()`
+     * and their async variants. The RegExp returned by `build()` does not
+     * run the checks.
+     *
+     * A check receives the text this builder's pattern matched. That is the
+     * whole match, unless the builder is embedded in another one with
+     * `use()` or through a group callback: then it is the part of the match
+     * the embedded pattern matched, and the check does not run when that
+     * part was not used. Inside a quantifier it sees the last repetition.
+     *
+     * @param check Receives the text of a match, and returns false to reject it.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const even = IrregularExpression.match()
+     *   .digit()
+     *   .oneOrMore()
+     *   .validate(text => Number(text) % 2 === 0);
+     *
+     * console.log(even.execute("1 2 3 4").map(m => m[0])); // ["2", "4"]
+     * ```
+     */
+    validate(check: (text: string) => boolean): this {
+        this.validators.push({ check, scope: null });
+        return this;
+    }
+
+    /**
+     * Combines multiple IrregularExpression instances into one.
+     * 
+     * @param expressions The IrregularExpression instances to combine.
+     * @returns A new IrregularExpression instance with combined patterns and flags.
+     * 
      * @example
      * ```typescript
      * const regex1 = IrregularExpression.match()
@@ -1040,21 +2380,64 @@ export class IrregularExpression extends EventTarget {
      * console.log(combinedRegex.test("bird")); // false
      * ```
      */
-    static combine(...expressions: IrregularExpression[]): IrregularExpression {
-        const combined = new IrregularExpression();
+    static combine<Expressions extends IrregularExpression<string, string[]>[]>(
+        ...expressions: Expressions
+    ): IrregularExpression<CombinedNames<Expressions>, CombinedCaptures<Expressions>> {
+        const combined = new IrregularExpression<CombinedNames<Expressions>, CombinedCaptures<Expressions>>();
         expressions.forEach(expr => {
-            combined.pattern += expr.getPattern();
+            combined.append(expr.unexpanded());
             expr.flags.forEach(flag => combined.flags.add(flag));
         });
         return combined;
     }
 
+    /**
+     * Compares the strings two patterns match in full, e.g. to prove that a
+     * refactored builder chain still matches exactly what the old one did.
+     * Both patterns are compiled to automata, so the answer is exact rather
+     * than sampled. Only the regular subset is supported: backreferences,
+     * lookarounds, word boundaries, atomic groups, possessive quantifiers,
+     * `^`/`$` under the `m` flag and `validate()` checks cannot be compared.
+     *
+     * @param a The first pattern.
+     * @param b The second pattern.
+     * @returns The `relation` (`equivalent`, `aSubsetOfB`, `bSubsetOfA` or
+     * `incomparable`), with `onlyA` and `onlyB`, the shortest strings only one
+     * of the patterns matches, or null where there are none.
+     * @throws {UnanalyzablePatternError} If a pattern is outside the regular
+     * subset, or only one of them uses the `u` or `v` flag. The error names the
+     * `pattern` and the offending `construct`.
+     * @throws {RangeError} If the automata grow too large to search.
+     *
+     * @example
+     * ```typescript
+     * const before = IrregularExpression.match().digit().oneOrMore().or().literal("x");
+     * const after = IrregularExpression.match().charClass(c => c.range("0", "9").chars("x")).oneOrMore();
+     *
+     * const { relation, onlyA, onlyB } = IrregularExpression.compare(before, after);
+     * console.log(relation, onlyA, onlyB); // "aSubsetOfB" null "xx"
+     * ```
+     */
+    static compare(a: IrregularExpression<string, string[]>, b: IrregularExpression<string, string[]>): PatternComparison {
+        for (const [name, expression] of [['a', a], ['b', b]] as const) {
+            if (expression.validators.length > 0) {
+                throw new UnanalyzablePatternError(name, 'validate()', 'checks added with validate() cannot be analyzed');
+            }
+        }
+        return comparePatterns(a.toAST(), Array.from(a.flags).join(''), b.toAST(), Array.from(b.flags).join(''));
+    }
+
     /**
      * Replaces matches in the input string with the provided replacement.
+     * Only the first match is replaced without the `g` flag, and no more
+     * than the `runTimes()` limit with it.
      * 
      * @param input The input string.
-     * @param replacement The replacement string or function.
+     * @param replacement The replacement string, e.g. one made with
+     * `replacement()`, or a function.
+     * @param options The most matches to replace.
      * @returns The resulting string after replacement.
+     * @throws {RangeError} If `limit` is not a non-negative integer.
      * 
      * @example
      * ```typescript
@@ -1067,9 +2450,148 @@ export class IrregularExpression extends EventTarget {
      * console.log(result); // "The dog sat on the mat."
      * ```
      */
-    replace(input: string, replacement: string | ((match: string, ...args: any[]) => string)): string {
+    replace(
+        input: string,
+        replacement: string | ReplaceCallback<Named, Captures>,
+        options: ReplaceOptions = {},
+    ): string {
+        const limit = this.replaceLimit(options, this.flags.has('g'));
+        if (this.validators.length > 0 || limit !== null) {
+            const flags = Array.from(new Set(this.flags).add('g')).join('');
+            return this.replaceMatches(input, [...this.exec('replace', input, flags, limit)], replacement);
+        }
         const regex = this.build();
-        return input.replace(regex, replacement as any);
+        const { captures, groupCount } = lowerAtomic(this.toAST());
+        if (typeof replacement === 'string') {
+            return input.replace(regex, captures.length === groupCount ? replacement : this.renumberReplacement(replacement, captures));
+        }
+        const callback = replacement as (match: string, ...args: unknown[]) => string;
+        return input.replace(regex, captures.length === groupCount ? callback : this.hideHelperArguments(callback, captures, groupCount));
+    }
+
+    /**
+     * Replaces matches like `replace()`, but calls the callback with each
+     * match as `execute()` returns it, so named groups are read from its
+     * typed `groups` rather than counted out of the arguments.
+     *
+     * @param input The input string.
+     * @param callback Gives the text to put in place of a match.
+     * @param options The most matches to replace.
+     * @returns The resulting string after replacement.
+     * @throws {RangeError} If `limit` is not a non-negative integer.
+     *
+     * @example
+     * ```typescript
+     * const date = IrregularExpression.match()
+     *   .namedCapture("year", group => group.digit().exactly(4))
+     *   .literal("-")
+     *   .namedCapture("month", group => group.digit().exactly(2));
+     *
+     * const result = date.replaceEach("2024-05, 2025-01", match => `${match.groups.month}/${match.groups.year}`, { limit: 1 });
+     * console.log(result); // "05/2024, 2025-01"
+     * ```
+     */
+    replaceEach(input: string, callback: (match: CaptureMatch<Named, Captures>) => string, options: ReplaceOptions = {}): string {
+        const flags = Array.from(new Set(this.flags).add('g')).join('');
+        const matches = [...this.exec('replaceEach', input, flags, this.replaceLimit(options, this.flags.has('g')))];
+        return spliceMatches(input, matches, match => callback(withMatchTypes<Named, Captures>([match])[0]));
+    }
+
+    /**
+     * Builds a replacement string for `replace()` and `replaceAsync()` piece
+     * by piece. Text added with `text()` is escaped, so a `$` in it is
+     * inserted as it is, and `group()` only accepts the pattern's own groups.
+     *
+     * @param build Adds the pieces to the builder it is given.
+     * @returns The replacement string.
+     *
+     * @example
+     * ```typescript
+     * const date = IrregularExpression.match()
+     *   .namedCapture("year", group => group.digit().exactly(4))
+     *   .literal("-")
+     *   .capture(group => group.digit().exactly(2));
+     *
+     * const replacement = date.replacement(r => r.text("[").group("year").text("] $").group(2));
+     * console.log(replacement); // "[$<year>] $$$02"
+     * console.log(date.replace("2024-05", replacement)); // "[2024] $05"
+     * ```
+     */
+    replacement(build: (template: ReplacementBuilder<Named, CaptureNumber<Captures>>) => unknown): string {
+        const template = new ReplacementBuilder<Named, CaptureNumber<Captures>>();
+        build(template);
+        return template.toString();
+    }
+
+    /**
+     * Replaces matches in the input string like `replace()`, but finds them in
+     * a Worker so a slow match cannot block the event loop. A replacement
+     * callback runs on the calling thread, once the matches are found, and may
+     * return a promise: the callbacks for all matches run concurrently, and
+     * their results are put in place once every one has settled.
+     *
+     * @param input The input string.
+     * @param replacement The replacement string, e.g. one made with
+     * `replacement()`, or a function.
+     * @param options The time limit, abort signal and most matches to replace.
+     * @returns The resulting string after replacement.
+     * @throws {MatchTimeoutError} If the match runs longer than `timeoutMs`.
+     * @throws {RangeError} If `limit` is not a non-negative integer.
+     *
+     * @example
+     * ```typescript
+     * const result = await IrregularExpression.match()
+     *   .literal("cat")
+     *   .replaceAsync("The cat sat on the mat.", "dog", { timeoutMs: 50 });
+     *
+     * console.log(result); // "The dog sat on the mat."
+     *
+     * const lookup = async (user: string) => user === "bob" ? "Robert" : "[redacted]";
+     * const redacted = await IrregularExpression.match()
+     *   .namedCapture("user", group => group.wordCharacter().oneOrMore())
+     *   .replaceAsync("alice, bob", (_match, _user, _offset, _input, groups) => lookup(groups.user));
+     *
+     * console.log(redacted); // "[redacted], Robert"
+     * ```
+     */
+    async replaceAsync(
+        input: string,
+        replacement: string | AsyncReplaceCallback<Named, Captures>,
+        options: AsyncMatchOptions & ReplaceOptions = {},
+    ): Promise<string> {
+        const global = this.flags.has('g');
+        const limit = this.replaceLimit(options, global);
+        if (typeof replacement === 'string' && this.validators.length === 0 && limit === null) {
+            const regex = this.build();
+            const { captures, groupCount } = lowerAtomic(this.toAST());
+            return workerPool.run({
+                op: 'replace',
+                source: regex.source,
+                flags: regex.flags,
+                input,
+                replacement: captures.length === groupCount ? replacement : this.renumberReplacement(replacement, captures),
+            }, options);
+        }
+        const matches = await this.execInWorker('replaceAsync', input, limit, options);
+        if (typeof replacement === 'string') return this.replaceMatches(input, matches, replacement);
+        const callback = replacement as (match: string, ...args: unknown[]) => string | Promise<string>;
+        const texts = await Promise.all(matches.map(match => callback(...this.replaceArguments(match, input))));
+        return spliceMatches(input, matches, (_match, index) => texts[index]);
+    }
+
+    /**
+     * Stops the Workers kept for `executeAsync()`, `testAsync()` and
+     * `replaceAsync()`. Idle Workers stop on their own after a second, so
+     * this is only needed to let the process exit sooner, or between tests.
+     *
+     * @example
+     * ```typescript
+     * await IrregularExpression.match().digit().testAsync("1");
+     * IrregularExpression.terminateWorkers();
+     * ```
+     */
+    static terminateWorkers(): void {
+        workerPool.terminate();
     }
 
     /**
@@ -1093,13 +2615,17 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("a")); // false
      * ```
      */
-    backreference(groupNumber: number): this {
+    backreference(groupNumber: CaptureNumber<Captures>): this {
         if (!Number.isInteger(groupNumber) || groupNumber < 1) {
-            this.emitError('backreference expects a positive integer representing the group number.');
+            this.emitError(new InvalidArgumentError('backreference expects a positive integer representing the group number.', {
+                code: 'invalid-group-reference',
+                method: 'backreference',
+                argument: groupNumber,
+                offset: this.patternEnd(),
+            }));
             return this;
         }
-        this.pattern += `\\${groupNumber}`;
-        return this;
+        return this.append({ type: 'backreference', ref: groupNumber });
     }
 
     /**
@@ -1122,33 +2648,762 @@ export class IrregularExpression extends EventTarget {
      * console.log(regex.test("helloworld")); // false
      * ```
      */
-    namedBackreference(groupName: string): this {
+    namedBackreference(groupName: Named): this {
         if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(groupName)) {
-            this.emitError('namedBackreference expects a valid group name consisting of letters, numbers, and underscores, not starting with a number.');
+            this.emitError(
+                new InvalidArgumentError(
+                    'namedBackreference expects a valid group name consisting of letters, numbers, and underscores, not starting with a number.',
+                    { code: 'invalid-group-reference', method: 'namedBackreference', argument: groupName, offset: this.patternEnd() },
+                ),
+            );
             return this;
         }
-        this.pattern += `\\k<${groupName}>`;
+        return this.append({ type: 'backreference', ref: groupName });
+    }
+
+    /**
+     * Makes `ref()` refer to the fragments of a library. Group callbacks'
+     * builders use the same library.
+     *
+     * @param library The library to look fragments up in.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const library = new PatternLibrary();
+     * library.define("hex", () => library.match().charClass(c => c.range("0", "9").range("a", "f")));
+     * const color = IrregularExpression.from("#").withLibrary(library).ref("hex").exactly(6);
+     *
+     * console.log(color.getPattern()); // "#(?:[0-9a-f]){6}"
+     * ```
+     */
+    withLibrary(library: PatternLibrary): this {
+        this.library = library;
         return this;
     }
 
     /**
-     * Emits an error event with the provided message.
-     * 
-     * @param message The error message to dispatch.
+     * Inserts a fragment defined in the builder's library (see
+     * {@link PatternLibrary}) as a non-capturing group, so a quantifier after
+     * it repeats all of it. The reference is kept rather than the fragment's
+     * pattern, so the fragment may be defined later; it is expanded whenever
+     * the pattern is read. `build()` reports a reference to an undefined
+     * fragment, fragments that refer to each other in a cycle, or a fragment
+     * built with an `i`, `m`, `s`, `u` or `v` flag this builder lacks, as a
+     * `FragmentReferenceError` and returns a regex that matches nothing.
+     *
+     * @param name The fragment's name.
+     * @param args The arguments to pass to the fragment.
+     * @returns The current instance for chaining.
+     *
+     * @example
+     * ```typescript
+     * const library = new PatternLibrary();
+     * library
+     *   .define("octet", () => library.match().digit().between(1, 3))
+     *   .define("sep", (char: string) => library.match().literal(char));
+     *
+     * const date = library.match().ref("octet").ref("sep", "-").ref("octet");
+     * console.log(date.getPattern()); // "(?:\\d{1,3})(?:-)(?:\\d{1,3})"
+     * ```
      */
-    private emitError(message: string): void {
-        const event = new CustomEvent('error', { detail: message });
+    ref(name: string, ...args: unknown[]): this {
+        if (!this.library) {
+            this.emitError(new FragmentReferenceError(`ref('${name}') needs a builder made by PatternLibrary.match() or given one with withLibrary().`, {
+                code: 'undefined-reference',
+                method: 'ref',
+                argument: name,
+                offset: this.patternEnd(),
+            }));
+            return this;
+        }
+        const placeholder: PatternNode = { type: 'group', capturing: false, body: sequence([]) };
+        REFERENCES.set(placeholder, { library: this.library, name, args });
+        return this.append(placeholder);
+    }
+
+    /**
+     * Emits a warning event carrying the provided finding.
+     *
+     * @param finding The problem found in the pattern.
+     */
+    private emitWarning(finding: ReDoSFinding): void {
+        const event = new CustomEvent('warning', { detail: finding });
         this.dispatchEvent(event);
     }
 
     /**
-     * Helper method to escape regex special characters in literals.
-     * 
-     * @param text The text to escape.
-     * @returns The escaped text.
+     * Reports an error: emits an error event carrying it, records it for
+     * `diagnostics()` (in the outermost builder, for a group callback's
+     * builder), and throws it in strict mode.
+     *
+     * @param error The error to report.
+     */
+    private emitError(error: IrregularExpressionError): void {
+        const event = new CustomEvent('error', { detail: error });
+        this.dispatchEvent(event);
+        if (this.forwardError) return this.forwardError(error);
+        this.problems.push(error);
+        if (this.strictMode) throw error;
+    }
+
+    /**
+     * The length of the pattern so far, which is where a failed call would
+     * have added to it.
+     *
+     * @returns The offset for the error.
+     */
+    private patternEnd(): number {
+        // Not getPattern(), which would report a pending quantifier while another error is being reported
+        return generate(this.toAST(), Array.from(this.flags).join('')).length;
+    }
+
+    /**
+     * Gets the pattern with the placeholders `ref()` added still in it.
+     *
+     * @returns The root node of the pattern.
+     */
+    private unexpanded(): PatternNode {
+        return alternation(this.branches.map(sequence));
+    }
+
+    /**
+     * Replaces the placeholders `ref()` added with the fragments they refer
+     * to, and the fragments' own references in turn. Nodes without
+     * placeholders under them are returned as they are.
+     *
+     * @param node The pattern to expand.
+     * @param flags The flags of the builder the pattern is built with.
+     * @param onError Receives an error for each reference to an undefined
+     * fragment or in a cycle, which becomes `(?!)` so it cannot match, and
+     * for each fragment that needs a flag `flags` lacks.
+     * @param active The references being expanded, outermost first, to detect cycles.
+     * @returns The expanded pattern.
+     */
+    private static expand(
+        node: PatternNode,
+        flags: ReadonlySet<string>,
+        onError: (error: FragmentReferenceError) => void,
+        active: FragmentReference[] = [],
+    ): PatternNode {
+        const reference = REFERENCES.get(node);
+        if (reference) return IrregularExpression.expandReference(reference, flags, onError, active);
+        const expand = (child: PatternNode) => IrregularExpression.expand(child, flags, onError, active);
+        // A rebuilt node still stands for the original, which `validate()` checks may be scoped to
+        const rebuilt = (copy: PatternNode) => {
+            EXPANDED.set(copy, node);
+            return copy;
+        };
+        switch (node.type) {
+            case 'group': {
+                const body = expand(node.body);
+                return body === node.body ? node : rebuilt({ ...node, body });
+            }
+            case 'quantifier': {
+                const body = expand(node.body);
+                return body === node.body ? node : rebuilt({ ...node, body });
+            }
+            case 'assertion': {
+                if (node.kind !== 'lookahead' && node.kind !== 'lookbehind') return node;
+                const body = expand(node.body);
+                return body === node.body ? node : rebuilt({ ...node, body });
+            }
+            case 'alternation': {
+                const alternatives = node.alternatives.map(expand);
+                return alternatives.every((alternative, i) => alternative === node.alternatives[i]) ? node : rebuilt({ ...node, alternatives });
+            }
+            case 'sequence': {
+                const elements = node.elements.map(expand);
+                return elements.every((element, i) => element === node.elements[i]) ? node : rebuilt(sequence(elements));
+            }
+            default:
+                return node;
+        }
+    }
+
+    /**
+     * Builds the fragment a placeholder refers to, as a non-capturing group.
+     *
+     * @param reference The fragment's library, name and arguments.
+     * @param flags The flags of the builder the pattern is built with.
+     * @param onError Receives an error if the fragment is undefined, already being expanded, or needs a flag `flags` lacks.
+     * @param active The references being expanded, outermost first.
+     * @returns The fragment's pattern, or `(?!)` if it is undefined or in a cycle.
+     */
+    private static expandReference(
+        reference: FragmentReference,
+        flags: ReadonlySet<string>,
+        onError: (error: FragmentReferenceError) => void,
+        active: FragmentReference[],
+    ): PatternNode {
+        const { library, name, args } = reference;
+        if (active.some(outer => outer.library === library && outer.name === name)) {
+            const cycle = [...active.slice(active.findIndex(outer => outer.library === library && outer.name === name)), reference];
+            onError(new FragmentReferenceError(`ref: fragments refer to each other in a cycle: ${cycle.map(entry => entry.name).join(' -> ')}.`, {
+                code: 'reference-cycle',
+                method: 'ref',
+                argument: name,
+            }));
+            return { type: 'assertion', kind: 'lookahead', negated: true, body: sequence([]) };
+        }
+        const fragment = library.get(name);
+        if (!fragment) {
+            onError(new FragmentReferenceError(`ref: '${name}' is not defined in the library.`, {
+                code: 'undefined-reference',
+                method: 'ref',
+                argument: name,
+            }));
+            return { type: 'assertion', kind: 'lookahead', negated: true, body: sequence([]) };
+        }
+        const built = fragment(...args);
+        // Flags that change what the fragment matches; 'v' includes 'u'
+        const missing = [...built.flags].filter(flag => 'imsuv'.includes(flag) && !flags.has(flag) && !(flag === 'u' && flags.has('v')));
+        if (missing.length > 0) {
+            onError(new FragmentReferenceError(
+                `ref: '${name}' needs the ${missing.join(', ')} flag${missing.length > 1 ? 's' : ''}, which the builder referring to it does not have.`,
+                { code: 'missing-flags', method: 'ref', argument: name },
+            ));
+        }
+        const body = IrregularExpression.expand(built.unexpanded(), flags, onError, [...active, reference]);
+        return { type: 'group', capturing: false, body };
+    }
+
+    /**
+     * Copies the builder's state. Only the last alternative is ever changed in
+     * place, so the others are shared, and nodes are never changed in place.
+     *
+     * @returns The copy, mutable whatever the mode of this builder.
+     */
+    private copy(): IrregularExpression<Named, Captures> {
+        const copy = new IrregularExpression<Named, Captures>();
+        copy.branches = [...this.branches.slice(0, -1), [...this.branches[this.branches.length - 1]]];
+        copy.flags = new Set(this.flags);
+        copy.maxRun = this.maxRun;
+        copy.quantifierPlacement = this.quantifierPlacement;
+        copy.pendingQuantifier = this.pendingQuantifier && { ...this.pendingQuantifier };
+        copy.redosCheck = this.redosCheck;
+        copy.validators = [...this.validators];
+        copy.strictMode = this.strictMode;
+        copy.problems = [...this.problems];
+        copy.forwardError = this.forwardError;
+        copy.immutableMode = this.immutableMode;
+        copy.library = this.library;
+        return copy;
+    }
+
+    /**
+     * Wraps a builder so that each method call runs on a copy of it. A call
+     * that returns the copy returns it wrapped in turn; any other result, such
+     * as that of `build()`, is returned as is, and the errors the call
+     * reported are added to the builder's `diagnostics()`. Events the copy
+     * dispatches during the call are dispatched on the builder as well.
+     *
+     * @param builder The builder to wrap, which must not be changed afterwards.
+     * @returns The immutable view.
+     */
+    private static immutableView<N extends string, C extends string[]>(builder: IrregularExpression<N, C>): IrregularExpression<N, C> {
+        return new Proxy(builder, {
+            get(target, property) {
+                const value = Reflect.get(target, property);
+                if (typeof value !== 'function') return value;
+                if (typeof property !== 'string' || property === 'constructor' || EVENT_METHODS.has(property)) return value.bind(target);
+                return (...args: unknown[]) => {
+                    const next = target.copy();
+                    const reported = next.problems.length;
+                    const forward = (event: Event) => {
+                        target.dispatchEvent(new CustomEvent(event.type, { detail: (event as CustomEvent).detail }));
+                    };
+                    EVENT_TYPES.forEach(type => next.addEventListener(type, forward));
+                    let result: unknown = undefined;
+                    try {
+                        result = value.apply(next, args);
+                    } finally {
+                        EVENT_TYPES.forEach(type => next.removeEventListener(type, forward));
+                        // The copy keeps the errors of a call that derives it; those of any other call belong to the builder
+                        if (result !== next) target.problems.push(...next.problems.slice(reported));
+                    }
+                    return result === next ? IrregularExpression.immutableView(next) : result;
+                };
+            },
+        });
+    }
+
+    /**
+     * Runs a group or alternative callback on a new builder and returns what
+     * it built. The new builder reports its errors through this one, so they
+     * reach its listeners, its `diagnostics()` and, in strict mode, the caller.
+     *
+     * @param callback The callback to run.
+     * @returns The pattern the callback built.
+     */
+    private groupBody(callback: (group: IrregularExpression<Named, Captures>) => unknown): PatternNode {
+        const builder = new IrregularExpression<Named, Captures>();
+        builder.forwardError = error => this.emitError(error);
+        builder.library = this.library;
+        callback(builder);
+        builder.dropPendingQuantifier();
+        const body = builder.unexpanded();
+        this.validators.push(...builder.validators.map(({ check, scope }) => ({ check, scope: scope ?? body })));
+        return body;
+    }
+
+    /**
+     * Finds matches in a stream of text, such as a large file, without
+     * holding all of it in memory. Matches come out as they are found, like
+     * those of `matchAll()`, with offsets, lines and columns counted from the
+     * start of the stream; a match split across chunks is found whole.
+     *
+     * Only the text a match could still need is kept between chunks. For
+     * patterns without a maximum length, such as `\d+`, that is at most
+     * `window` characters, and a match that reaches the window throws, as
+     * does a window's worth of text that a match may still be under way in.
+     *
+     * @param readable The text, or its UTF-8 bytes.
+     * @param options The window size.
+     * @returns The matches, in order, up to the limit set with `runTimes()`.
+     * @throws {RangeError} From the iterator, if a match reaches the window or may be under way across it.
+     *
+     * @example
+     * ```typescript
+     * const errors = IrregularExpression.match()
+     *   .literal("[ERROR] ")
+     *   .capture(group => group.noneOf("\n").oneOrMore());
+     *
+     * using file = await Deno.open("app.log");
+     * for await (const match of errors.matchStream(file.readable)) {
+     *   console.log(match.line, match.captures[0]);
+     * }
+     * ```
+     */
+    matchStream(
+        readable: ReadableStream<string | Uint8Array>,
+        options: StreamOptions = {},
+    ): AsyncGenerator<MatchResult<Named, Captures>, void> {
+        const window = options.window ?? DEFAULT_WINDOW;
+        const flags = Array.from(new Set(this.flags).add('d').add('g')).join('');
+        const { regex, captures, groupCount, scoped } = this.matcher('matchStream', flags);
+        const extent = matchExtent(this.toAST(), regex.unicode || regex.unicodeSets);
+        const prepare = (match: RegExpExecArray) => {
+            if (!this.accepts(match, scoped)) return null;
+            return captures.length === groupCount ? match : this.hideHelperGroups(match, captures);
+        };
+        const partial = partialMatcher(this.toAST(), flags);
+        return streamMatches<Named, Captures>(regex, extent, partial, readable, window, this.maxRun, prepare);
+    }
+
+    /**
+     * Runs the pattern over the input with the given flags, which must include
+     * 'g', yielding each match that passes the `validate()` checks, up to
+     * `limit`. An empty match moves the search on by one character so it
+     * cannot repeat forever.
+     *
+     * @param method The method searching, for any error.
+     * @param input The string to search.
+     * @param flags The flags to compile the pattern with.
+     * @param limit The most matches to yield, or null for all of them.
+     * @returns The matches, with atomic-group helpers hidden.
+     */
+    private *exec(method: string, input: string, flags: string, limit = this.maxRun): Generator<RegExpExecArray, void> {
+        const { regex, captures, groupCount, scoped } = this.matcher(method, flags);
+        const unicode = flags.includes('u') || flags.includes('v');
+        let found = 0;
+        let match: RegExpExecArray | null;
+        while ((limit === null || found < limit) && (match = regex.exec(input)) !== null) {
+            if (match[0] === '') {
+                const next = unicode ? input.codePointAt(regex.lastIndex) ?? 0 : 0;
+                regex.lastIndex += next > 0xffff ? 2 : 1;
+            }
+            if (!this.accepts(match, scoped)) continue;
+            found++;
+            yield captures.length === groupCount ? match : this.hideHelperGroups(match, captures);
+        }
+    }
+
+    /**
+     * Finds matches in a Worker, as `exec()` does on the calling thread.
+     *
+     * @param method The method searching, for any error.
+     * @param input The string to search.
+     * @param limit The most matches to find, or null for all of them.
+     * @param options The time limit and abort signal.
+     * @returns The matches, with atomic-group helpers hidden.
+     */
+    private async execInWorker(method: string, input: string, limit: number | null, options: AsyncMatchOptions): Promise<RegExpExecArray[]> {
+        const { regex, captures, groupCount, scoped } = this.matcher(method, Array.from(new Set(this.flags).add('g')).join(''));
+        // Matches that fail a check do not count towards the limit, so the Worker cannot apply it
+        const workerLimit = this.validators.length > 0 ? null : limit;
+        const matches = await workerPool.run({ op: 'exec', source: regex.source, flags: regex.flags, input, limit: workerLimit }, options);
+        const accepted = matches
+            .map(serialized => this.reviveMatch(serialized, input))
+            .filter(match => this.accepts(match, scoped))
+            .slice(0, limit ?? undefined);
+        return accepted.map(match => captures.length === groupCount ? match : this.hideHelperGroups(match, captures));
+    }
+
+    /**
+     * Expands the pattern as `toAST()` does, reporting each reference that
+     * cannot be resolved, for the methods that compile the pattern.
+     *
+     * @returns The pattern, and whether any reference failed.
+     */
+    private resolve(): { node: PatternNode; failed: boolean } {
+        let failed = false;
+        const node = IrregularExpression.expand(this.unexpanded(), this.flags, error => {
+            failed = true;
+            this.emitError(error);
+        });
+        return { node, failed };
+    }
+
+    /**
+     * Compiles the pattern for the builder's own matching: atomic groups are
+     * emulated as in `build()`, and each part of the pattern a `validate()`
+     * check is scoped to is wrapped in a hidden capture group, so the check
+     * can read the text that part matched. A pattern with a reference that
+     * cannot be resolved, a quantifier left with nothing to repeat, or a
+     * pattern the regex engine rejects compiles to a regex that matches
+     * nothing.
+     *
+     * @param method The method matching, for any error.
+     * @param flags The flags to compile the pattern with.
+     * @param resolved The pattern, when the caller has already resolved and reported it.
+     * @returns The regex, with where its groups are.
+     */
+    private matcher(method: string, flags: string, resolved?: PatternNode): Matcher {
+        const dangling = this.dropPendingQuantifier();
+        const { node: ast, failed } = resolved ? { node: resolved, failed: dangling } : this.resolve();
+        const scopes = new Set(this.validators.map(validator => validator.scope));
+        const origin = (node: PatternNode) => EXPANDED.get(node) ?? node;
+        const hidden = (node: PatternNode) => scopes.has(origin(node));
+        const { captures, groupCount, hidden: groups } = lowerAtomic(ast, undefined, hidden);
+        const scoped = new Map<PatternNode, number[]>();
+        for (const [node, numbers] of groups) scoped.set(origin(node), [...scoped.get(origin(node)) ?? [], ...numbers]);
+        const regex = failed || dangling
+            ? new RegExp('(?!)', flags)
+            : this.compile(generate(ast, flags, hidden), flags, method, generate(ast, flags));
+        return { regex, captures, groupCount, scoped };
+    }
+
+    /**
+     * Whether a match passes every check added with `validate()`. A scoped
+     * check receives the text of its part of the pattern wherever that part
+     * took part in the match; inside a quantifier, that is its last repetition.
+     *
+     * @param match The raw match, with the hidden groups of `matcher()`.
+     * @param scoped The hidden group numbers of each scope.
+     * @returns True if the match should be kept.
+     */
+    private accepts(match: RegExpExecArray, scoped: Map<PatternNode, number[]>): boolean {
+        return this.validators.every(({ check, scope }) => {
+            if (scope === null) return check(match[0]);
+            return (scoped.get(scope) ?? []).every(group => match[group] === undefined || check(match[group]));
+        });
+    }
+
+    /**
+     * Whether text the whole pattern matches passes every `validate()`
+     * check, for the samples `generate()` and `generateNonMatching()` make.
+     *
+     * @param method The method making the samples, for any error.
+     * @param text The text.
+     * @param ast The pattern, already resolved.
+     * @returns True if the text passes, or there are no checks.
+     */
+    private acceptsWhole(method: string, text: string, ast: PatternNode): boolean {
+        if (this.validators.length === 0) return true;
+        const { regex, scoped } = this.matcher(method, Array.from(new Set(this.flags).add('y')).join(''), ast);
+        const match = new RegExp(`(?:${regex.source})(?![^])`, regex.flags).exec(text);
+        return match !== null && this.accepts(match, scoped);
+    }
+
+    /**
+     * Replaces the given matches, which were found by the builder rather than
+     * by `String.prototype.replace()`.
+     *
+     * @param input The string the matches were found in.
+     * @param matches The matches, with atomic-group helpers hidden.
+     * @param replacement The replacement string or function.
+     * @returns The resulting string after replacement.
+     */
+    private replaceMatches(
+        input: string,
+        matches: RegExpExecArray[],
+        replacement: string | ReplaceCallback<Named, Captures>,
+    ): string {
+        if (typeof replacement === 'string') {
+            return spliceMatches(input, matches, match => expandReplacement(replacement, match));
+        }
+        const callback = replacement as (match: string, ...args: unknown[]) => string;
+        return spliceMatches(input, matches, match => callback(...this.replaceArguments(match, input)));
+    }
+
+    /**
+     * Lists the arguments `String.prototype.replace()` would pass a
+     * replacement callback for a match.
+     *
+     * @param match The match, with atomic-group helpers hidden.
+     * @param input The string the match was found in.
+     * @returns The match, each capture group, the offset, the input and the named groups if there are any.
      */
-    private escapeRegExp(text: string): string {
-        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    private replaceArguments(match: RegExpExecArray, input: string): [string, ...unknown[]] {
+        const groups = match.groups ? [match.groups] : [];
+        return [match[0], ...match.slice(1), match.index, input, ...groups];
+    }
+
+    /**
+     * Works out how many matches a replacing method may replace.
+     *
+     * @param options The options given to the method.
+     * @param global Whether the pattern has the `g` flag; without it only the first match is replaced.
+     * @returns The smallest of `limit`, the `runTimes()` limit and, without `global`, one; or null if none applies.
+     * @throws {RangeError} If `limit` is not a non-negative integer.
+     */
+    private replaceLimit({ limit }: ReplaceOptions, global: boolean): number | null {
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+            throw new RangeError(`replace: limit must be a non-negative integer, got ${limit}.`);
+        }
+        const limits = [this.maxRun, limit ?? null, global ? null : 1].filter((n): n is number => n !== null);
+        return limits.length > 0 ? Math.min(...limits) : null;
+    }
+
+    /**
+     * Rebuilds a match sent back from a Worker.
+     *
+     * @param serialized The match as the Worker sent it.
+     * @param input The string that was searched.
+     * @returns The match array.
+     */
+    private reviveMatch(serialized: SerializedMatch, input: string): RegExpExecArray {
+        const match = Object.assign(serialized.values, { index: serialized.index, input, groups: serialized.groups });
+        if (serialized.indices) {
+            Object.assign(match, { indices: Object.assign(serialized.indices.values, { groups: serialized.indices.groups }) });
+        }
+        return match as RegExpExecArray;
+    }
+
+    /**
+     * Gives this builder the type of one with different capture groups, after
+     * a method has added some.
+     *
+     * @returns The current instance, retyped.
+     */
+    private retyped<N extends string, C extends string[]>(): IrregularExpression<N, C> {
+        return withCaptures<N, C>(this);
+    }
+
+    /**
+     * Appends a node to the current alternative, and turns on the 'u' flag
+     * if the node needs it (see {@link needsUnicode}).
+     *
+     * @param node The node to append.
+     * @returns The current instance for chaining.
+     */
+    private append(node: PatternNode): this {
+        if (!this.flags.has('u') && !this.flags.has('v') && needsUnicode(node)) this.unicode();
+        const branch = this.branches[this.branches.length - 1];
+        if (this.pendingQuantifier) {
+            const { method, min, max, mode } = this.pendingQuantifier;
+            this.pendingQuantifier = null;
+            if (isQuantifiable(node)) {
+                branch.push(quantifier(min, max, mode, node));
+                return this;
+            }
+            this.emitError(new QuantifierError(`${method} cannot repeat an anchor.`, {
+                code: 'unrepeatable-anchor',
+                method,
+                offset: this.patternEnd(),
+            }));
+        }
+        if (node.type === 'sequence') branch.push(...node.elements);
+        else branch.push(node);
+        return this;
+    }
+
+    /**
+     * Appends a Unicode property escape after checking that ECMAScript
+     * supports it, and turns on the 'u' flag it needs.
+     *
+     * @param method The name of the calling method, for error messages.
+     * @param name The property name.
+     * @param value The property value, if any.
+     * @param negated Whether to match characters without the property.
+     * @returns The current instance for chaining.
+     */
+    private property(method: string, name: string, value: string | undefined, negated: boolean): this {
+        if (!isUnicodeProperty(name, value)) {
+            const property = value === undefined ? name : `${name}=${value}`;
+            this.emitError(new InvalidArgumentError(`${method} expects a Unicode property supported by ECMAScript, got '${property}'.`, {
+                code: 'unsupported-property',
+                method,
+                argument: property,
+                offset: this.patternEnd(),
+            }));
+            return this;
+        }
+        this.unicode();
+        return this.append(value === undefined
+            ? { type: 'class', kind: 'property', name, negated }
+            : { type: 'class', kind: 'property', name, value, negated });
+    }
+
+    /**
+     * Reports and discards a prefix quantifier that never got an element to
+     * repeat, so that it cannot attach to something unrelated.
+     *
+     * @returns True if there was one.
+     */
+    private dropPendingQuantifier(): boolean {
+        if (!this.pendingQuantifier) return false;
+        const { method } = this.pendingQuantifier;
+        this.pendingQuantifier = null;
+        this.emitError(new QuantifierError(`${method} has nothing to repeat.`, {
+            code: 'nothing-to-repeat',
+            method,
+            offset: this.patternEnd(),
+        }));
+        return true;
+    }
+
+    /**
+     * Wraps the most recently appended element in a quantifier, or holds the
+     * quantifier for the next element when quantifiers are written first. A
+     * multi-character literal before a quantifier is split so that only its last
+     * character repeats, as it would in a hand-written pattern; one after a
+     * quantifier repeats as a whole.
+     *
+     * @param method The name of the calling method, for error messages.
+     * @param min The minimum number of repetitions.
+     * @param max The maximum number of repetitions, or null for unbounded.
+     * @param mode How the repetitions backtrack.
+     * @returns The current instance for chaining.
+     */
+    private quantify(method: string, min: number, max: number | null, mode: QuantifierMode): this {
+        if (!QUANTIFIER_MODES.includes(mode)) {
+            this.emitError(new InvalidArgumentError(`${method} expects a mode of 'greedy', 'lazy' or 'possessive'.`, {
+                code: 'invalid-mode',
+                method,
+                argument: mode,
+                offset: this.patternEnd(),
+            }));
+            return this;
+        }
+        if (this.pendingQuantifier) {
+            this.emitError(new QuantifierError(`${method} cannot follow ${this.pendingQuantifier.method}, which has nothing to repeat yet.`, {
+                code: 'stacked-quantifier',
+                method,
+                offset: this.patternEnd(),
+            }));
+            return this;
+        }
+        const branch = this.branches[this.branches.length - 1];
+        const last = branch[branch.length - 1];
+        const canRepeatLast = last !== undefined && isQuantifiable(last);
+        if (this.quantifierPlacement === 'prefix' || (this.quantifierPlacement === 'auto' && !canRepeatLast)) {
+            this.quantifierPlacement = 'prefix';
+            this.pendingQuantifier = { method, min, max, mode };
+            return this;
+        }
+        if (!canRepeatLast) {
+            this.emitError(new QuantifierError(`${method} has nothing to repeat.`, {
+                code: 'nothing-to-repeat',
+                method,
+                offset: this.patternEnd(),
+            }));
+            return this;
+        }
+        this.quantifierPlacement = 'postfix';
+        branch.pop();
+        if (last.type === 'literal' && last.value.length > 1) {
+            const chars = [...last.value];
+            const head = chars.slice(0, -1).join('');
+            if (head) branch.push({ type: 'literal', value: head });
+            branch.push(quantifier(min, max, mode, { type: 'literal', value: chars[chars.length - 1] }));
+        } else {
+            branch.push(quantifier(min, max, mode, last));
+        }
+        return this;
+    }
+
+    /**
+     * Rebuilds a match without the capture groups added to emulate atomic
+     * groups, so that `match[n]` is the pattern's own n-th group.
+     *
+     * @param match The raw match.
+     * @param captures The group number of each of the pattern's own groups.
+     * @returns The match with only the pattern's own groups.
+     */
+    private hideHelperGroups(match: RegExpExecArray, captures: number[]): RegExpExecArray {
+        const visible = Object.assign([match[0], ...captures.map(group => match[group])], {
+            index: match.index,
+            input: match.input,
+            groups: match.groups,
+        });
+        if (match.indices) {
+            const indices = match.indices;
+            Object.assign(visible, {
+                indices: Object.assign([indices[0], ...captures.map(group => indices[group])], { groups: indices.groups }),
+            });
+        }
+        return visible as RegExpExecArray;
+    }
+
+    /**
+     * Points `$n` references in a replacement string at the groups they meant
+     * before atomic-group emulation shifted the numbering.
+     *
+     * @param replacement The replacement string.
+     * @param captures The group number of each of the pattern's own groups.
+     * @returns The renumbered replacement string.
+     */
+    private renumberReplacement(replacement: string, captures: number[]): string {
+        return replacement.replace(/\$(\$|\d\d?)/g, (token, ref: string) => {
+            if (ref === '$') return token;
+            // Two digits, so a digit after the reference cannot extend the number
+            if (ref.length === 2 && Number(ref) >= 1 && Number(ref) <= captures.length) {
+                return `$${String(captures[Number(ref) - 1]).padStart(2, '0')}`;
+            }
+            const group = Number(ref[0]);
+            if (group < 1 || group > captures.length) return token;
+            return `$${String(captures[group - 1]).padStart(2, '0')}${ref.slice(1)}`;
+        });
+    }
+
+    /**
+     * Wraps a replacement callback so it receives only the pattern's own groups.
+     *
+     * @param replacement The replacement callback.
+     * @param captures The group number of each of the pattern's own groups.
+     * @param groupCount The total number of groups in the built regex.
+     * @returns The wrapped callback.
+     */
+    private hideHelperArguments(
+        replacement: (match: string, ...args: unknown[]) => string,
+        captures: number[],
+        groupCount: number,
+    ): (match: string, ...args: unknown[]) => string {
+        return (match, ...args) => replacement(match, ...captures.map(group => args[group - 1]), ...args.slice(groupCount));
+    }
+
+    /**
+     * Parses the characters given to `anyOf()` and friends into set members.
+     * A hyphen between two characters forms a range, so `"a-z"` keeps meaning
+     * the range it has always produced.
+     *
+     * @param chars The characters of the set.
+     * @returns The set members.
+     */
+    private parseMembers(chars: string): ClassMember[] {
+        const source = [...chars];
+        const members: ClassMember[] = [];
+        for (let i = 0; i < source.length; i++) {
+            if (source[i + 1] === '-' && i + 2 < source.length) {
+                members.push({ kind: 'range', from: source[i], to: source[i + 2] });
+                i += 2;
+            } else {
+                members.push({ kind: 'char', value: source[i] });
+            }
+        }
+        return members;
     }
 
     /**
@@ -1193,7 +3448,12 @@ export class IrregularExpression extends EventTarget {
      */
     runTimes(times: number): this {
         if (times < 0) {
-            this.emitError("runTimes expects a positive integer.");
+            this.emitError(new InvalidArgumentError('runTimes expects a positive integer.', {
+                code: 'invalid-count',
+                method: 'runTimes',
+                argument: times,
+                offset: this.patternEnd(),
+            }));
             return this;
         }
         this.maxRun = times;
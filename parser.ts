@@ -0,0 +1,658 @@
+/**
+ * Parses ECMAScript regular expression source into the pattern AST, so that
+ * existing regex literals can be brought into an {@link IrregularExpression}
+ * builder with `IrregularExpression.from()`.
+ *
+ * The parser follows the grammar of the `u` flag when `u` or `v` is set and
+ * the more lenient web-compatibility grammar (Annex B) otherwise. With `v`,
+ * classes may nest and use `&&` and `--`; `\q{...}` is not supported.
+ * Modifier groups such as `(?i:...)` are only accepted when they leave the
+ * pattern's flags as they are, since the AST has flags for the whole pattern.
+ *
+ * @module
+ */
+
+import {
+    alternation,
+    type AssertionNode,
+    type ClassEscape,
+    type ClassMember,
+    type CharacterSetNode,
+    type PatternNode,
+    sequence,
+    type SequenceNode,
+    type SetOperation,
+} from './ast.ts';
+
+/**
+ * Thrown when regex source cannot be parsed. The message and the `offset`
+ * property both point at the character where parsing failed.
+ */
+export class RegexParseError extends SyntaxError {
+    /** The zero-based offset into the source where the error was found */
+    readonly offset: number;
+
+    /** The source that failed to parse */
+    readonly source: string;
+
+    constructor(message: string, source: string, offset: number) {
+        super(`${message} at offset ${offset}`);
+        this.name = 'RegexParseError';
+        this.source = source;
+        this.offset = offset;
+    }
+}
+
+/** The flags a regex may carry, in the order `RegExp.prototype.flags` reports them. */
+const VALID_FLAGS = 'dgimsuvy';
+
+/**
+ * Checks a flag string the way the `RegExp` constructor does.
+ *
+ * @param flags The flags to check.
+ * @throws {SyntaxError} If a flag is unknown or repeated, or both `u` and `v` are set.
+ */
+export function validateFlags(flags: string): void {
+    const seen = new Set<string>();
+    for (const flag of flags) {
+        if (!VALID_FLAGS.includes(flag) || seen.has(flag)) {
+            throw new SyntaxError(`Invalid regular expression flags '${flags}'`);
+        }
+        seen.add(flag);
+    }
+    if (seen.has('u') && seen.has('v')) {
+        throw new SyntaxError(`Invalid regular expression flags '${flags}'`);
+    }
+}
+
+/** Capture groups that are not in the source but will be in the pattern, such as those of builders interpolated into a template. */
+export interface ExternalGroups {
+    count: number;
+    names: Iterable<string>;
+}
+
+/**
+ * Parses regex source into an AST.
+ *
+ * @param source The pattern source, without delimiters.
+ * @param flags The flags the pattern will be compiled with.
+ * @param external Groups that backreferences in the source may also refer to.
+ * @returns A `sequence` node, or an `alternation` of sequences.
+ * @throws {RegexParseError} If the source is not a valid pattern.
+ *
+ * @example
+ * ```typescript
+ * parse('\\d+');
+ * // { type: "sequence", elements: [{ type: "quantifier", min: 1, max: null, ... }] }
+ * ```
+ */
+export function parse(source: string, flags = '', external?: ExternalGroups): PatternNode {
+    validateFlags(flags);
+    return new Parser(source, flags.includes('u') || flags.includes('v'), flags.includes('v'), flags, external).parse();
+}
+
+const propertyCache = new Map<string, boolean>();
+
+/**
+ * Whether `\p{name}` or `\p{name=value}` is a property escape ECMAScript
+ * supports. The runtime's own regex engine is the reference, so the answer
+ * tracks the Unicode version it implements.
+ *
+ * @param name A property name such as `Script`, or a lone value such as `Lu`.
+ * @param value The property value, for properties that take one.
+ * @returns True if the property is supported.
+ */
+export function isUnicodeProperty(name: string, value?: string): boolean {
+    const body = value === undefined ? name : `${name}=${value}`;
+    if (!/^[A-Za-z_]+(=[A-Za-z0-9_]+)?$/.test(body)) return false;
+    let supported = propertyCache.get(body);
+    if (supported === undefined) {
+        try {
+            new RegExp(`\\p{${body}}`, 'u');
+            supported = true;
+        } catch {
+            supported = false;
+        }
+        propertyCache.set(body, supported);
+    }
+    return supported;
+}
+
+const SYNTAX_CHARACTERS = '^$\\.*+?()[]{}|/';
+
+/** Characters that must be escaped inside a `v`-flag class. */
+const CLASS_SET_SYNTAX_CHARACTERS = '()[]{}/-\\|';
+
+/** Characters that may not appear doubled inside a `v`-flag class, reserved for future operators. */
+const CLASS_SET_RESERVED_DOUBLES = '&!#$%*+,.:;<=>?@^`~';
+
+/** Punctuators that may be escaped inside a `v`-flag class besides the syntax characters. */
+const CLASS_SET_RESERVED_PUNCTUATORS = '&-!#%,:;<=>@`~';
+
+const CHARACTER_ESCAPES: Record<string, string> = { t: '\t', n: '\n', v: '\v', f: '\f', r: '\r' };
+
+/** A recursive-descent parser over one pattern source. */
+class Parser {
+    private pos = 0;
+    private readonly groupCount: number;
+    private readonly groupNames: Set<string>;
+    private readonly declaredNames = new Set<string>();
+
+    constructor(
+        private readonly source: string,
+        private readonly unicode: boolean,
+        private readonly unicodeSets: boolean = false,
+        private readonly flags: string = '',
+        external?: ExternalGroups,
+    ) {
+        const { count, names } = this.scanGroups();
+        this.groupCount = count + (external?.count ?? 0);
+        this.groupNames = new Set([...names, ...external?.names ?? []]);
+    }
+
+    parse(): PatternNode {
+        const node = this.parseDisjunction();
+        if (this.pos < this.source.length) this.fail("Unmatched ')'");
+        return node;
+    }
+
+    private parseDisjunction(): PatternNode {
+        const alternatives: PatternNode[] = [this.parseAlternative()];
+        while (this.eat('|')) alternatives.push(this.parseAlternative());
+        return alternation(alternatives);
+    }
+
+    private parseAlternative(): SequenceNode {
+        const elements: PatternNode[] = [];
+        while (!this.atEnd() && this.peek() !== '|' && this.peek() !== ')') {
+            const term = this.parseTerm();
+            const previous = elements[elements.length - 1];
+            if (term.type === 'literal' && previous?.type === 'literal') {
+                elements[elements.length - 1] = { type: 'literal', value: previous.value + term.value };
+            } else {
+                elements.push(term);
+            }
+        }
+        return sequence(elements);
+    }
+
+    private parseTerm(): PatternNode {
+        const atom = this.parseAtom();
+        const quantifierStart = this.pos;
+        const bounds = this.parseQuantifier();
+        if (!bounds) return atom;
+        if (!this.canRepeat(atom)) this.fail('Nothing to repeat', quantifierStart);
+        if (bounds.max !== null && bounds.min > bounds.max) {
+            this.fail('numbers out of order in {} quantifier', quantifierStart);
+        }
+        return { type: 'quantifier', ...bounds, body: atom };
+    }
+
+    private canRepeat(node: PatternNode): boolean {
+        if (node.type !== 'assertion') return true;
+        return node.kind === 'lookahead' && !this.unicode;
+    }
+
+    private parseAtom(): PatternNode {
+        const char = this.peek();
+        switch (char) {
+            case '^':
+                this.pos++;
+                return { type: 'assertion', kind: 'startOfLine' };
+            case '$':
+                this.pos++;
+                return { type: 'assertion', kind: 'endOfLine' };
+            case '.':
+                this.pos++;
+                return { type: 'class', kind: 'any' };
+            case '\\':
+                return this.parseAtomEscape();
+            case '(':
+                return this.parseGroup();
+            case '[':
+                return this.unicodeSets ? this.parseClassSet(this.pos++) : this.parseClass();
+            case '*':
+            case '+':
+            case '?':
+                return this.fail('Nothing to repeat');
+            case '{':
+                if (this.unicode) return this.fail('Lone quantifier brackets');
+                if (this.readBraces(this.pos)) return this.fail('Nothing to repeat');
+                this.pos++;
+                return { type: 'literal', value: '{' };
+            case '}':
+            case ']':
+                if (this.unicode) return this.fail('Lone quantifier brackets');
+                this.pos++;
+                return { type: 'literal', value: char };
+            default:
+                return { type: 'literal', value: this.readChar() };
+        }
+    }
+
+    private parseQuantifier(): { min: number; max: number | null; greedy: boolean } | null {
+        let min: number;
+        let max: number | null;
+        switch (this.peek()) {
+            case '*':
+                [min, max] = [0, null];
+                this.pos++;
+                break;
+            case '+':
+                [min, max] = [1, null];
+                this.pos++;
+                break;
+            case '?':
+                [min, max] = [0, 1];
+                this.pos++;
+                break;
+            case '{': {
+                const braces = this.readBraces(this.pos);
+                if (!braces) {
+                    if (this.unicode) this.fail('Incomplete quantifier');
+                    return null;
+                }
+                [min, max] = [braces.min, braces.max];
+                this.pos = braces.end;
+                break;
+            }
+            default:
+                return null;
+        }
+        return { min, max, greedy: !this.eat('?') };
+    }
+
+    /** Reads `{n}`, `{n,}` or `{n,m}` starting at `start`, without consuming it. */
+    private readBraces(start: number): { min: number; max: number | null; end: number } | null {
+        const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(start));
+        if (!match) return null;
+        const min = Number(match[1]);
+        const max = match[2] === undefined ? min : match[3] === '' ? null : Number(match[3]);
+        return { min, max, end: start + match[0].length };
+    }
+
+    private parseGroup(): PatternNode {
+        const start = this.pos;
+        this.pos++;
+        let node: (body: PatternNode) => PatternNode;
+        if (this.eat('?')) {
+            const modifiers = /^([a-zA-Z]*)(?:-([a-zA-Z]*))?:/.exec(this.source.slice(this.pos));
+            if (this.eat(':')) {
+                node = (body) => ({ type: 'group', capturing: false, body });
+            } else if (modifiers) {
+                this.checkModifiers(modifiers, start);
+                this.pos += modifiers[0].length;
+                node = (body) => ({ type: 'group', capturing: false, body });
+            } else if (this.peek() === '=' || this.peek() === '!') {
+                const negated = this.source[this.pos++] === '!';
+                node = (body) => ({ type: 'assertion', kind: 'lookahead', negated, body });
+            } else if (this.source.startsWith('<=', this.pos) || this.source.startsWith('<!', this.pos)) {
+                const negated = this.source[this.pos + 1] === '!';
+                this.pos += 2;
+                node = (body): AssertionNode => ({ type: 'assertion', kind: 'lookbehind', negated, body });
+            } else if (this.eat('<')) {
+                const nameStart = this.pos;
+                const name = this.readGroupName();
+                if (this.declaredNames.has(name)) this.fail('Duplicate capture group name', nameStart);
+                this.declaredNames.add(name);
+                node = (body) => ({ type: 'group', capturing: true, name, body });
+            } else {
+                return this.fail('Invalid group', start);
+            }
+        } else {
+            node = (body) => ({ type: 'group', capturing: true, body });
+        }
+        const body = this.parseDisjunction();
+        if (!this.eat(')')) this.fail('Unterminated group', start);
+        return node(body);
+    }
+
+    /**
+     * Checks the flags of a modifier group such as `(?i:...)` or `(?-m:...)`.
+     * The AST has no way to change flags part-way through a pattern, so only
+     * a group that leaves every flag as it is can be parsed, as a plain
+     * non-capturing group.
+     */
+    private checkModifiers(match: RegExpExecArray, start: number): void {
+        const [, on, off] = match;
+        const seen = new Set<string>();
+        for (const [index, flag] of Array.from(on + (off ?? '')).entries()) {
+            const offset = start + 2 + index + (index >= on.length ? 1 : 0);
+            if (!'ims'.includes(flag)) this.fail(`Invalid flag '${flag}' in modifier group`, offset);
+            if (seen.has(flag)) this.fail(`Repeated flag '${flag}' in modifier group`, offset);
+            seen.add(flag);
+        }
+        if (seen.size === 0) this.fail('Invalid modifier group', start);
+        const changes = [...on].some(flag => !this.flags.includes(flag)) || [...off ?? ''].some(flag => this.flags.includes(flag));
+        if (changes) this.fail('Modifier groups that change a flag, such as (?i:...), are not supported; set the flag on the whole pattern', start);
+    }
+
+    /** Reads `name>` after `(?<` or `\k<`. */
+    private readGroupName(): string {
+        const match = /^([$_\p{ID_Start}][$\u200C\u200D\p{ID_Continue}]*)>/u.exec(this.source.slice(this.pos));
+        if (!match) this.fail('Invalid capture group name');
+        this.pos += match[0].length;
+        return match[1];
+    }
+
+    private parseAtomEscape(): PatternNode {
+        const start = this.pos;
+        this.pos++;
+        if (this.atEnd()) this.fail('\\ at end of pattern', start);
+        const char = this.peek();
+        if (char === 'b' || char === 'B') {
+            this.pos++;
+            return { type: 'assertion', kind: char === 'b' ? 'wordBoundary' : 'nonWordBoundary' };
+        }
+        if ('dDwWsS'.includes(char)) {
+            this.pos++;
+            return { type: 'class', kind: 'escape', value: char as ClassEscape };
+        }
+        if ((char === 'p' || char === 'P') && this.unicode) {
+            return { type: 'class', kind: 'property', ...this.readProperty(start) };
+        }
+        if (char === 'k' && (this.unicode || this.groupNames.size > 0)) {
+            this.pos++;
+            if (!this.eat('<')) this.fail('Invalid named reference', start);
+            const name = this.readGroupName();
+            if (!this.groupNames.has(name)) this.fail('Invalid named capture referenced', start);
+            return { type: 'backreference', ref: name };
+        }
+        if (/[1-9]/.test(char)) {
+            const digits = /^\d+/.exec(this.source.slice(this.pos))![0];
+            const ref = Number(digits);
+            if (ref <= this.groupCount) {
+                this.pos += digits.length;
+                return { type: 'backreference', ref };
+            }
+            if (this.unicode) this.fail('Invalid escape', start);
+            return { type: 'literal', value: this.readLegacyOctal() };
+        }
+        if (char === '0' && /\d/.test(this.source[this.pos + 1] ?? '')) {
+            if (this.unicode) this.fail('Invalid decimal escape', start);
+            return { type: 'literal', value: this.readLegacyOctal() };
+        }
+        return { type: 'literal', value: this.readCharacterEscape(start, false) };
+    }
+
+    /**
+     * Reads a character escape after the backslash and returns the character
+     * it stands for.
+     */
+    private readCharacterEscape(start: number, inClass: boolean): string {
+        const char = this.peek();
+        if (CHARACTER_ESCAPES[char]) {
+            this.pos++;
+            return CHARACTER_ESCAPES[char];
+        }
+        if (char === '0') {
+            this.pos++;
+            return '\0';
+        }
+        if (char === 'c') {
+            const letter = this.source[this.pos + 1] ?? '';
+            if (/[A-Za-z]/.test(letter) || (inClass && !this.unicode && /[\d_]/.test(letter))) {
+                this.pos += 2;
+                return String.fromCharCode(letter.charCodeAt(0) % 32);
+            }
+            if (this.unicode) this.fail('Invalid unicode escape', start);
+            // Annex B: a lone `\c` matches the backslash itself
+            return '\\';
+        }
+        if (char === 'x') {
+            const hex = /^x([\da-fA-F]{2})/.exec(this.source.slice(this.pos));
+            if (hex) {
+                this.pos += 3;
+                return String.fromCharCode(parseInt(hex[1], 16));
+            }
+            if (this.unicode) this.fail('Invalid escape', start);
+            this.pos++;
+            return 'x';
+        }
+        if (char === 'u') {
+            const value = this.readUnicodeEscape();
+            if (value !== null) return value;
+            if (this.unicode) this.fail('Invalid Unicode escape', start);
+            this.pos++;
+            return 'u';
+        }
+        if (this.unicode) {
+            if (SYNTAX_CHARACTERS.includes(char) || (inClass && char === '-')) {
+                this.pos++;
+                return char;
+            }
+            this.fail('Invalid escape', start);
+        }
+        return this.readChar();
+    }
+
+    /** Reads `uHHHH`, a surrogate pair of them, or `u{H...}`; null if malformed. */
+    private readUnicodeEscape(): string | null {
+        const rest = this.source.slice(this.pos);
+        if (this.unicode) {
+            const braced = /^u\{([\da-fA-F]+)\}/.exec(rest);
+            if (braced) {
+                const codePoint = parseInt(braced[1], 16);
+                if (codePoint > 0x10ffff) this.fail('Invalid Unicode escape', this.pos - 1);
+                this.pos += braced[0].length;
+                return String.fromCodePoint(codePoint);
+            }
+            const pair = /^u(d[89ab][\da-f]{2})\\u(d[c-f][\da-f]{2})/i.exec(rest);
+            if (pair) {
+                this.pos += pair[0].length;
+                return String.fromCharCode(parseInt(pair[1], 16), parseInt(pair[2], 16));
+            }
+        }
+        const unit = /^u([\da-fA-F]{4})/.exec(rest);
+        if (!unit) return null;
+        this.pos += 5;
+        return String.fromCharCode(parseInt(unit[1], 16));
+    }
+
+    /** Annex B: `\8` and `\9` are identity escapes, other digits an octal escape up to `\377`. */
+    private readLegacyOctal(): string {
+        const octal = /^[0-3][0-7]{0,2}|^[4-7][0-7]?/.exec(this.source.slice(this.pos));
+        if (!octal) return this.readChar();
+        this.pos += octal[0].length;
+        return String.fromCharCode(parseInt(octal[0], 8));
+    }
+
+    /** Reads `p{Name}` or `P{Name=Value}` after the backslash at `start`. */
+    private readProperty(start: number): { name: string; value?: string; negated: boolean } {
+        const negated = this.peek() === 'P';
+        const match = /^[pP]\{([A-Za-z_]+)(?:=([A-Za-z0-9_]+))?\}/.exec(this.source.slice(this.pos));
+        if (!match || !isUnicodeProperty(match[1], match[2])) this.fail('Invalid property name', start);
+        this.pos += match[0].length;
+        return match[2] === undefined ? { name: match[1], negated } : { name: match[1], value: match[2], negated };
+    }
+
+    private parseClass(): PatternNode {
+        const start = this.pos;
+        this.pos++;
+        const negated = this.eat('^');
+        const members: ClassMember[] = [];
+        while (!this.eat(']')) {
+            if (this.atEnd()) this.fail('Unterminated character class', start);
+            const rangeStart = this.pos;
+            const from = this.parseClassAtom();
+            if (this.peek() !== '-' || this.source[this.pos + 1] === ']' || this.pos + 1 >= this.source.length) {
+                members.push(from);
+                continue;
+            }
+            this.pos++;
+            const to = this.parseClassAtom();
+            if (from.kind !== 'char' || to.kind !== 'char') {
+                if (this.unicode) this.fail('Invalid character class', rangeStart);
+                members.push(from, { kind: 'char', value: '-' }, to);
+                continue;
+            }
+            if (from.value.codePointAt(0)! > to.value.codePointAt(0)!) {
+                this.fail('Range out of order in character class', rangeStart);
+            }
+            members.push({ kind: 'range', from: from.value, to: to.value });
+        }
+        return { type: 'class', kind: 'set', negated, members };
+    }
+
+    private parseClassAtom(): ClassMember {
+        if (this.peek() !== '\\') return { kind: 'char', value: this.readChar() };
+        const start = this.pos;
+        this.pos++;
+        if (this.atEnd()) this.fail('\\ at end of pattern', start);
+        const char = this.peek();
+        if ('dDwWsS'.includes(char)) {
+            this.pos++;
+            return { kind: 'escape', value: char as ClassEscape };
+        }
+        if ((char === 'p' || char === 'P') && this.unicode) {
+            return { kind: 'property', ...this.readProperty(start) };
+        }
+        if (char === 'b') {
+            this.pos++;
+            return { kind: 'char', value: '\b' };
+        }
+        if (/\d/.test(char) && !(char === '0' && !/\d/.test(this.source[this.pos + 1] ?? ''))) {
+            if (this.unicode) this.fail('Invalid class escape', start);
+            return { kind: 'char', value: this.readLegacyOctal() };
+        }
+        if (char === '-' && !this.unicode) {
+            this.pos++;
+            return { kind: 'char', value: '-' };
+        }
+        return { kind: 'char', value: this.readCharacterEscape(start, true) };
+    }
+
+    /**
+     * Parses a `v`-flag class whose `[` is at `start`: a union of ranges and
+     * operands, or operands joined by only `&&` or only `--`.
+     */
+    private parseClassSet(start: number): CharacterSetNode {
+        const negated = this.eat('^');
+        const members: ClassMember[] = [];
+        if (this.eat(']')) return { type: 'class', kind: 'set', negated, members };
+        const operator = (): SetOperation['kind'] | null => {
+            if (this.source.startsWith('&&', this.pos)) return 'intersection';
+            if (this.source.startsWith('--', this.pos)) return 'subtraction';
+            return null;
+        };
+        const first = this.parseClassSetItem(start);
+        members.push(first);
+        const kind = operator();
+        if (kind === null) {
+            while (!this.eat(']')) {
+                if (this.atEnd()) this.fail('Unterminated character class', start);
+                if (operator() !== null) this.fail('Invalid set operation in character class');
+                members.push(this.parseClassSetItem(start));
+            }
+            return { type: 'class', kind: 'set', negated, members };
+        }
+        if (first.kind === 'range') this.fail('Invalid set operation in character class');
+        const operations: SetOperation[] = [];
+        while (!this.eat(']')) {
+            if (this.atEnd()) this.fail('Unterminated character class', start);
+            if (operator() !== kind) this.fail('Invalid set operation in character class');
+            this.pos += 2;
+            const operand = this.parseClassSetItem(start);
+            if (operand.kind === 'range') this.fail('Invalid set operation in character class');
+            operations.push({ kind, operand });
+        }
+        return { type: 'class', kind: 'set', negated, members, operations };
+    }
+
+    /** Reads a range or a single operand of a `v`-flag class. */
+    private parseClassSetItem(start: number): ClassMember {
+        if (this.atEnd()) this.fail('Unterminated character class', start);
+        const rangeStart = this.pos;
+        const from = this.parseClassSetOperand();
+        if (this.peek() !== '-' || this.source.startsWith('--', this.pos)) return from;
+        this.pos++;
+        if (this.atEnd()) this.fail('Unterminated character class', start);
+        const to = this.parseClassSetOperand();
+        if (from.kind !== 'char' || to.kind !== 'char') this.fail('Invalid character class', rangeStart);
+        if (from.value.codePointAt(0)! > to.value.codePointAt(0)!) {
+            this.fail('Range out of order in character class', rangeStart);
+        }
+        return { kind: 'range', from: from.value, to: to.value };
+    }
+
+    private parseClassSetOperand(): ClassMember {
+        const start = this.pos;
+        const char = this.peek();
+        if (char === '[') {
+            this.pos++;
+            return { kind: 'class', node: this.parseClassSet(start) };
+        }
+        if (char !== '\\') {
+            if (CLASS_SET_SYNTAX_CHARACTERS.includes(char)) this.fail('Invalid character in character class');
+            if (CLASS_SET_RESERVED_DOUBLES.includes(char) && this.source[this.pos + 1] === char) {
+                this.fail('Invalid set operation in character class');
+            }
+            return { kind: 'char', value: this.readChar() };
+        }
+        this.pos++;
+        if (this.atEnd()) this.fail('\\ at end of pattern', start);
+        const escape = this.peek();
+        if (escape === 'q') this.fail('\\q{...} string alternatives are not supported', start);
+        if (CLASS_SET_RESERVED_PUNCTUATORS.includes(escape)) {
+            this.pos++;
+            return { kind: 'char', value: escape };
+        }
+        this.pos = start;
+        return this.parseClassAtom();
+    }
+
+    /** Counts capturing groups and collects their names ahead of parsing, for backreferences. */
+    private scanGroups(): { count: number; names: Set<string> } {
+        const names = new Set<string>();
+        let count = 0;
+        // Classes only nest with the `v` flag
+        let classDepth = 0;
+        for (let i = 0; i < this.source.length; i++) {
+            const char = this.source[i];
+            if (char === '\\') {
+                i++;
+            } else if (classDepth > 0) {
+                if (char === ']') classDepth--;
+                else if (char === '[' && this.unicodeSets) classDepth++;
+            } else if (char === '[') {
+                classDepth = 1;
+            } else if (char === '(') {
+                if (this.source[i + 1] !== '?') {
+                    count++;
+                } else if (this.source[i + 2] === '<' && !'=!'.includes(this.source[i + 3])) {
+                    count++;
+                    const name = /^[^>]*/.exec(this.source.slice(i + 3))![0];
+                    names.add(name);
+                }
+            }
+        }
+        return { count, names };
+    }
+
+    /** Reads one character: a code point with the `u` flag, a code unit otherwise. */
+    private readChar(): string {
+        const char = this.unicode
+            ? String.fromCodePoint(this.source.codePointAt(this.pos)!)
+            : this.source[this.pos];
+        this.pos += char.length;
+        return char;
+    }
+
+    private peek(): string {
+        return this.source[this.pos] ?? '';
+    }
+
+    private eat(char: string): boolean {
+        if (this.peek() !== char) return false;
+        this.pos++;
+        return true;
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.source.length;
+    }
+
+    private fail(message: string, offset: number = this.pos): never {
+        throw new RegexParseError(`Invalid regular expression: ${message}`, this.source, offset);
+    }
+}
@@ -0,0 +1,252 @@
+/**
+ * A pool of Workers that run matches off the main thread, used by
+ * `IrregularExpression.executeAsync()`, `testAsync()` and `replaceAsync()`.
+ * A match that runs too long or is cancelled cannot be interrupted, so its
+ * Worker is terminated and replaced; Workers that finish are reused.
+ *
+ * @module
+ */
+
+/** Options for the async matching methods. */
+export interface AsyncMatchOptions {
+    /**
+     * How long the match may run, in milliseconds, once a Worker has picked
+     * it up. Time spent waiting for a free Worker does not count; use an
+     * `AbortSignal.timeout()` signal to bound that as well.
+     */
+    timeoutMs?: number;
+    /** Cancels the match; the promise rejects with the signal's reason */
+    signal?: AbortSignal;
+}
+
+/** Thrown when a match runs longer than its `timeoutMs`. */
+export class MatchTimeoutError extends Error {
+    /** The time limit that was exceeded, in milliseconds */
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`The match did not finish within ${timeoutMs} ms`);
+        this.name = 'MatchTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/** A match to run in a Worker. */
+export type WorkerTask =
+    | { op: 'test'; source: string; flags: string; input: string }
+    | { op: 'exec'; source: string; flags: string; input: string; limit: number | null }
+    | { op: 'replace'; source: string; flags: string; input: string; replacement: string };
+
+/** A match sent back from a Worker, since structured cloning drops the extra properties of a match array. */
+export interface SerializedMatch {
+    values: (string | undefined)[];
+    index: number;
+    groups?: Record<string, string>;
+    indices?: { values: ([number, number] | undefined)[]; groups?: Record<string, [number, number] | undefined> };
+}
+
+/** The result of each kind of {@link WorkerTask}. */
+export interface WorkerResults {
+    test: boolean;
+    exec: SerializedMatch[];
+    replace: string;
+}
+
+/** The most Workers kept at once. */
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency ?? 2) - 1));
+
+/** How long an idle Worker is kept before it is terminated, so it does not keep the process alive. */
+const IDLE_MS = 1000;
+
+/**
+ * The body of each Worker. It is turned into source with `toString()`, so it
+ * must not refer to anything outside itself.
+ */
+function matchWorker(): void {
+    const scope = globalThis as unknown as {
+        postMessage(message: unknown): void;
+        onmessage: ((event: MessageEvent<WorkerTask>) => void) | null;
+    };
+    const serialize = (match: RegExpExecArray): SerializedMatch => ({
+        values: Array.from(match),
+        index: match.index,
+        groups: match.groups,
+        indices: match.indices && { values: Array.from(match.indices), groups: match.indices.groups },
+    });
+    const run = (task: WorkerTask): boolean | string | SerializedMatch[] => {
+        const regex = new RegExp(task.source, task.flags);
+        if (task.op === 'test') return regex.test(task.input);
+        if (task.op === 'replace') return task.input.replace(regex, task.replacement);
+        const unicode = regex.unicode || regex.unicodeSets;
+        const matches: SerializedMatch[] = [];
+        let match: RegExpExecArray | null;
+        while ((task.limit === null || matches.length < task.limit) && (match = regex.exec(task.input)) !== null) {
+            if (match[0] === '') {
+                const next = unicode ? task.input.codePointAt(regex.lastIndex) ?? 0 : 0;
+                regex.lastIndex += next > 0xffff ? 2 : 1;
+            }
+            matches.push(serialize(match));
+        }
+        return matches;
+    };
+    scope.onmessage = event => {
+        try {
+            scope.postMessage({ result: run(event.data) });
+        } catch (error) {
+            scope.postMessage({ error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+    scope.postMessage({ ready: true });
+}
+
+/** The source Workers are started from. A `data:` URL needs no read or net permission. */
+const WORKER_URL = `data:text/javascript,${encodeURIComponent(`(${matchWorker})()`)}`;
+
+/** Handles events from a Worker that has no task, keeping a late error from reaching the main thread. */
+function ignore(event: Event): void {
+    event.preventDefault();
+}
+
+interface PooledWorker {
+    worker: Worker;
+    /** Terminates the Worker once it has been idle for {@link IDLE_MS} */
+    idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** Hands out Workers, starting new ones up to {@link POOL_SIZE} and queueing requests beyond that. */
+class WorkerPool {
+    private readonly idle: PooledWorker[] = [];
+    private readonly waiting: { take(pooled: PooledWorker): void; fail(error: unknown): void }[] = [];
+    private size = 0;
+
+    /**
+     * Runs a task in a Worker.
+     *
+     * @param task The match to run.
+     * @param options The time limit and abort signal.
+     * @returns The result of the task.
+     * @throws {MatchTimeoutError} If the task runs longer than `timeoutMs`.
+     */
+    async run<Op extends WorkerTask['op']>(
+        task: Extract<WorkerTask, { op: Op }>,
+        { timeoutMs, signal }: AsyncMatchOptions,
+    ): Promise<WorkerResults[Op]> {
+        signal?.throwIfAborted();
+        const pooled = await this.acquire(signal);
+        if (signal?.aborted) {
+            this.release(pooled);
+            throw signal.reason;
+        }
+        return new Promise((resolve, reject) => {
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            const finish = (keep: boolean, settle: () => void) => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', abort);
+                pooled.worker.onmessage = pooled.worker.onerror = ignore;
+                if (keep) this.release(pooled);
+                else this.discard(pooled);
+                settle();
+            };
+            const abort = () => finish(false, () => reject(signal!.reason));
+            signal?.addEventListener('abort', abort, { once: true });
+            if (timeoutMs !== undefined) {
+                timer = setTimeout(() => finish(false, () => reject(new MatchTimeoutError(timeoutMs))), timeoutMs);
+            }
+            pooled.worker.onmessage = (event: MessageEvent<{ result: WorkerResults[Op] } | { error: string }>) => {
+                const { data } = event;
+                finish(true, () => 'error' in data ? reject(new Error(data.error)) : resolve(data.result));
+            };
+            pooled.worker.onerror = (event: ErrorEvent) => {
+                event.preventDefault();
+                finish(false, () => reject(new Error(event.message)));
+            };
+            pooled.worker.postMessage(task);
+        });
+    }
+
+    /** Terminates every idle Worker. Busy Workers finish their task and are terminated once idle. */
+    terminate(): void {
+        for (const pooled of this.idle.splice(0)) {
+            clearTimeout(pooled.idleTimer);
+            pooled.worker.terminate();
+            this.size--;
+        }
+    }
+
+    /** Takes an idle Worker, starts a new one, or waits for one to be released. */
+    private async acquire(signal?: AbortSignal): Promise<PooledWorker> {
+        const idle = this.idle.pop();
+        if (idle) {
+            clearTimeout(idle.idleTimer);
+            return idle;
+        }
+        if (this.size < POOL_SIZE) {
+            this.size++;
+            try {
+                return await this.spawn();
+            } catch (error) {
+                this.size--;
+                throw error;
+            }
+        }
+        return new Promise((resolve, reject) => {
+            const waiter = {
+                take: (pooled: PooledWorker) => {
+                    signal?.removeEventListener('abort', abort);
+                    resolve(pooled);
+                },
+                fail: (error: unknown) => {
+                    signal?.removeEventListener('abort', abort);
+                    reject(error);
+                },
+            };
+            const abort = () => {
+                this.waiting.splice(this.waiting.indexOf(waiter), 1);
+                reject(signal!.reason);
+            };
+            signal?.addEventListener('abort', abort, { once: true });
+            this.waiting.push(waiter);
+        });
+    }
+
+    /** Starts a Worker and waits until it can take tasks. */
+    private spawn(): Promise<PooledWorker> {
+        const worker = new Worker(WORKER_URL, { type: 'module' });
+        return new Promise((resolve, reject) => {
+            worker.onmessage = () => resolve({ worker });
+            worker.onerror = (event: ErrorEvent) => {
+                event.preventDefault();
+                worker.terminate();
+                reject(new Error(`Could not start a match worker: ${event.message}`));
+            };
+        });
+    }
+
+    /** Hands a Worker that finished its task to the next waiter, or parks it. */
+    private release(pooled: PooledWorker): void {
+        const next = this.waiting.shift();
+        if (next) return next.take(pooled);
+        pooled.idleTimer = setTimeout(() => {
+            this.idle.splice(this.idle.indexOf(pooled), 1);
+            pooled.worker.terminate();
+            this.size--;
+        }, IDLE_MS);
+        this.idle.push(pooled);
+    }
+
+    /** Terminates a Worker that is stuck or broken, starting a replacement if someone is waiting. */
+    private discard(pooled: PooledWorker): void {
+        pooled.worker.terminate();
+        this.size--;
+        const next = this.waiting.shift();
+        if (!next) return;
+        this.size++;
+        this.spawn().then(next.take, error => {
+            this.size--;
+            next.fail(error);
+        });
+    }
+}
+
+/** The Workers shared by every builder. */
+export const workerPool = new WorkerPool();
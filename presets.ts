@@ -0,0 +1,490 @@
+/**
+ * Vetted patterns for common formats, to drop into any chain with
+ * `IrregularExpression.use()`:
+ *
+ * ```typescript
+ * const server = IrregularExpression.match()
+ *   .startOfLine()
+ *   .use(presets.ipv4())
+ *   .literal(":")
+ *   .digit().oneOrMore()
+ *   .endOfLine();
+ * ```
+ *
+ * Each preset matches the value itself, without anchors, so it can be
+ * embedded in a larger pattern; wrap it in `startOfLine()` and `endOfLine()`
+ * to check a whole string. Presets add no capture groups. Where a format has
+ * rules a regex cannot express, such as the Luhn checksum of a card number,
+ * the preset carries a check that the text it matches must also pass (see
+ * `IrregularExpression.validate()`), however it is combined with other
+ * patterns.
+ *
+ * @module
+ */
+
+import { IrregularExpression } from './mod.ts';
+
+/** Options for {@link ipv4}. */
+export interface Ipv4Options {
+    /** Whether a CIDR prefix length such as `/24` follows: `'none'` (default), `'optional'` or `'required'` */
+    cidr?: 'none' | 'optional' | 'required';
+}
+
+/** Options for {@link ipv6}. */
+export interface Ipv6Options {
+    /** Whether the last 32 bits may be written as an IPv4 address, as in `::ffff:192.0.2.1`. Defaults to true. */
+    embeddedIpv4?: boolean;
+    /** Whether a zone ID such as `%eth0` may follow. Defaults to false. */
+    zone?: boolean;
+}
+
+/** Options for {@link uuid}. */
+export interface UuidOptions {
+    /** The versions to accept, 1 to 8. Defaults to all of them. */
+    version?: number | number[];
+    /** Whether the nil (all zeros) and max (all `f`) UUIDs are accepted. Defaults to false. */
+    nilAndMax?: boolean;
+}
+
+/** Options for {@link iso8601}. */
+export interface Iso8601Options {
+    /** `'date'` (`2024-02-29`), `'time'` (`13:45:30`) or `'datetime'` (default, `2024-02-29T13:45:30Z`) */
+    type?: 'date' | 'time' | 'datetime';
+    /** Whether a UTC offset (`Z`, `+02:00`) follows the time: `'optional'` (default), `'required'` or `'none'` */
+    offset?: 'none' | 'optional' | 'required';
+}
+
+/** Options for {@link semver}. */
+export interface SemverOptions {
+    /** Whether a leading `v`, as in `v1.2.3`, is accepted. Defaults to false. */
+    prefix?: boolean;
+    /** Whether a pre-release such as `-rc.1` is accepted. Defaults to true. */
+    prerelease?: boolean;
+    /** Whether build metadata such as `+build.5` is accepted. Defaults to true. */
+    build?: boolean;
+}
+
+/** Options for {@link email}. */
+export interface EmailOptions {
+    /**
+     * `'pragmatic'` (default) accepts the addresses people actually use: a
+     * dot-atom local part and a domain with a top-level domain. `'rfc5322'`
+     * also accepts quoted local parts, single-label domains and address
+     * literals such as `[192.0.2.1]`.
+     */
+    mode?: 'pragmatic' | 'rfc5322';
+}
+
+/** Options for {@link url}. */
+export interface UrlOptions {
+    /** The schemes to accept. Defaults to `["http", "https"]`. */
+    protocols?: string[];
+    /** Whether the scheme and `://` may be left out, as in `example.com/path`. Defaults to false. */
+    optionalProtocol?: boolean;
+    /** Whether `localhost` is accepted as a host. Defaults to true. */
+    localhost?: boolean;
+}
+
+/** Options for {@link hexColor}. */
+export interface HexColorOptions {
+    /** Whether the 4- and 8-digit forms with an alpha channel are accepted. Defaults to true. */
+    alpha?: boolean;
+    /** Whether the leading `#` is `'required'` (default) or `'optional'` */
+    hash?: 'required' | 'optional';
+}
+
+/** Options for {@link macAddress}. */
+export interface MacAddressOptions {
+    /**
+     * The notation: `':'` (`00:1a:2b:3c:4d:5e`), `'-'` (`00-1A-2B-3C-4D-5E`),
+     * `'.'` (`001a.2b3c.4d5e`), or `'any'` (default) for all three.
+     */
+    separator?: ':' | '-' | '.' | 'any';
+}
+
+/** A card network, recognized by the leading digits and length of the number. */
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover';
+
+/** Options for {@link creditCard}. */
+export interface CreditCardOptions {
+    /** The networks to accept. Defaults to all of them. */
+    brands?: CardBrand[];
+    /** Whether the digits may be split by spaces or hyphens, used consistently. Defaults to true. */
+    separators?: boolean;
+}
+
+/** Options for {@link e164}. */
+export interface E164Options {
+    /** Whether the leading `+` is `'required'` (default) or `'optional'` */
+    plus?: 'required' | 'optional';
+}
+
+/** Options for {@link slug}. */
+export interface SlugOptions {
+    /** The character between words. Defaults to `-`. */
+    separator?: string;
+    /** Whether uppercase letters are accepted. Defaults to false. */
+    uppercase?: boolean;
+}
+
+const HEX = '[0-9a-fA-F]';
+const OCTET = '(?:25[0-5]|2[0-4]\\d|1\\d\\d|[1-9]?\\d)';
+const IPV4 = `${OCTET}(?:\\.${OCTET}){3}`;
+const LABEL = '[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?';
+const TLD = '(?:[A-Za-z]{2,63}|xn--[A-Za-z0-9-]{1,59})';
+
+/** The digits of each card network, without separators. */
+const CARD_BRANDS: Record<CardBrand, string> = {
+    visa: '4(?:\\d{12}|\\d{15}|\\d{18})',
+    mastercard: '(?:5[1-5]\\d{2}|222[1-9]|22[3-9]\\d|2[3-6]\\d{2}|27[01]\\d|2720)\\d{12}',
+    amex: '3[47]\\d{13}',
+    discover: '(?:6011|65\\d{2}|64[4-9]\\d)\\d{12}',
+};
+
+/**
+ * Builds a preset from pattern source. A check is tied to the text the
+ * preset itself matches, through `use()`, so it still holds when the preset
+ * is chained further or embedded in a larger pattern.
+ *
+ * @param source The pattern, with no capture groups.
+ * @param validate A check the preset's text must also pass.
+ * @returns The preset.
+ */
+function preset(source: string, validate?: (text: string) => boolean): IrregularExpression {
+    const fragment = IrregularExpression.from<never, []>(source);
+    return validate ? IrregularExpression.match().use(fragment.validate(validate)) : fragment;
+}
+
+/**
+ * Matches a dotted-decimal IPv4 address. Octets are 0 to 255 without leading zeros.
+ *
+ * @param options Whether a CIDR prefix length follows.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const network = IrregularExpression.match().startOfLine().use(presets.ipv4({ cidr: "required" })).endOfLine();
+ *
+ * console.log(network.test("10.0.0.0/8")); // true
+ * console.log(network.test("10.0.0.256/8")); // false
+ * ```
+ */
+export function ipv4(options: Ipv4Options = {}): IrregularExpression {
+    const cidr = '\\/(?:3[0-2]|[12]?\\d)';
+    switch (options.cidr ?? 'none') {
+        case 'optional':
+            return preset(`${IPV4}(?:${cidr})?`);
+        case 'required':
+            return preset(`${IPV4}${cidr}`);
+        default:
+            return preset(IPV4);
+    }
+}
+
+/**
+ * Matches an IPv6 address in any of the forms of RFC 4291, including `::`
+ * compression.
+ *
+ * @param options Whether embedded IPv4 addresses and zone IDs are accepted.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const address = IrregularExpression.match().startOfLine().use(presets.ipv6()).endOfLine();
+ *
+ * console.log(address.test("2001:db8::8a2e:370:7334")); // true
+ * console.log(address.test("2001:db8:::1")); // false
+ * ```
+ */
+export function ipv6(options: Ipv6Options = {}): IrregularExpression {
+    const h16 = `${HEX}{1,4}`;
+    const ls32 = options.embeddedIpv4 ?? true ? `(?:${h16}:${h16}|${IPV4})` : `${h16}:${h16}`;
+    // The IPv6address rule of RFC 3986: up to `before` groups, "::", then the rest
+    const forms = [`(?:${h16}:){6}${ls32}`, `::(?:${h16}:){5}${ls32}`];
+    const tails = [`(?:${h16}:){4}${ls32}`, `(?:${h16}:){3}${ls32}`, `(?:${h16}:){2}${ls32}`, `${h16}:${ls32}`, ls32, h16, ''];
+    tails.forEach((tail, before) => {
+        const head = before === 0 ? h16 : `(?:${h16}:){0,${before}}${h16}`;
+        forms.push(`(?:${head})?::${tail}`);
+    });
+    const zone = options.zone ? '(?:%[0-9A-Za-z._~-]+)?' : '';
+    return preset(`(?:${forms.join('|')})${zone}`);
+}
+
+/**
+ * Matches a UUID in the 8-4-4-4-12 hex form, checking the version digit and
+ * the RFC 9562 variant.
+ *
+ * @param options The versions to accept, and whether the nil and max UUIDs are.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const v4 = IrregularExpression.match().startOfLine().use(presets.uuid({ version: 4 })).endOfLine();
+ *
+ * console.log(v4.test("f47ac10b-58cc-4372-a567-0e02b2c3d479")); // true
+ * console.log(v4.test("f47ac10b-58cc-1372-a567-0e02b2c3d479")); // false
+ * ```
+ */
+export function uuid(options: UuidOptions = {}): IrregularExpression {
+    const versions = options.version === undefined ? [1, 2, 3, 4, 5, 6, 7, 8] : [options.version].flat();
+    if (versions.some(version => !Number.isInteger(version) || version < 1 || version > 8)) {
+        throw new RangeError(`UUID versions range from 1 to 8, got ${versions.join(', ')}.`);
+    }
+    const standard = `${HEX}{8}-${HEX}{4}-[${versions.join('')}]${HEX}{3}-[89abAB]${HEX}{3}-${HEX}{12}`;
+    if (!options.nilAndMax) return preset(standard);
+    return preset(`(?:${standard}|0{8}-0{4}-0{4}-0{4}-0{12}|[fF]{8}-[fF]{4}-[fF]{4}-[fF]{4}-[fF]{12})`);
+}
+
+/**
+ * Matches an ISO 8601 date, time or date and time in the extended format
+ * (with `-` and `:`). Dates are checked against the calendar, so
+ * `2023-02-29` does not match.
+ *
+ * @param options Which parts to match, and whether a UTC offset follows.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const timestamp = IrregularExpression.match().startOfLine().use(presets.iso8601({ offset: "required" })).endOfLine();
+ *
+ * console.log(timestamp.test("2024-02-29T13:45:30.5+01:00")); // true
+ * console.log(timestamp.test("2024-02-29T13:45:30")); // false
+ * ```
+ */
+export function iso8601(options: Iso8601Options = {}): IrregularExpression {
+    const date = '\\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[12]\\d|3[01])';
+    const offset = {
+        none: '',
+        optional: '(?:Z|[+-](?:[01]\\d|2[0-3]):?[0-5]\\d)?',
+        required: '(?:Z|[+-](?:[01]\\d|2[0-3]):?[0-5]\\d)',
+    }[options.offset ?? 'optional'];
+    const time = `(?:[01]\\d|2[0-3]):[0-5]\\d(?::(?:[0-5]\\d|60)(?:[.,]\\d+)?)?${offset}`;
+    // Both forms start with the date
+    const validDate = (value: string) => {
+        const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+        const parsed = new Date(0);
+        parsed.setUTCFullYear(year, month - 1, day);
+        return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+    };
+    switch (options.type ?? 'datetime') {
+        case 'date':
+            return preset(date, validDate);
+        case 'time':
+            return preset(time);
+        default:
+            return preset(`${date}T${time}`, validDate);
+    }
+}
+
+/**
+ * Matches a Semantic Versioning 2.0.0 version, using the grammar from semver.org.
+ *
+ * @param options Whether a `v` prefix, pre-releases and build metadata are accepted.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const version = IrregularExpression.match().startOfLine().use(presets.semver({ prefix: true })).endOfLine();
+ *
+ * console.log(version.test("v1.0.0-rc.1+build.5")); // true
+ * console.log(version.test("1.01.0")); // false
+ * ```
+ */
+export function semver(options: SemverOptions = {}): IrregularExpression {
+    const number = '(?:0|[1-9]\\d*)';
+    const identifier = `(?:${number}|\\d*[A-Za-z-][0-9A-Za-z-]*)`;
+    const prerelease = options.prerelease ?? true ? `(?:-${identifier}(?:\\.${identifier})*)?` : '';
+    const build = options.build ?? true ? '(?:\\+[0-9A-Za-z-]+(?:\\.[0-9A-Za-z-]+)*)?' : '';
+    return preset(`${options.prefix ? 'v?' : ''}${number}\\.${number}\\.${number}${prerelease}${build}`);
+}
+
+/**
+ * Matches an email address.
+ *
+ * @param options The mode: `'pragmatic'` (default) or `'rfc5322'`.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const address = IrregularExpression.match().startOfLine().use(presets.email()).endOfLine();
+ *
+ * console.log(address.test("jane.doe+news@example.co.uk")); // true
+ * console.log(address.test("jane..doe@example.com")); // false
+ *
+ * const strict = IrregularExpression.match().startOfLine().use(presets.email({ mode: "rfc5322" })).endOfLine();
+ * console.log(strict.test('"jane doe"@[192.0.2.1]')); // true
+ * ```
+ */
+export function email(options: EmailOptions = {}): IrregularExpression {
+    const atom = "[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+";
+    const dotAtom = `${atom}(?:\\.${atom})*`;
+    if ((options.mode ?? 'pragmatic') === 'pragmatic') {
+        return preset(`${dotAtom}@(?:${LABEL}\\.)+${TLD}`);
+    }
+    const quoted = '"(?:[\\x01-\\x08\\x0b\\x0c\\x0e-\\x21\\x23-\\x5b\\x5d-\\x7f]|\\\\[\\x01-\\x09\\x0b\\x0c\\x0e-\\x7f])*"';
+    const literal = `\\[(?:${IPV4}|IPv6:[0-9A-Fa-f:.]+)\\]`;
+    return preset(`(?:${dotAtom}|${quoted})@(?:${LABEL}(?:\\.${LABEL})*|${literal})`);
+}
+
+/**
+ * Matches an absolute URL: a scheme, a host (domain, IPv4 address, bracketed
+ * IPv6 address or `localhost`), and an optional port, path, query and fragment.
+ *
+ * @param options The schemes to accept, and whether the scheme and `localhost` are.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const link = IrregularExpression.match().use(presets.url());
+ *
+ * console.log(link.execute("see https://example.com/docs?page=2#intro.")[0][0]);
+ * // "https://example.com/docs?page=2#intro."
+ * ```
+ */
+export function url(options: UrlOptions = {}): IrregularExpression {
+    const protocols = options.protocols ?? ['http', 'https'];
+    if (protocols.length === 0 || protocols.some(protocol => !/^[A-Za-z][A-Za-z0-9+.-]*$/.test(protocol))) {
+        throw new SyntaxError(`url() expects valid URL schemes, got ${JSON.stringify(protocols)}.`);
+    }
+    const scheme = `(?:${protocols.map(protocol => protocol.replace(/[+.]/g, '\\$&')).join('|')}):\\/\\/`;
+    const hosts = [`(?:${LABEL}\\.)+${TLD}`, IPV4, '\\[[0-9A-Fa-f:.]+\\]'];
+    if (options.localhost ?? true) hosts.push('localhost');
+    const userinfo = "(?:[A-Za-z0-9._~%!$&'()*+,;=:-]+@)?";
+    const rest = '(?::\\d{1,5})?(?:\\/[^\\s?#]*)?(?:\\?[^\\s#]*)?(?:#\\S*)?';
+    return preset(`${options.optionalProtocol ? `(?:${scheme})?` : scheme}${userinfo}(?:${hosts.join('|')})${rest}`);
+}
+
+/**
+ * Matches a CSS hex color: `#rgb` or `#rrggbb`, and with an alpha channel
+ * `#rgba` or `#rrggbbaa`.
+ *
+ * @param options Whether alpha is accepted and the `#` is required.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const color = IrregularExpression.match().startOfLine().use(presets.hexColor({ alpha: false })).endOfLine();
+ *
+ * console.log(color.test("#1e90ff")); // true
+ * console.log(color.test("#1e90ff80")); // false
+ * ```
+ */
+export function hexColor(options: HexColorOptions = {}): IrregularExpression {
+    const lengths = options.alpha ?? true ? [8, 6, 4, 3] : [6, 3];
+    const hash = (options.hash ?? 'required') === 'required' ? '#' : '#?';
+    return preset(`${hash}(?:${lengths.map(length => `${HEX}{${length}}`).join('|')})`);
+}
+
+/**
+ * Matches a 48-bit MAC address. Within one address the separator does not
+ * change.
+ *
+ * @param options The notation to accept.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const mac = IrregularExpression.match().startOfLine().use(presets.macAddress()).endOfLine();
+ *
+ * console.log(mac.test("00:1a:2b:3c:4d:5e")); // true
+ * console.log(mac.test("00:1a-2b:3c:4d:5e")); // false
+ * ```
+ */
+export function macAddress(options: MacAddressOptions = {}): IrregularExpression {
+    const notations = {
+        ':': `${HEX}{2}(?::${HEX}{2}){5}`,
+        '-': `${HEX}{2}(?:-${HEX}{2}){5}`,
+        '.': `${HEX}{4}(?:\\.${HEX}{4}){2}`,
+    };
+    const separator = options.separator ?? 'any';
+    return preset(separator === 'any' ? `(?:${Object.values(notations).join('|')})` : notations[separator]);
+}
+
+/**
+ * Matches a payment card number of the given networks. Matches whose digits
+ * fail the Luhn checksum, or that mix separators, are dropped by the
+ * preset's check.
+ *
+ * @param options The networks to accept, and whether separators are.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const card = IrregularExpression.match().use(presets.creditCard());
+ *
+ * console.log(card.test("4111 1111 1111 1111")); // true
+ * console.log(card.test("4111 1111 1111 1112")); // false, the checksum fails
+ * ```
+ */
+export function creditCard(options: CreditCardOptions = {}): IrregularExpression {
+    const brands = options.brands ?? (Object.keys(CARD_BRANDS) as CardBrand[]);
+    const digits = new RegExp(`^(?:${brands.map(brand => CARD_BRANDS[brand]).join('|')})$`);
+    const separators = options.separators ?? true;
+    const source = separators ? '\\d(?:[ -]?\\d){12,18}' : '\\d{13,19}';
+    return preset(source, value => {
+        const used = new Set(value.match(/[ -]/g));
+        const number = value.replace(/[ -]/g, '');
+        return used.size <= 1 && digits.test(number) && luhn(number);
+    });
+}
+
+/**
+ * Matches a phone number in E.164 form: a country code and subscriber
+ * number of up to 15 digits, without spaces.
+ *
+ * @param options Whether the leading `+` is required.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const phone = IrregularExpression.match().startOfLine().use(presets.e164()).endOfLine();
+ *
+ * console.log(phone.test("+14155552671")); // true
+ * console.log(phone.test("+0123456")); // false
+ * ```
+ */
+export function e164(options: E164Options = {}): IrregularExpression {
+    return preset(`${(options.plus ?? 'required') === 'required' ? '\\+' : '\\+?'}[1-9]\\d{1,14}`);
+}
+
+/**
+ * Matches a URL slug: words of letters and digits joined by single separators.
+ *
+ * @param options The separator, and whether uppercase letters are accepted.
+ * @returns The preset.
+ *
+ * @example
+ * ```typescript
+ * const slug = IrregularExpression.match().startOfLine().use(presets.slug()).endOfLine();
+ *
+ * console.log(slug.test("hello-world-2024")); // true
+ * console.log(slug.test("hello--world")); // false
+ * ```
+ */
+export function slug(options: SlugOptions = {}): IrregularExpression {
+    const separator = options.separator ?? '-';
+    if ([...separator].length !== 1 || /[A-Za-z0-9]/.test(separator)) {
+        throw new SyntaxError(`slug() expects a single non-alphanumeric separator, got '${separator}'.`);
+    }
+    const word = options.uppercase ? '[A-Za-z0-9]+' : '[a-z0-9]+';
+    return preset(`${word}(?:${separator.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')}${word})*`);
+}
+
+/**
+ * Whether a string of digits passes the Luhn checksum used by card numbers.
+ *
+ * @param digits The digits, without separators.
+ * @returns True if the checksum is valid.
+ */
+function luhn(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
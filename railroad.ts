@@ -0,0 +1,292 @@
+/**
+ * Railroad diagrams of a pattern AST as standalone SVG, used by
+ * `IrregularExpression.toRailroadSVG()`.
+ *
+ * Each node is laid out as a box that knows its width and how far it reaches
+ * above and below the track it sits on; containers place their children
+ * from those measures. Text is measured with a fixed character width, and
+ * every coordinate is an integer, so the same pattern always gives the same
+ * bytes.
+ *
+ * @module
+ */
+
+import { generate, type PatternNode, type QuantifierNode } from './ast.ts';
+
+/** The width of one character of box text, in a 13px monospace font. */
+const CHAR_WIDTH = 8;
+/** The height of a box. */
+const BOX_HEIGHT = 24;
+/** Space between a box's text and its edge, and around the body of a group. */
+const PADDING = 10;
+/** Space between items in a row, and between stacked tracks. */
+const GAP = 10;
+/** The radius of the curves where tracks split and join. */
+const RADIUS = 10;
+/** The height taken by the label of a group or loop. */
+const LABEL_HEIGHT = 14;
+/** Space around the whole diagram. */
+const MARGIN = 20;
+
+const STYLE = [
+    '.railroad path { stroke: #333; stroke-width: 2; fill: none; }',
+    '.railroad text { font: 13px monospace; text-anchor: middle; fill: #111; }',
+    '.railroad text.label { font-size: 11px; text-anchor: start; fill: #555; }',
+    '.railroad .literal > rect { fill: #e6f4e6; stroke: #333; }',
+    '.railroad .class > rect { fill: #e6edf8; stroke: #333; }',
+    '.railroad .backreference > rect { fill: #f4e6f4; stroke: #333; }',
+    '.railroad .anchor > rect { fill: #fff1cc; stroke: #a60; }',
+    '.railroad .group > rect { fill: none; stroke: #777; stroke-dasharray: 4 3; }',
+    '.railroad .named > rect { stroke: #36c; }',
+    '.railroad .atomic > rect { fill: none; stroke: #a33; }',
+    '.railroad .lookaround > rect { fill: #f6f6f6; stroke: #c60; stroke-dasharray: 2 2; }',
+].join('\n');
+
+/** A laid-out part of the diagram. */
+interface Item {
+    width: number;
+    /** How far the item reaches above its track */
+    up: number;
+    /** How far the item reaches below its track */
+    down: number;
+    /**
+     * Writes the item's SVG.
+     *
+     * @param x The left edge.
+     * @param y The track, which enters at the left edge and leaves at the right.
+     */
+    draw(x: number, y: number): string;
+}
+
+/**
+ * Draws a pattern as a railroad diagram.
+ *
+ * @param ast The pattern.
+ * @param flags The flags the pattern is compiled with, for writing classes.
+ * @returns A self-contained SVG document.
+ *
+ * @example
+ * ```typescript
+ * const svg = renderRailroad(IrregularExpression.match().digit().oneOrMore().toAST(), 'g');
+ * // '<svg xmlns="http://www.w3.org/2000/svg" class="railroad" width="..." ...'
+ * ```
+ */
+export function renderRailroad(ast: PatternNode, flags: string): string {
+    const diagram = new RailroadLayout(flags).layout(ast);
+    const width = diagram.width + 2 * MARGIN + 4 * GAP;
+    const height = diagram.up + diagram.down + 2 * MARGIN;
+    const y = MARGIN + diagram.up;
+    const start = MARGIN + 2 * GAP;
+    const end = start + diagram.width;
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" class="railroad" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        `<style>\n${STYLE}\n</style>`,
+        `<path d="M ${MARGIN} ${y - PADDING} v ${2 * PADDING} M ${MARGIN} ${y} H ${start}"/>`,
+        diagram.draw(start, y),
+        `<path d="M ${end} ${y} H ${end + 2 * GAP} M ${end + 2 * GAP} ${y - PADDING} v ${2 * PADDING}"/>`,
+        '</svg>',
+    ].join('\n');
+}
+
+/** Turns nodes into items, numbering capture groups in source order. */
+class RailroadLayout {
+    private captures = 0;
+
+    constructor(private readonly flags: string) {}
+
+    layout(node: PatternNode): Item {
+        switch (node.type) {
+            case 'literal':
+                return box(quote(node.value), 'literal');
+            case 'class':
+                return box(generate(node, this.flags), 'class');
+            case 'backreference':
+                return box(typeof node.ref === 'number' ? `back to #${node.ref}` : `back to ${node.ref}`, 'backreference');
+            case 'assertion':
+                switch (node.kind) {
+                    case 'startOfLine':
+                        return box('start of line', 'anchor');
+                    case 'endOfLine':
+                        return box('end of line', 'anchor');
+                    case 'wordBoundary':
+                        return box('word boundary', 'anchor');
+                    case 'nonWordBoundary':
+                        return box('not word boundary', 'anchor');
+                    case 'lookahead':
+                        return frame(this.layout(node.body), node.negated ? 'not followed by' : 'followed by', `lookaround ${node.kind}`);
+                    case 'lookbehind':
+                        return frame(this.layout(node.body), node.negated ? 'not preceded by' : 'preceded by', `lookaround ${node.kind}`);
+                }
+                break;
+            case 'group': {
+                if (node.atomic) return frame(this.layout(node.body), 'atomic', 'atomic');
+                if (!node.capturing) return this.layout(node.body);
+                const number = ++this.captures;
+                const label = node.name === undefined ? `#${number}` : `#${number} ${node.name}`;
+                return frame(this.layout(node.body), label, node.name === undefined ? 'group' : 'group named');
+            }
+            case 'quantifier':
+                return repeat(this.layout(node.body), node);
+            case 'alternation':
+                return choice(node.alternatives.map(alternative => this.layout(alternative)));
+            case 'sequence':
+                return row(node.elements.map(element => this.layout(element)));
+        }
+    }
+}
+
+/** A box with text on the track. */
+function box(text: string, kind: string): Item {
+    const width = textWidth(text) + 2 * PADDING;
+    const half = BOX_HEIGHT / 2;
+    // Anchors are drawn as pills, the rest as slightly rounded boxes
+    const corner = kind === 'anchor' ? half : 3;
+    return {
+        width,
+        up: half,
+        down: half,
+        draw: (x, y) =>
+            `<g class="${kind}"><rect x="${x}" y="${y - half}" width="${width}" height="${BOX_HEIGHT}" rx="${corner}"/>` +
+            `<text x="${x + width / 2}" y="${y + 4}">${escapeXml(text)}</text></g>`,
+    };
+}
+
+/** A labelled frame around an item, for groups and lookarounds. */
+function frame(body: Item, label: string, kind: string): Item {
+    const width = Math.max(body.width, textWidth(label, 7)) + 2 * PADDING;
+    const up = body.up + PADDING + LABEL_HEIGHT;
+    const down = body.down + PADDING;
+    return {
+        width,
+        up,
+        down,
+        draw: (x, y) => {
+            const inner = x + Math.floor((width - body.width) / 2);
+            return `<g class="${kind}"><rect x="${x}" y="${y - up}" width="${width}" height="${up + down}" rx="6"/>` +
+                `<text class="label" x="${x + 6}" y="${y - up + 11}">${escapeXml(label)}</text>` +
+                `<path d="M ${x} ${y} H ${inner} M ${inner + body.width} ${y} H ${x + width}"/>` +
+                `${body.draw(inner, y)}</g>`;
+        },
+    };
+}
+
+/** Items one after another on the same track. */
+function row(items: Item[]): Item {
+    const width = items.reduce((total, item) => total + item.width, 0) + GAP * Math.max(0, items.length - 1);
+    return {
+        width,
+        up: Math.max(0, ...items.map(item => item.up)),
+        down: Math.max(0, ...items.map(item => item.down)),
+        draw: (x, y) => {
+            const parts: string[] = [];
+            items.forEach((item, index) => {
+                if (index > 0) {
+                    parts.push(`<path d="M ${x} ${y} h ${GAP}"/>`);
+                    x += GAP;
+                }
+                parts.push(item.draw(x, y));
+                x += item.width;
+            });
+            return parts.join('');
+        },
+    };
+}
+
+/** Alternatives stacked below each other, the first on the track. */
+function choice(items: Item[]): Item {
+    if (items.length === 1) return items[0];
+    const inner = Math.max(...items.map(item => item.width));
+    const width = inner + 4 * RADIUS;
+    // The distance of each alternative's track below the main one
+    const offsets = [0];
+    for (let i = 1; i < items.length; i++) {
+        offsets.push(Math.max(offsets[i - 1] + items[i - 1].down + GAP + items[i].up, offsets[i - 1] + 2 * RADIUS));
+    }
+    const last = items.length - 1;
+    return {
+        width,
+        up: items[0].up,
+        down: offsets[last] + items[last].down,
+        draw: (x, y) => {
+            const right = x + width;
+            return items.map((item, index) => {
+                const track = y + offsets[index];
+                const start = x + 2 * RADIUS;
+                const lead = index === 0
+                    ? `M ${x} ${y} H ${start}`
+                    : `M ${x} ${y} a ${RADIUS} ${RADIUS} 0 0 1 ${RADIUS} ${RADIUS} V ${track - RADIUS} a ${RADIUS} ${RADIUS} 0 0 0 ${RADIUS} ${RADIUS}`;
+                const tail = index === 0
+                    ? `M ${start + item.width} ${y} H ${right}`
+                    : `M ${start + item.width} ${track} H ${right - 2 * RADIUS} a ${RADIUS} ${RADIUS} 0 0 0 ${RADIUS} ${-RADIUS} V ${y + RADIUS} a ${RADIUS} ${RADIUS} 0 0 1 ${RADIUS} ${-RADIUS}`;
+                return `<path d="${lead} ${tail}"/>${item.draw(start, track)}`;
+            }).join('');
+        },
+    };
+}
+
+/**
+ * A quantified item: a path above that skips it when it is optional, and a
+ * path below that loops back when it repeats, labelled with the bounds.
+ */
+function repeat(body: Item, node: QuantifierNode): Item {
+    const loops = node.max === null || node.max > 1;
+    const skips = node.min === 0;
+    const label = loops ? repeatLabel(node) : '';
+    const width = body.width + 4 * RADIUS;
+    const above = skips ? Math.max(body.up + GAP, 2 * RADIUS) : 0;
+    const below = loops ? Math.max(body.down + GAP, 2 * RADIUS) : 0;
+    return {
+        width: Math.max(width, textWidth(label, 7) + 2 * RADIUS),
+        up: Math.max(body.up, above),
+        down: Math.max(body.down, below + (label ? LABEL_HEIGHT : 0)),
+        draw: (x, y) => {
+            const start = x + 2 * RADIUS;
+            const end = start + body.width;
+            const right = x + Math.max(width, textWidth(label, 7) + 2 * RADIUS);
+            const parts = [`<path d="M ${x} ${y} H ${start} M ${end} ${y} H ${right}"/>`, body.draw(start, y)];
+            if (skips) {
+                parts.push(
+                    `<path d="M ${x} ${y} a ${RADIUS} ${RADIUS} 0 0 0 ${RADIUS} ${-RADIUS} V ${y - above + RADIUS} ` +
+                        `a ${RADIUS} ${RADIUS} 0 0 1 ${RADIUS} ${-RADIUS} H ${right - 2 * RADIUS} ` +
+                        `a ${RADIUS} ${RADIUS} 0 0 1 ${RADIUS} ${RADIUS} V ${y - RADIUS} a ${RADIUS} ${RADIUS} 0 0 0 ${RADIUS} ${RADIUS}"/>`,
+                );
+            }
+            if (loops) {
+                const bottom = y + below;
+                parts.push(
+                    `<path d="M ${end} ${y} a ${RADIUS} ${RADIUS} 0 0 1 ${RADIUS} ${RADIUS} V ${bottom - RADIUS} ` +
+                        `a ${RADIUS} ${RADIUS} 0 0 1 ${-RADIUS} ${RADIUS} H ${start} ` +
+                        `a ${RADIUS} ${RADIUS} 0 0 1 ${-RADIUS} ${-RADIUS} V ${y + RADIUS} a ${RADIUS} ${RADIUS} 0 0 1 ${RADIUS} ${-RADIUS}"/>`,
+                    `<text class="label" x="${x + RADIUS}" y="${bottom + LABEL_HEIGHT - 2}">${escapeXml(label)}</text>`,
+                );
+            }
+            return parts.join('');
+        },
+    };
+}
+
+/** The bounds of a repeating quantifier, e.g. `1+ times` or `2-5 times, lazy`. */
+function repeatLabel(node: QuantifierNode): string {
+    const { min, max } = node;
+    const bounds = max === null ? `${min}+ times` : min === max ? `${min} times` : `${min}-${max} times`;
+    if (node.possessive) return `${bounds}, possessive`;
+    return node.greedy ? bounds : `${bounds}, lazy`;
+}
+
+/**
+ * The width of a line of text.
+ *
+ * @param text The text.
+ * @param charWidth The width of one character, smaller for labels.
+ */
+function textWidth(text: string, charWidth = CHAR_WIDTH): number {
+    return Array.from(text).length * charWidth;
+}
+
+function quote(text: string): string {
+    return `"${text.replace(/[\\"]/g, '\\$&').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')}"`;
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,315 @@
+/**
+ * Static detection of patterns prone to catastrophic backtracking (ReDoS),
+ * used by `IrregularExpression.analyze()`.
+ *
+ * The checks are heuristics over the AST. They look for the classic shapes:
+ * an unbounded quantifier inside another, alternatives under a quantifier
+ * that can match the same text, and adjacent unbounded quantifiers over
+ * overlapping characters. Character overlap is decided by trying a fixed set
+ * of sample characters, so exotic overlaps can be missed.
+ *
+ * @module
+ */
+
+import { generate, generateWithSpans, type PatternNode, type QuantifierNode } from './ast.ts';
+
+/** A part of a pattern that can make matching take exponential or polynomial time. */
+export interface ReDoSFinding {
+    /** The shape that was found */
+    kind: 'nested-quantifier' | 'overlapping-alternation' | 'polynomial-backtracking';
+    /** `high` for exponential backtracking, `medium` for polynomial */
+    severity: 'high' | 'medium';
+    /** Plain-English description of the problem */
+    message: string;
+    /** The `[start, end)` offsets of the offending sub-pattern in `getPattern()` */
+    span: [number, number];
+    /** The offending sub-pattern */
+    source: string;
+    /** An input that makes the pattern backtrack heavily */
+    attack: string;
+}
+
+/** Characters tried when deciding whether two parts of a pattern overlap. */
+const SAMPLES = [
+    '!', 'a', 'b', 'x', 'z', 'A', 'Z', '0', '1', '9', '_', ' ', '\t', '\n', '\r', '-', '.', ',', ':', ';',
+    '/', '\\', '@', '#', '$', '%', '&', '*', '+', '=', '?', '"', "'", '(', ')', '[', ']', '{', '}', '<',
+    '>', '|', '^', '~', '`', 'é', 'λ', 'я', '中', ' ', '😀',
+];
+
+/** How often the repeated part of an attack string is repeated, by severity. */
+const PUMP_REPEATS = { high: 30, medium: 3000 };
+
+/**
+ * Looks for catastrophic backtracking in a pattern.
+ *
+ * @param ast The pattern.
+ * @param flags The flags the pattern is compiled with.
+ * @returns The findings, in pattern order.
+ *
+ * @example
+ * ```typescript
+ * const [finding] = analyzePattern(IrregularExpression.from(/(\w+)+$/).toAST(), '');
+ * // { kind: "nested-quantifier", severity: "high", span: [0, 6], source: "(\\w+)+",
+ * //   attack: "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!", ... }
+ * ```
+ */
+export function analyzePattern(ast: PatternNode, flags: string): ReDoSFinding[] {
+    return new Analyzer(ast, flags).run();
+}
+
+class Analyzer {
+    private readonly findings: ReDoSFinding[] = [];
+    private readonly source: string;
+    private readonly spans: Map<PatternNode, [number, number]>;
+    private readonly flags: string;
+    private readonly matchers = new Map<PatternNode, RegExp>();
+
+    constructor(private readonly ast: PatternNode, flags: string) {
+        this.flags = flags.replace(/[dgy]/g, '');
+        ({ source: this.source, spans: this.spans } = generateWithSpans(ast, flags));
+    }
+
+    run(): ReDoSFinding[] {
+        this.visit(this.ast, '');
+        return this.findings.sort((a, b) => a.span[0] - b.span[0] || b.span[1] - a.span[1]);
+    }
+
+    /**
+     * Checks a node and everything inside it.
+     *
+     * @param node The node to check.
+     * @param prefix Text that leads the pattern up to this node, for attack strings.
+     */
+    private visit(node: PatternNode, prefix: string): void {
+        switch (node.type) {
+            case 'group':
+                return this.visit(node.body, prefix);
+            case 'assertion':
+                if (node.kind === 'lookahead' || node.kind === 'lookbehind') this.visit(node.body, prefix);
+                return;
+            case 'alternation':
+                return node.alternatives.forEach(alternative => this.visit(alternative, prefix));
+            case 'quantifier':
+                if (node.max === null && !node.possessive) {
+                    this.checkNested(node, prefix);
+                    this.checkAlternation(node, prefix);
+                }
+                return this.visit(node.body, prefix);
+            case 'sequence': {
+                this.checkAdjacent(node.elements, prefix);
+                let lead = prefix;
+                for (const element of node.elements) {
+                    this.visit(element, lead);
+                    lead += this.example(element);
+                }
+                return;
+            }
+        }
+    }
+
+    /** `(a+)+`: an unbounded quantifier that can make up the whole body of another. */
+    private checkNested(node: QuantifierNode, prefix: string): void {
+        const inner = this.soleUnbounded(node.body);
+        if (!inner) return;
+        const pump = this.charsOf(inner.body)[0];
+        if (pump === undefined) return;
+        this.report(node, node, 'nested-quantifier', 'high', prefix, pump,
+            `the unbounded quantifier in ${this.sourceOf(inner)} is repeated by another, so the text can be split between them in exponentially many ways`);
+    }
+
+    /** `(a|a)*`: alternatives under a quantifier that can match the same text. */
+    private checkAlternation(node: QuantifierNode, prefix: string): void {
+        const alternation = this.unwrap(node.body);
+        if (alternation.type !== 'alternation') return;
+        const { alternatives } = alternation;
+        for (let i = 0; i < alternatives.length; i++) {
+            for (let j = i + 1; j < alternatives.length; j++) {
+                const shared = this.sharedText(alternatives[i], alternatives[j]);
+                if (shared === null) continue;
+                this.report(node, node, 'overlapping-alternation', 'high', prefix, shared,
+                    `the alternatives ${this.sourceOf(alternatives[i])} and ${this.sourceOf(alternatives[j])} both match '${shared}' and are repeated, so each repetition can be matched either way`);
+                return;
+            }
+        }
+    }
+
+    /** `\d+\d+`: unbounded quantifiers in a row, with only optional parts between, over the same characters. */
+    private checkAdjacent(elements: PatternNode[], prefix: string): void {
+        for (let i = 0; i < elements.length; i++) {
+            const first = this.unbounded(elements[i]);
+            if (!first) continue;
+            for (let j = i + 1; j < elements.length; j++) {
+                const second = this.unbounded(elements[j]);
+                const shared = second && this.charsOf(first.body).find(char => this.charsOf(second.body).includes(char));
+                if (shared) {
+                    const lead = prefix + elements.slice(0, i).map(element => this.example(element)).join('');
+                    this.report(elements[i], elements[j], 'polynomial-backtracking', 'medium', lead, shared,
+                        `${this.sourceOf(elements[i])} and ${this.sourceOf(elements[j])} can both match '${shared}', so a run of it can be split between them in many ways`);
+                    break;
+                }
+                if (!this.nullable(elements[j])) break;
+            }
+        }
+    }
+
+    private report(
+        from: PatternNode,
+        to: PatternNode,
+        kind: ReDoSFinding['kind'],
+        severity: ReDoSFinding['severity'],
+        prefix: string,
+        pump: string,
+        reason: string,
+    ): void {
+        const span: [number, number] = [
+            this.spans.get(from)?.[0] ?? 0,
+            this.spans.get(to)?.[1] ?? this.source.length,
+        ];
+        const source = this.source.slice(...span);
+        const pumped = new Set(this.charsOf({ type: 'literal', value: pump }));
+        const suffix = SAMPLES.find(char => !pumped.has(char) && !this.charsOf(to).includes(char)) ?? '';
+        this.findings.push({
+            kind,
+            severity,
+            message: `${source} can backtrack catastrophically: ${reason}.`,
+            span,
+            source,
+            attack: prefix + pump.repeat(PUMP_REPEATS[severity]) + suffix,
+        });
+    }
+
+    /** The unbounded quantifier a node consists of, apart from optional parts. */
+    private soleUnbounded(node: PatternNode): QuantifierNode | null {
+        switch (node.type) {
+            case 'quantifier':
+                if (node.possessive) return null;
+                return node.max === null ? node : this.soleUnbounded(node.body);
+            case 'group':
+                return node.atomic ? null : this.soleUnbounded(node.body);
+            case 'alternation':
+                for (const alternative of node.alternatives) {
+                    const found = this.soleUnbounded(alternative);
+                    if (found) return found;
+                }
+                return null;
+            case 'sequence': {
+                const required = node.elements.filter(element => !this.nullable(element));
+                if (required.length > 1) return null;
+                for (const element of required.length === 1 ? required : node.elements) {
+                    const found = this.soleUnbounded(element);
+                    if (found) return found;
+                }
+                return null;
+            }
+            default:
+                return null;
+        }
+    }
+
+    /** The unbounded, backtracking quantifier a node is, looking through groups. */
+    private unbounded(node: PatternNode): QuantifierNode | null {
+        const inner = this.unwrap(node);
+        return inner.type === 'quantifier' && inner.max === null && !inner.possessive ? inner : null;
+    }
+
+    /** Looks through non-atomic groups and single-element sequences. */
+    private unwrap(node: PatternNode): PatternNode {
+        if (node.type === 'group' && !node.atomic) return this.unwrap(node.body);
+        if (node.type === 'sequence' && node.elements.length === 1) return this.unwrap(node.elements[0]);
+        return node;
+    }
+
+    /** A short text both alternatives match in full, if there is one. */
+    private sharedText(a: PatternNode, b: PatternNode): string | null {
+        const candidates = [this.example(a), this.example(b), ...this.charsOf(a)];
+        return candidates.find(text => text !== '' && this.matches(a, text) && this.matches(b, text)) ?? null;
+    }
+
+    /** Whether a node can match the empty string. */
+    private nullable(node: PatternNode): boolean {
+        switch (node.type) {
+            case 'literal':
+                return node.value === '';
+            case 'class':
+                return false;
+            case 'group':
+                return this.nullable(node.body);
+            case 'quantifier':
+                return node.min === 0 || this.nullable(node.body);
+            case 'alternation':
+                return node.alternatives.some(alternative => this.nullable(alternative));
+            case 'sequence':
+                return node.elements.every(element => this.nullable(element));
+            default:
+                return true;
+        }
+    }
+
+    /** The sample characters a match of the node can start with. */
+    private charsOf(node: PatternNode): string[] {
+        return SAMPLES.filter(char => this.startsWith(node, char));
+    }
+
+    private startsWith(node: PatternNode, char: string): boolean {
+        switch (node.type) {
+            case 'literal':
+                return node.value !== '' && this.matches({ type: 'literal', value: String.fromCodePoint(node.value.codePointAt(0)!) }, char);
+            case 'class':
+                return this.matches(node, char);
+            case 'group':
+                return this.startsWith(node.body, char);
+            case 'quantifier':
+                return node.max !== 0 && this.startsWith(node.body, char);
+            case 'alternation':
+                return node.alternatives.some(alternative => this.startsWith(alternative, char));
+            case 'sequence':
+                for (const element of node.elements) {
+                    if (this.startsWith(element, char)) return true;
+                    if (!this.nullable(element)) return false;
+                }
+                return false;
+            default:
+                return false;
+        }
+    }
+
+    /** Whether a node matches the whole of a text, with the pattern's flags. */
+    private matches(node: PatternNode, text: string): boolean {
+        let matcher = this.matchers.get(node);
+        if (!matcher) {
+            try {
+                matcher = new RegExp(`^(?:${generate(node, this.flags)})$`, this.flags);
+            } catch {
+                // Backreferences to groups outside the node cannot be compiled alone
+                matcher = /(?!)/;
+            }
+            this.matchers.set(node, matcher);
+        }
+        return matcher.test(text);
+    }
+
+    /** A short text the node matches, ignoring assertions. */
+    private example(node: PatternNode): string {
+        switch (node.type) {
+            case 'literal':
+                return node.value;
+            case 'class':
+                return this.charsOf(node)[0] ?? '';
+            case 'group':
+                return this.example(node.body);
+            case 'quantifier':
+                return this.example(node.body).repeat(node.min);
+            case 'alternation':
+                return this.example(node.alternatives[0]);
+            case 'sequence':
+                return node.elements.map(element => this.example(element)).join('');
+            default:
+                return '';
+        }
+    }
+
+    private sourceOf(node: PatternNode): string {
+        const span = this.spans.get(node);
+        return span ? this.source.slice(...span) : generate(node, this.flags);
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Replacement of matches found by the builder itself rather than by
+ * `String.prototype.replace()`, for when only some matches may be replaced.
+ *
+ * @module
+ */
+
+/** Options for `IrregularExpression.replace()` and the other replacing methods. */
+export interface ReplaceOptions {
+    /**
+     * The most matches to replace, counting from the start of the input.
+     * The `runTimes()` limit applies as well, and the smaller of the two wins.
+     */
+    limit?: number;
+}
+
+/**
+ * Builds a replacement string piece by piece, so text is never mistaken for
+ * a `$` reference and group references are checked against the pattern's
+ * groups. `IrregularExpression.replacement()` passes one to a callback and
+ * returns the string it builds, which `String.prototype.replace()` accepts too.
+ *
+ * @typeParam Named The names of the pattern's named capture groups.
+ * @typeParam Numbers The numbers of the pattern's capture groups.
+ */
+export class ReplacementBuilder<Named extends string = string, Numbers extends number = number> {
+    /** The replacement string so far */
+    private source = '';
+
+    /**
+     * Inserts text as it is: any `$` in it is escaped.
+     *
+     * @param value The text.
+     * @returns The current instance for chaining.
+     */
+    text(value: string): this {
+        this.source += value.replaceAll('$', '$$$$');
+        return this;
+    }
+
+    /**
+     * Inserts the whole match (`$&`).
+     *
+     * @returns The current instance for chaining.
+     */
+    match(): this {
+        this.source += '$&';
+        return this;
+    }
+
+    /**
+     * Inserts the input before the match (`` $` ``).
+     *
+     * @returns The current instance for chaining.
+     */
+    before(): this {
+        this.source += '$`';
+        return this;
+    }
+
+    /**
+     * Inserts the input after the match (`$'`).
+     *
+     * @returns The current instance for chaining.
+     */
+    after(): this {
+        this.source += "$'";
+        return this;
+    }
+
+    /**
+     * Inserts what a capture group matched, or nothing if it did not take part.
+     *
+     * @param group The group's name, or its number from 1 to 99.
+     * @returns The current instance for chaining.
+     * @throws {RangeError} If a group number is out of range.
+     */
+    group(group: Named | Numbers): this {
+        if (typeof group === 'string') {
+            this.source += `$<${group}>`;
+            return this;
+        }
+        if (!Number.isInteger(group) || group < 1 || group > 99) {
+            throw new RangeError(`group: ${group} is not a group number from 1 to 99.`);
+        }
+        // Two digits, so a digit inserted after it cannot extend the number
+        this.source += `$${String(group).padStart(2, '0')}`;
+        return this;
+    }
+
+    /**
+     * Gives the replacement string.
+     *
+     * @returns The replacement string, with `$` references.
+     */
+    toString(): string {
+        return this.source;
+    }
+}
+
+/**
+ * Expands a replacement string for one match, following the rules of
+ * `String.prototype.replace()`: `$$`, `$&`, `` $` ``, `$'`, `$n`, `$nn` and `$<name>`.
+ *
+ * @param replacement The replacement string.
+ * @param match The match, with `index`, `input` and `groups`.
+ * @returns The text to put in place of the match.
+ */
+export function expandReplacement(replacement: string, match: RegExpExecArray): string {
+    const captures = match.length - 1;
+    return replacement.replace(/\$(\$|&|`|'|\d\d?|<([^>]*)>)/g, (token, ref: string, name: string | undefined) => {
+        switch (ref) {
+            case '$':
+                return '$';
+            case '&':
+                return match[0];
+            case '`':
+                return match.input.slice(0, match.index);
+            case "'":
+                return match.input.slice(match.index + match[0].length);
+        }
+        if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+        if (ref.length === 2 && Number(ref) >= 1 && Number(ref) <= captures) return match[Number(ref)] ?? '';
+        const group = Number(ref[0]);
+        if (group < 1 || group > captures) return token;
+        return (match[group] ?? '') + ref.slice(1);
+    });
+}
+
+/**
+ * Puts replacements in place of matches.
+ *
+ * @param input The string the matches were found in.
+ * @param matches The matches, in order and not overlapping.
+ * @param replace Gives the text to put in place of a match, given the match and its position in `matches`.
+ * @returns The input with the matches replaced.
+ */
+export function spliceMatches(
+    input: string,
+    matches: RegExpExecArray[],
+    replace: (match: RegExpExecArray, index: number) => string,
+): string {
+    let result = '';
+    let last = 0;
+    matches.forEach((match, index) => {
+        result += input.slice(last, match.index) + replace(match, index);
+        last = match.index + match[0].length;
+    });
+    return result + input.slice(last);
+}
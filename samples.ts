@@ -0,0 +1,318 @@
+/**
+ * Random strings that match a pattern, and near-misses that do not, used by
+ * `IrregularExpression.generate()` and `generateNonMatching()`.
+ *
+ * Strings are built by walking the AST: a random alternative, a random
+ * number of repetitions, a random character from each class, and the text of
+ * the group a backreference points at. Lookarounds, anchors and word
+ * boundaries are not planned for; every candidate is checked against the
+ * compiled pattern instead, and rejected candidates are drawn again. All
+ * randomness comes from one seeded generator, so a seed always gives the same
+ * strings.
+ *
+ * @module
+ */
+
+import { type CharacterSetNode, type ClassNode, generate, type GroupNode, type PatternNode } from './ast.ts';
+import { expandCharacterSet } from './char-class.ts';
+
+/** Options for {@link generateSamples} and {@link generateNearMisses}. */
+export interface SampleOptions {
+    /** How many strings to generate. Defaults to 10 */
+    count?: number;
+    /** Seeds the random generator. Defaults to 0, so calls without a seed give the same strings */
+    seed?: number;
+    /** The most repetitions of an unbounded quantifier, beyond its minimum if that is higher. Defaults to 5 */
+    maxRepeat?: number;
+}
+
+/** How many candidates may be drawn for each string asked for before giving up. */
+const ATTEMPTS_PER_SAMPLE = 100;
+
+/** Characters tried first for a class, so samples stay mostly readable. */
+const POOL = [
+    ...Array.from({ length: 0x7f - 0x20 }, (_, index) => String.fromCharCode(0x20 + index)),
+    '\t', '\n', '\r', '\xa0', 'é', 'ß', 'λ', 'я', '中', '😀',
+];
+
+/**
+ * Generates strings the pattern matches in full.
+ *
+ * @param ast The pattern.
+ * @param regex The pattern compiled, which decides what matches.
+ * @param options The count, seed and repetition limit.
+ * @param accept Further checks a sample must pass, such as the builder's validators.
+ * @returns The samples. There are fewer than `count` when candidates keep
+ * being rejected, e.g. for a pattern that matches nothing.
+ * @throws {RangeError} If `count` or `maxRepeat` is not a non-negative integer.
+ */
+export function generateSamples(
+    ast: PatternNode,
+    regex: RegExp,
+    options: SampleOptions,
+    accept: (text: string) => boolean = () => true,
+): string[] {
+    return new SampleGenerator(ast, regex, options, accept).samples();
+}
+
+/**
+ * Generates near-misses: strings made by changing a matching sample slightly
+ * (deleting, inserting, replacing, duplicating or swapping a character, or
+ * cutting the end off) that the pattern does not match in full.
+ *
+ * @param ast The pattern.
+ * @param regex The pattern compiled, which decides what matches.
+ * @param options The count, seed and repetition limit.
+ * @param accept Further checks a match must pass; a string that fails them is also a near-miss.
+ * @returns The near-misses. There are fewer than `count` when mutations keep
+ * matching, e.g. for `.*`.
+ * @throws {RangeError} If `count` or `maxRepeat` is not a non-negative integer.
+ */
+export function generateNearMisses(
+    ast: PatternNode,
+    regex: RegExp,
+    options: SampleOptions,
+    accept: (text: string) => boolean = () => true,
+): string[] {
+    return new SampleGenerator(ast, regex, options, accept).nearMisses();
+}
+
+/**
+ * A small, fast seeded generator (mulberry32).
+ *
+ * @param seed Any number; only its low 32 bits are used.
+ * @returns A function giving numbers in `[0, 1)`.
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+class SampleGenerator {
+    private readonly random: () => number;
+    private readonly count: number;
+    private readonly maxRepeat: number;
+    /** Matches a whole string, whatever the `m` flag does to `$` */
+    private readonly whole: RegExp;
+    private readonly classFlags: string;
+    private readonly groupNumbers = new Map<GroupNode, number>();
+    private readonly groupNames = new Map<string, number>();
+    private readonly candidates = new Map<ClassNode, string[]>();
+    private readonly ranges = new Map<ClassNode, [number, number][]>();
+    private captures: (string | undefined)[] = [];
+
+    constructor(
+        private readonly ast: PatternNode,
+        regex: RegExp,
+        { count = 10, seed = 0, maxRepeat = 5 }: SampleOptions,
+        private readonly accept: (text: string) => boolean,
+    ) {
+        for (const [name, value] of [['count', count], ['maxRepeat', maxRepeat]] as const) {
+            if (!Number.isInteger(value) || value < 0) throw new RangeError(`${name} must be a non-negative integer, got ${value}`);
+        }
+        this.random = seededRandom(seed);
+        this.count = count;
+        this.maxRepeat = maxRepeat;
+        this.classFlags = regex.flags.replace(/[dgmy]/g, '');
+        this.whole = new RegExp(`(?:${regex.source})(?![\\s\\S])`, `${regex.flags.replace(/[gy]/g, '')}y`);
+        this.numberGroups(ast);
+    }
+
+    samples(): string[] {
+        const samples: string[] = [];
+        for (let attempt = 0; samples.length < this.count && attempt < this.count * ATTEMPTS_PER_SAMPLE; attempt++) {
+            const sample = this.sample();
+            if (sample !== null) samples.push(sample);
+        }
+        return samples;
+    }
+
+    nearMisses(): string[] {
+        const misses: string[] = [];
+        let base: string | null = null;
+        for (let attempt = 0; misses.length < this.count && attempt < this.count * ATTEMPTS_PER_SAMPLE; attempt++) {
+            // A fresh base now and then keeps the near-misses varied
+            if (base === null || this.random() < 0.5) base = this.sample() ?? base ?? '';
+            const mutant = this.mutate(Array.from(base));
+            if (!this.matches(mutant)) misses.push(mutant);
+        }
+        return misses;
+    }
+
+    /** Draws one candidate, or null if it does not match. */
+    private sample(): string | null {
+        this.captures = [];
+        const text = this.build(this.ast);
+        return text !== null && this.matches(text) ? text : null;
+    }
+
+    private matches(text: string): boolean {
+        this.whole.lastIndex = 0;
+        return this.whole.test(text) && this.accept(text);
+    }
+
+    private mutate(chars: string[]): string {
+        const index = this.pick(chars.length + 1);
+        const operations = chars.length === 0 ? ['insert'] : ['delete', 'insert', 'replace', 'duplicate', 'swap', 'truncate'];
+        switch (operations[this.pick(operations.length)]) {
+            case 'delete':
+                chars.splice(Math.min(index, chars.length - 1), 1);
+                break;
+            case 'insert':
+                chars.splice(index, 0, POOL[this.pick(POOL.length)]);
+                break;
+            case 'replace':
+                chars[Math.min(index, chars.length - 1)] = POOL[this.pick(POOL.length)];
+                break;
+            case 'duplicate': {
+                const at = Math.min(index, chars.length - 1);
+                chars.splice(at, 0, chars[at]);
+                break;
+            }
+            case 'swap': {
+                const at = Math.min(index, chars.length - 2);
+                if (at >= 0) [chars[at], chars[at + 1]] = [chars[at + 1], chars[at]];
+                break;
+            }
+            case 'truncate':
+                chars.length = Math.min(index, chars.length - 1);
+                break;
+        }
+        return chars.join('');
+    }
+
+    /** Builds text for a node, or null when a class has no characters to choose from. */
+    private build(node: PatternNode): string | null {
+        switch (node.type) {
+            case 'literal':
+                return node.value;
+            case 'class':
+                return this.character(node);
+            case 'group': {
+                const text = this.build(node.body);
+                const number = this.groupNumbers.get(node);
+                if (number !== undefined && text !== null) this.captures[number] = text;
+                return text;
+            }
+            case 'quantifier': {
+                const max = node.max ?? Math.max(node.min, this.maxRepeat);
+                const times = node.min + this.pick(max - node.min + 1);
+                let text = '';
+                for (let i = 0; i < times; i++) {
+                    const part = this.build(node.body);
+                    if (part === null) return null;
+                    text += part;
+                }
+                return text;
+            }
+            case 'alternation':
+                return this.build(node.alternatives[this.pick(node.alternatives.length)]);
+            case 'sequence': {
+                let text = '';
+                for (const element of node.elements) {
+                    const part = this.build(element);
+                    if (part === null) return null;
+                    text += part;
+                }
+                return text;
+            }
+            case 'assertion':
+                return '';
+            case 'backreference': {
+                const number = typeof node.ref === 'number' ? node.ref : this.groupNames.get(node.ref);
+                return (number !== undefined ? this.captures[number] : undefined) ?? '';
+            }
+        }
+    }
+
+    private character(node: ClassNode): string | null {
+        let candidates = this.candidates.get(node);
+        if (!candidates) {
+            try {
+                const matcher = new RegExp(`^${generate(node, this.classFlags)}$`, this.classFlags);
+                candidates = POOL.filter(char => matcher.test(char));
+            } catch {
+                // The class needs a flag the pattern lacks, so the pattern does not compile either
+                candidates = [];
+            }
+            this.candidates.set(node, candidates);
+        }
+        if (candidates.length > 0) return candidates[this.pick(candidates.length)];
+        return this.rareCharacter(node);
+    }
+
+    /** Picks from every character a class matches, for classes that match nothing in {@link POOL}. */
+    private rareCharacter(node: ClassNode): string | null {
+        let ranges = this.ranges.get(node);
+        if (!ranges) {
+            ranges = this.expand(node);
+            this.ranges.set(node, ranges);
+        }
+        const total = ranges.reduce((sum, [from, to]) => sum + to - from + 1, 0);
+        if (total === 0) return null;
+        let offset = this.pick(total);
+        for (const [from, to] of ranges) {
+            if (offset <= to - from) return String.fromCodePoint(from + offset);
+            offset -= to - from + 1;
+        }
+        return null;
+    }
+
+    /** Lists the code point ranges a class matches. Slow, as it tests every code point. */
+    private expand(node: ClassNode): [number, number][] {
+        let set: CharacterSetNode;
+        switch (node.kind) {
+            case 'set':
+                set = node;
+                break;
+            case 'escape':
+                set = { type: 'class', kind: 'set', negated: false, members: [{ kind: 'escape', value: node.value }] };
+                break;
+            case 'property':
+                set = { type: 'class', kind: 'set', negated: false, members: [{ kind: 'property', name: node.name, value: node.value, negated: node.negated }] };
+                break;
+            default:
+                return [];
+        }
+        return expandCharacterSet(set).members.flatMap((member): [number, number][] =>
+            member.kind === 'char'
+                ? [[member.value.codePointAt(0)!, member.value.codePointAt(0)!]]
+                : member.kind === 'range'
+                ? [[member.from.codePointAt(0)!, member.to.codePointAt(0)!]]
+                : []
+        );
+    }
+
+    /** A random integer in `[0, limit)`. */
+    private pick(limit: number): number {
+        return Math.floor(this.random() * limit);
+    }
+
+    /** Numbers capturing groups in the order their parentheses open. */
+    private numberGroups(node: PatternNode): void {
+        switch (node.type) {
+            case 'group':
+                if (node.capturing) {
+                    const number = this.groupNumbers.size + 1;
+                    this.groupNumbers.set(node, number);
+                    if (node.name !== undefined) this.groupNames.set(node.name, number);
+                }
+                return this.numberGroups(node.body);
+            case 'quantifier':
+                return this.numberGroups(node.body);
+            case 'assertion':
+                if (node.kind === 'lookahead' || node.kind === 'lookbehind') this.numberGroups(node.body);
+                return;
+            case 'alternation':
+                return node.alternatives.forEach(alternative => this.numberGroups(alternative));
+            case 'sequence':
+                return node.elements.forEach(element => this.numberGroups(element));
+        }
+    }
+}
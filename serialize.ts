@@ -0,0 +1,321 @@
+/**
+ * The JSON form of a builder, used by `IrregularExpression.toJSON()` and
+ * `IrregularExpression.fromJSON()`.
+ *
+ * A document holds the schema `version`, the `pattern` as an AST (see
+ * {@link PatternNode}), the `flags` and `maxRun`. Documents are validated
+ * node by node when read, and documents of other schema versions go through
+ * a migration first.
+ *
+ * @module
+ */
+
+import {
+    type AnchorNode,
+    type CharacterSetNode,
+    type ClassEscape,
+    type ClassMember,
+    generate,
+    type PatternNode,
+    type SetOperation,
+} from './ast.ts';
+import { isUnicodeProperty } from './parser.ts';
+
+/** The schema version `toJSON()` writes. */
+export const SCHEMA_VERSION = 1;
+
+/** A builder in JSON form, as written by `IrregularExpression.toJSON()`. */
+export interface SerializedExpression {
+    /** The schema version, currently 1 */
+    version: typeof SCHEMA_VERSION;
+    /** The pattern */
+    pattern: PatternNode;
+    /** The flags, e.g. `"gi"` */
+    flags: string;
+    /** The limit set with `runTimes()`, or null for none */
+    maxRun: number | null;
+}
+
+/**
+ * Upgrades a document from an older schema version, or from a format of your
+ * own, to the current one.
+ *
+ * @param document The parsed document.
+ * @param version The version the document declares.
+ * @returns The document in the current schema.
+ */
+export type SchemaMigration = (document: Record<string, unknown>, version: number) => unknown;
+
+/** Options for `IrregularExpression.fromJSON()`. */
+export interface FromJSONOptions {
+    /**
+     * Called for documents whose version is not the current one and that no
+     * built-in migration covers.
+     */
+    migrate?: SchemaMigration;
+}
+
+/** Thrown when a document does not follow the schema. */
+export class SchemaError extends Error {
+    /** Where in the document the problem is, e.g. `pattern.elements[2].max` */
+    readonly path: string;
+
+    constructor(message: string, path: string) {
+        super(path === '' ? message : `${message} at ${path}`);
+        this.name = 'SchemaError';
+        this.path = path;
+    }
+}
+
+/**
+ * Built-in upgrades from each past schema version to the next. Version 1 is
+ * the first, so there are none yet.
+ */
+const MIGRATIONS: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const CLASS_ESCAPES = ['d', 'D', 'w', 'W', 's', 'S'];
+const ANCHORS = ['startOfLine', 'endOfLine', 'wordBoundary', 'nonWordBoundary'];
+const GROUP_NAME = /^[$_\p{ID_Start}][$\u200C\u200D\p{ID_Continue}]*$/u;
+
+/**
+ * Reads a document, migrating and validating it.
+ *
+ * @param json The document, or its JSON text.
+ * @param options The migration hook.
+ * @returns The validated document, made of fresh nodes.
+ * @throws {SchemaError} If the document does not follow the schema.
+ */
+export function readDocument(json: unknown, options: FromJSONOptions = {}): SerializedExpression {
+    let document = json;
+    if (typeof document === 'string') {
+        try {
+            document = JSON.parse(document);
+        } catch (error) {
+            throw new SchemaError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`, '');
+        }
+    }
+    let record = object(document, '');
+    const version = record.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new SchemaError(`Expected a positive integer schema version, got ${describe(version)}`, 'version');
+    }
+    if (version > SCHEMA_VERSION && !options.migrate) {
+        throw new SchemaError(
+            `Schema version ${version} is newer than this library's (${SCHEMA_VERSION}); pass a migrate option to read it`,
+            'version',
+        );
+    }
+    if (version !== SCHEMA_VERSION) {
+        let from = version;
+        while (from < SCHEMA_VERSION && MIGRATIONS[from]) record = MIGRATIONS[from++](record);
+        if (from !== SCHEMA_VERSION) {
+            if (!options.migrate) {
+                throw new SchemaError(`No migration from schema version ${version}; pass a migrate option to read it`, 'version');
+            }
+            record = object(options.migrate(record, from), '');
+            if (record.version !== SCHEMA_VERSION) {
+                throw new SchemaError(`The migration returned schema version ${describe(record.version)}, not ${SCHEMA_VERSION}`, 'version');
+            }
+        }
+    }
+
+    const flags = record.flags;
+    if (typeof flags !== 'string' || !/^[dgimsuvy]*$/.test(flags) || new Set(flags).size !== flags.length) {
+        throw new SchemaError(`Expected flags made of distinct letters from "dgimsuvy", got ${describe(flags)}`, 'flags');
+    }
+    if (flags.includes('u') && flags.includes('v')) throw new SchemaError("The 'u' and 'v' flags cannot be combined", 'flags');
+    const maxRun = record.maxRun;
+    if (maxRun !== null && (typeof maxRun !== 'number' || !Number.isInteger(maxRun) || maxRun < 0)) {
+        throw new SchemaError(`Expected null or a non-negative integer, got ${describe(maxRun)}`, 'maxRun');
+    }
+    const pattern = readNode(record.pattern, 'pattern');
+    try {
+        new RegExp(generate(pattern, flags), flags);
+    } catch (error) {
+        throw new SchemaError(`The pattern does not compile: ${error instanceof Error ? error.message : String(error)}`, 'pattern');
+    }
+    return { version: SCHEMA_VERSION, pattern, flags, maxRun };
+}
+
+/** Checks one node and copies it, so the builder never shares nodes with the caller. */
+function readNode(value: unknown, path: string): PatternNode {
+    const node = object(value, path);
+    switch (node.type) {
+        case 'literal':
+            return { type: 'literal', value: string(node.value, `${path}.value`) };
+        case 'class':
+            return readClass(node, path);
+        case 'group': {
+            const capturing = boolean(node.capturing, `${path}.capturing`);
+            const body = readNode(node.body, `${path}.body`);
+            if (node.atomic !== undefined && boolean(node.atomic, `${path}.atomic`)) {
+                if (capturing || node.name !== undefined) throw new SchemaError('Atomic groups cannot capture', path);
+                return { type: 'group', capturing: false, atomic: true, body };
+            }
+            if (node.name === undefined) return { type: 'group', capturing, body };
+            const name = string(node.name, `${path}.name`);
+            if (!GROUP_NAME.test(name)) throw new SchemaError(`Invalid group name '${name}'`, `${path}.name`);
+            if (!capturing) throw new SchemaError('Named groups must capture', `${path}.capturing`);
+            return { type: 'group', capturing, name, body };
+        }
+        case 'quantifier': {
+            const min = count(node.min, `${path}.min`);
+            const max = node.max === null ? null : count(node.max, `${path}.max`);
+            if (max !== null && max < min) throw new SchemaError(`max (${max}) is less than min (${min})`, `${path}.max`);
+            const greedy = boolean(node.greedy, `${path}.greedy`);
+            const body = readNode(node.body, `${path}.body`);
+            if (node.possessive !== undefined && boolean(node.possessive, `${path}.possessive`)) {
+                if (!greedy) throw new SchemaError('Possessive quantifiers must be greedy', `${path}.greedy`);
+                return { type: 'quantifier', min, max, greedy, body, possessive: true };
+            }
+            return { type: 'quantifier', min, max, greedy, body };
+        }
+        case 'alternation':
+            return { type: 'alternation', alternatives: list(node.alternatives, `${path}.alternatives`, readNode) };
+        case 'sequence':
+            return { type: 'sequence', elements: list(node.elements, `${path}.elements`, readNode) };
+        case 'assertion':
+            if (node.kind === 'lookahead' || node.kind === 'lookbehind') {
+                return {
+                    type: 'assertion',
+                    kind: node.kind,
+                    negated: boolean(node.negated, `${path}.negated`),
+                    body: readNode(node.body, `${path}.body`),
+                };
+            }
+            if (!ANCHORS.includes(node.kind as string)) {
+                throw new SchemaError(`Unknown assertion kind ${describe(node.kind)}`, `${path}.kind`);
+            }
+            return { type: 'assertion', kind: node.kind as AnchorNode['kind'] };
+        case 'backreference': {
+            const ref = node.ref;
+            if (typeof ref === 'string' && GROUP_NAME.test(ref)) return { type: 'backreference', ref };
+            if (typeof ref === 'number' && Number.isInteger(ref) && ref >= 1) return { type: 'backreference', ref };
+            throw new SchemaError(`Expected a group number or name, got ${describe(ref)}`, `${path}.ref`);
+        }
+        default:
+            throw new SchemaError(`Unknown node type ${describe(node.type)}`, `${path}.type`);
+    }
+}
+
+/** Checks a `class` node. */
+function readClass(node: Record<string, unknown>, path: string): PatternNode {
+    switch (node.kind) {
+        case 'any':
+            return { type: 'class', kind: 'any' };
+        case 'escape':
+            return { type: 'class', kind: 'escape', value: classEscape(node.value, `${path}.value`) };
+        case 'property':
+            return { type: 'class', ...readProperty(node, path) };
+        case 'set':
+            return readSet(node, path);
+        default:
+            throw new SchemaError(`Unknown class kind ${describe(node.kind)}`, `${path}.kind`);
+    }
+}
+
+/** Checks a bracketed set. */
+function readSet(node: Record<string, unknown>, path: string): CharacterSetNode {
+    const set: CharacterSetNode = {
+        type: 'class',
+        kind: 'set',
+        negated: boolean(node.negated, `${path}.negated`),
+        members: list(node.members, `${path}.members`, readMember),
+    };
+    if (node.operations !== undefined) {
+        set.operations = list(node.operations, `${path}.operations`, (value, path): SetOperation => {
+            const operation = object(value, path);
+            if (operation.kind !== 'intersection' && operation.kind !== 'subtraction') {
+                throw new SchemaError(`Unknown set operation ${describe(operation.kind)}`, `${path}.kind`);
+            }
+            return { kind: operation.kind, operand: readMember(operation.operand, `${path}.operand`) };
+        });
+    }
+    return set;
+}
+
+/** Checks one member of a bracketed set. */
+function readMember(value: unknown, path: string): ClassMember {
+    const member = object(value, path);
+    switch (member.kind) {
+        case 'char':
+            return { kind: 'char', value: character(member.value, `${path}.value`) };
+        case 'range': {
+            const from = character(member.from, `${path}.from`);
+            const to = character(member.to, `${path}.to`);
+            if (from.codePointAt(0)! > to.codePointAt(0)!) throw new SchemaError(`Range out of order: ${from}-${to}`, path);
+            return { kind: 'range', from, to };
+        }
+        case 'escape':
+            return { kind: 'escape', value: classEscape(member.value, `${path}.value`) };
+        case 'property':
+            return readProperty(member, path);
+        case 'class':
+            return { kind: 'class', node: readSet(object(member.node, `${path}.node`), `${path}.node`) };
+        default:
+            throw new SchemaError(`Unknown class member kind ${describe(member.kind)}`, `${path}.kind`);
+    }
+}
+
+/** Checks a Unicode property, in a node or as a set member. */
+function readProperty(
+    node: Record<string, unknown>,
+    path: string,
+): { kind: 'property'; name: string; value?: string; negated: boolean } {
+    const name = string(node.name, `${path}.name`);
+    const value = node.value === undefined ? undefined : string(node.value, `${path}.value`);
+    if (!isUnicodeProperty(name, value)) {
+        throw new SchemaError(`Unknown Unicode property ${value === undefined ? name : `${name}=${value}`}`, path);
+    }
+    const negated = boolean(node.negated, `${path}.negated`);
+    return value === undefined ? { kind: 'property', name, negated } : { kind: 'property', name, value, negated };
+}
+
+function object(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError(`Expected an object, got ${describe(value)}`, path);
+    }
+    return value as Record<string, unknown>;
+}
+
+/** Checks an array, and reads each item with the path it is found at. */
+function list<T>(value: unknown, path: string, read: (item: unknown, path: string) => T): T[] {
+    if (!Array.isArray(value)) throw new SchemaError(`Expected an array, got ${describe(value)}`, path);
+    return value.map((item, index) => read(item, `${path}[${index}]`));
+}
+
+function string(value: unknown, path: string): string {
+    if (typeof value !== 'string') throw new SchemaError(`Expected a string, got ${describe(value)}`, path);
+    return value;
+}
+
+function character(value: unknown, path: string): string {
+    const text = string(value, path);
+    if ([...text].length !== 1) throw new SchemaError(`Expected a single character, got ${describe(value)}`, path);
+    return text;
+}
+
+function boolean(value: unknown, path: string): boolean {
+    if (typeof value !== 'boolean') throw new SchemaError(`Expected a boolean, got ${describe(value)}`, path);
+    return value;
+}
+
+function count(value: unknown, path: string): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new SchemaError(`Expected a non-negative integer, got ${describe(value)}`, path);
+    }
+    return value;
+}
+
+function classEscape(value: unknown, path: string): ClassEscape {
+    if (typeof value !== 'string' || !CLASS_ESCAPES.includes(value)) {
+        throw new SchemaError(`Expected one of d, D, w, W, s, S, got ${describe(value)}`, path);
+    }
+    return value as ClassEscape;
+}
+
+/** Shows a value in an error message. */
+function describe(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    return JSON.stringify(value) ?? String(value);
+}
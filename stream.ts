@@ -0,0 +1,303 @@
+/**
+ * Matching over a `ReadableStream`, used by `IrregularExpression.matchStream()`.
+ * Only a bounded buffer of the input is kept: the text after the last match,
+ * cut down to what a match could still need.
+ *
+ * @module
+ */
+
+import { alternation, generate, type PatternNode, sequence } from './ast.ts';
+import { LineIndex, type MatchResult, toMatchResult } from './match.ts';
+
+/** Options for `IrregularExpression.matchStream()`. */
+export interface StreamOptions {
+    /**
+     * The longest stretch of input, in UTF-16 code units, that a match and
+     * the text it looks around may span. Patterns that can match more than
+     * this still work, but a match that reaches the window is an error,
+     * since it may have been cut short, and so is a window's worth of text
+     * that a match may still be under way in. Defaults to 65536.
+     */
+    window?: number;
+}
+
+/** The default {@link StreamOptions.window}. */
+export const DEFAULT_WINDOW = 65536;
+
+/**
+ * How far around a match the engine can look, in UTF-16 code units.
+ * `Infinity` when there is no bound.
+ */
+export interface MatchExtent {
+    /** From the start of a match to the last character it can inspect */
+    ahead: number;
+    /** From the start of a match back to the first character a lookbehind can inspect */
+    behind: number;
+}
+
+/**
+ * Works out how far a match of a pattern can reach.
+ *
+ * @param node The pattern, before atomic groups are lowered.
+ * @param unicode Whether the pattern matches code points (`u` or `v`), which may be two code units long.
+ * @returns The extent of a match.
+ */
+export function matchExtent(node: PatternNode, unicode: boolean): MatchExtent {
+    const groups = new Map<number | string, number>();
+    let captures = 0;
+    let behind = 0;
+    const reach = (current: PatternNode): number => {
+        switch (current.type) {
+            case 'literal':
+                return current.value.length;
+            case 'class':
+                return unicode ? 2 : 1;
+            case 'group': {
+                const number = current.capturing ? ++captures : 0;
+                const length = reach(current.body);
+                if (current.capturing) {
+                    groups.set(number, length);
+                    if (current.name !== undefined) groups.set(current.name, length);
+                }
+                return length;
+            }
+            case 'quantifier': {
+                const length = reach(current.body);
+                if (current.max === null) return length === 0 ? 0 : Infinity;
+                return current.max * length;
+            }
+            case 'alternation':
+                return Math.max(0, ...current.alternatives.map(reach));
+            case 'sequence':
+                return current.elements.reduce((total, element) => total + reach(element), 0);
+            case 'assertion':
+                if (current.kind === 'lookahead') return reach(current.body);
+                if (current.kind === 'lookbehind') behind = Math.max(behind, reach(current.body));
+                return 0;
+            case 'backreference':
+                // A group defined later in the pattern is unknown yet, and so unbounded
+                return groups.get(current.ref) ?? Infinity;
+        }
+    };
+    return { ahead: reach(node), behind };
+}
+
+/**
+ * Compiles a regex that finds where, in text that stops short, a match of
+ * the pattern may have started but not yet ended: it matches from any such
+ * position to the end of the text. It errs towards finding one, so that no
+ * text a match may need is let go: lookarounds, word boundaries and
+ * backreferences are assumed to pass.
+ *
+ * @param node The pattern, before atomic groups are lowered.
+ * @param flags The flags the pattern is matched with.
+ * @returns The regex, with the `g` flag.
+ */
+export function partialMatcher(node: PatternNode, flags: string): RegExp {
+    const regexFlags = Array.from(new Set(flags.replace(/[dy]/g, '')).add('g')).join('');
+    const end: PatternNode = { type: 'assertion', kind: 'lookahead', negated: true, body: { type: 'class', kind: 'set', negated: true, members: [] } };
+    return new RegExp(generate(sequence([prefixOf(loosen(node)), end]), regexFlags), regexFlags);
+}
+
+/** Rewrites a pattern to match a superset of its matches, with no groups that capture and nothing that looks past the text it matches. */
+function loosen(node: PatternNode): PatternNode {
+    switch (node.type) {
+        case 'group':
+            return { type: 'group', capturing: false, body: loosen(node.body) };
+        case 'quantifier':
+            return { type: 'quantifier', min: node.min, max: node.max, greedy: node.greedy, body: loosen(node.body) };
+        case 'alternation':
+            return alternation(node.alternatives.map(loosen));
+        case 'sequence':
+            return sequence(node.elements.map(loosen));
+        case 'assertion':
+            return node.kind === 'startOfLine' || node.kind === 'endOfLine' ? node : sequence([]);
+        case 'backreference':
+            return { type: 'quantifier', min: 0, max: null, greedy: true, body: { type: 'class', kind: 'set', negated: true, members: [] } };
+        default:
+            return node;
+    }
+}
+
+/** A pattern matching every prefix of the matches of a loosened pattern, including the empty one. */
+function prefixOf(node: PatternNode): PatternNode {
+    const optional = (body: PatternNode): PatternNode => ({ type: 'quantifier', min: 0, max: 1, greedy: true, body });
+    switch (node.type) {
+        case 'literal':
+            return [...node.value].reduceRight<PatternNode>(
+                (rest, char) => optional(sequence([{ type: 'literal', value: char }, rest])),
+                sequence([]),
+            );
+        case 'class':
+            return optional(node);
+        case 'group':
+            return { type: 'group', capturing: false, body: prefixOf(node.body) };
+        case 'quantifier': {
+            if (node.max === 0) return sequence([]);
+            const repeated: PatternNode = { ...node, min: 0, max: node.max === null ? null : node.max - 1 };
+            return sequence([repeated, prefixOf(node.body)]);
+        }
+        case 'alternation':
+            return { type: 'group', capturing: false, body: alternation(node.alternatives.map(prefixOf)) };
+        case 'sequence':
+            if (node.elements.length === 0) return node;
+            return {
+                type: 'group',
+                capturing: false,
+                body: alternation(node.elements.map((element, i) => sequence([...node.elements.slice(0, i), prefixOf(element)]))),
+            };
+        default:
+            return node;
+    }
+}
+
+/**
+ * Yields the matches of a global regex over a stream of text, with offsets,
+ * lines and columns counted from the start of the stream.
+ *
+ * A match is only yielded once the buffer holds all the text it could
+ * depend on, so the results are those of matching the whole input at once.
+ *
+ * @param regex The regex to match, which must have the `g` and `d` flags.
+ * @param extent How far a match of the regex can reach.
+ * @param partial Finds where a match may be under way at the end of the buffer, see {@link partialMatcher}.
+ * @param readable The text, or its UTF-8 bytes.
+ * @param window The longest stretch of input a match may span.
+ * @param limit The most matches to yield, or null for all of them.
+ * @param prepare Adjusts each raw match before it is converted, e.g. to hide helper groups, or returns null to skip it.
+ * @throws {RangeError} If a match reaches the window, or a match may be
+ * under way in a window's worth of text.
+ */
+export async function* streamMatches<Named extends string, Captures extends string[]>(
+    regex: RegExp,
+    extent: MatchExtent,
+    partial: RegExp,
+    readable: ReadableStream<string | Uint8Array>,
+    window: number,
+    limit: number | null,
+    prepare: (match: RegExpExecArray) => RegExpExecArray | null,
+): AsyncGenerator<MatchResult<Named, Captures>, void> {
+    const unicode = regex.unicode || regex.unicodeSets;
+    // One extra character is kept on each side, so `$`, `^` and `\b` see the text beyond the match
+    const ahead = Math.min(extent.ahead, window) + 1;
+    const behind = Math.min(extent.behind, window) + 1;
+    const decoder = new TextDecoder();
+    const reader = readable.getReader();
+
+    /** The text still needed: context before `scanFrom`, and everything after it */
+    let buffer = '';
+    /** The offset in the stream of `buffer[0]`, and the line and column it is at */
+    let base = { offset: 0, line: 1, column: 1 };
+    /** Where in the buffer the next match may start */
+    let scanFrom = 0;
+    let found = 0;
+    let done = false;
+
+    try {
+        while (!done && (limit === null || found < limit)) {
+            const chunk = await reader.read();
+            if (chunk.done) {
+                buffer += decoder.decode();
+                done = true;
+            } else {
+                buffer += typeof chunk.value === 'string' ? chunk.value : decoder.decode(chunk.value, { stream: true });
+            }
+
+            const lines = new LineIndex(buffer);
+            /** Where a match was found that more text could still change */
+            let pending: number | null = null;
+            while (limit === null || found < limit) {
+                regex.lastIndex = scanFrom;
+                const match = regex.exec(buffer);
+                if (match === null) break;
+                if (!done && match.index + ahead > buffer.length) {
+                    pending = match.index;
+                    break;
+                }
+                if (match[0].length >= window) {
+                    const { line, column } = locate(base, lines, match.index);
+                    throw new RangeError(
+                        `A match at line ${line}, column ${column} reaches the stream window of ${window} characters.`,
+                    );
+                }
+                const prepared = prepare(match);
+                if (prepared) {
+                    found++;
+                    yield shift(toMatchResult<Named, Captures>(prepared, lines), base, lines);
+                }
+                scanFrom = match.index + match[0].length;
+                if (match[0] === '') {
+                    if (scanFrom >= buffer.length) break;
+                    scanFrom += unicode && (buffer.codePointAt(scanFrom) ?? 0) > 0xffff ? 2 : 1;
+                }
+            }
+
+            if (!done && extent.ahead < window) {
+                // No match can start before the last `ahead` characters without being found already
+                scanFrom = Math.max(scanFrom, buffer.length - ahead + 1);
+            } else if (!done) {
+                // A match with no bound on its length may have started anywhere and not ended yet
+                partial.lastIndex = scanFrom;
+                const underWay = partial.exec(buffer)?.index ?? buffer.length;
+                if (buffer.length - underWay >= window) {
+                    const { line, column } = locate(base, lines, underWay);
+                    throw new RangeError(
+                        `A match that may start at line ${line}, column ${column} reaches the stream window of ${window} characters.`,
+                    );
+                }
+                scanFrom = Math.min(underWay, pending ?? Infinity);
+            }
+            if (unicode && /^[\uDC00-\uDFFF]/.test(buffer.slice(scanFrom)) && /[\uD800-\uDBFF]$/.test(buffer.slice(0, scanFrom))) {
+                scanFrom--;
+            }
+            let cut = Math.max(0, scanFrom - behind);
+            // Never separate "\r\n", which would count as two line breaks
+            if (cut > 0 && buffer[cut - 1] === '\r') cut--;
+            if (cut > 0) {
+                base = locate(base, lines, cut);
+                buffer = buffer.slice(cut);
+                scanFrom -= cut;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/** The stream offset, line and column of a buffer offset. */
+function locate(
+    base: { offset: number; line: number; column: number },
+    lines: LineIndex,
+    offset: number,
+): { offset: number; line: number; column: number } {
+    const { line, column } = lines.locate(offset);
+    return {
+        offset: base.offset + offset,
+        line: base.line + line - 1,
+        column: line === 1 ? base.column + column - 1 : column,
+    };
+}
+
+/** Moves a match found in the buffer to its place in the stream. */
+function shift<Named extends string, Captures extends string[]>(
+    result: MatchResult<Named, Captures>,
+    base: { offset: number; line: number; column: number },
+    lines: LineIndex,
+): MatchResult<Named, Captures> {
+    const move = (span: [number, number] | undefined): [number, number] | undefined =>
+        span && [span[0] + base.offset, span[1] + base.offset];
+    const namedSpans: Record<string, [number, number] | undefined> = {};
+    for (const [name, span] of Object.entries(result.namedSpans as Record<string, [number, number] | undefined>)) {
+        namedSpans[name] = move(span);
+    }
+    const { line, column } = locate(base, lines, result.start);
+    return {
+        ...result,
+        line,
+        column,
+        start: result.start + base.offset,
+        end: result.end + base.offset,
+        spans: (result.spans as ([number, number] | undefined)[]).map(move) as MatchResult<Named, Captures>['spans'],
+        namedSpans: namedSpans as MatchResult<Named, Captures>['namedSpans'],
+    };
+}
@@ -0,0 +1,202 @@
+/**
+ * A tagged template for writing patterns as regex source without the
+ * escaping bugs of string concatenation:
+ *
+ * ```typescript
+ * const sku = irx("i")`^${IrregularExpression.match().digit().exactly(3)}-${userInput}$`;
+ * ```
+ *
+ * The template's own text is regex source, read raw so `\d` needs no
+ * doubled backslash. Interpolated strings are matched literally, escaped as
+ * `literal()` escapes them, and interpolated builders are embedded as
+ * non-capturing groups. The result is an ordinary builder that chaining can
+ * continue on.
+ *
+ * @module
+ */
+
+import { IrregularExpression } from './mod.ts';
+import { type CharacterSetNode, type ClassMember, type PatternNode, sequence } from './ast.ts';
+import { parse } from './parser.ts';
+import { SCHEMA_VERSION } from './serialize.ts';
+
+/** A value that can be interpolated into an {@link irx} template. */
+export type TemplateValue = string | IrregularExpression<string, string[]>;
+
+/** A tag that turns a template into a builder. */
+export type TemplateTag = (strings: TemplateStringsArray, ...values: TemplateValue[]) => IrregularExpression<string, string[]>;
+
+/**
+ * Builds a pattern from a template. Call it as a tag, or with flags to get a
+ * tag that adds them: a template literal cannot carry flags after its closing
+ * backtick, so ``irx("i")`...` `` stands in for ``irx`...`i``.
+ *
+ * The pattern gets the default flags of {@link IrregularExpression.match},
+ * the flags given here and those of every interpolated builder. Only a
+ * builder's pattern and flags are embedded, not its `validate()` checks.
+ * Its numbered backreferences, atomic groups and possessive quantifiers
+ * keep pointing at its own groups, while those in the template's text
+ * count the builder's groups too, and `\k<name>` there can name one of
+ * them. A string between brackets adds its
+ * characters to the class; a builder cannot go there.
+ *
+ * @returns A new instance of IrregularExpression holding the pattern.
+ * @throws {RegexParseError} If the template is not a valid pattern; `offset` counts each interpolation as one character.
+ * @throws {SyntaxError} If the flags are invalid.
+ * @throws {TypeError} If an interpolation stands where no character can, or a builder is put in a character class.
+ *
+ * @example
+ * ```typescript
+ * const userInput = "a.b";
+ * const regex = irx`^${IrregularExpression.match().digit().exactly(3)}-${userInput}$`.literal("!").zeroOrOne();
+ *
+ * console.log(regex.getPattern()); // "^(?:\\d{3})-a\\.b$!?"
+ * console.log(irx("i")`\d+${"px"}`.test("12PX")); // true
+ * ```
+ */
+export function irx(flags: string): TemplateTag;
+export function irx(strings: TemplateStringsArray, ...values: TemplateValue[]): IrregularExpression<string, string[]>;
+export function irx(
+    flagsOrStrings: string | TemplateStringsArray,
+    ...values: TemplateValue[]
+): TemplateTag | IrregularExpression<string, string[]> {
+    if (typeof flagsOrStrings === 'string') {
+        return (strings, ...values) => assemble(strings, values, flagsOrStrings);
+    }
+    return assemble(flagsOrStrings, values, '');
+}
+
+/**
+ * Parses a template's raw text with a placeholder character for each
+ * interpolation, then puts the interpolated values in the placeholders'
+ * place in the tree, so each builder keeps its atomic groups and its own
+ * group numbering.
+ *
+ * @param strings The template's text.
+ * @param values The interpolated values.
+ * @param extraFlags Flags to add to the defaults and those of the interpolated builders.
+ * @returns The parsed builder.
+ */
+function assemble(strings: TemplateStringsArray, values: TemplateValue[], extraFlags: string): IrregularExpression<string, string[]> {
+    const flags = new Set(['g', ...extraFlags]);
+    for (const value of values) {
+        if (typeof value !== 'string') for (const flag of value.getFlags()) flags.add(flag);
+    }
+    // 'v' is a superset of 'u', and the two cannot be combined
+    if (flags.has('v')) flags.delete('u');
+    const regexFlags = Array.from(flags).join('');
+
+    const text = strings.raw.join('');
+    let code = 0xe000;
+    while (text.includes(String.fromCodePoint(code))) code++;
+    const placeholder = String.fromCodePoint(code);
+    // Backreferences in the text may refer to the groups of interpolated builders
+    const embedded = values.flatMap(value => typeof value === 'string' ? [] : captureNames(value.toAST()));
+    const ast = parse(strings.raw.join(placeholder), regexFlags, {
+        count: embedded.length,
+        names: embedded.filter(name => name !== undefined),
+    });
+
+    let next = 0;
+    let captures = 0;
+    const take = (): TemplateValue => values[next++];
+    const fill = (node: PatternNode): PatternNode => {
+        switch (node.type) {
+            case 'literal': {
+                if (!node.value.includes(placeholder)) return node;
+                const parts: PatternNode[] = [];
+                node.value.split(placeholder).forEach((part, i) => {
+                    if (i > 0) parts.push(embed(take()));
+                    if (part !== '') parts.push({ type: 'literal', value: part });
+                });
+                return parts.length === 1 ? parts[0] : sequence(parts);
+            }
+            case 'class':
+                return node.kind === 'set' ? fillSet(node) : node;
+            case 'group': {
+                if (node.capturing) captures++;
+                return { ...node, body: fill(node.body) };
+            }
+            case 'quantifier':
+                return { ...node, body: fill(node.body) };
+            case 'alternation':
+                return { ...node, alternatives: node.alternatives.map(fill) };
+            case 'sequence':
+                return sequence(node.elements.map(fill));
+            case 'assertion':
+                return node.kind === 'lookahead' || node.kind === 'lookbehind' ? { ...node, body: fill(node.body) } : node;
+            case 'backreference':
+                return node;
+        }
+    };
+    const embed = (value: TemplateValue): PatternNode => {
+        if (typeof value === 'string') return { type: 'literal', value };
+        const body = renumber(value.toAST(), captures);
+        captures += captureNames(body).length;
+        return { type: 'group', capturing: false, body };
+    };
+    const fillSet = (set: CharacterSetNode): CharacterSetNode => {
+        const fillMember = (member: ClassMember): ClassMember[] => {
+            if (member.kind === 'class') return [{ kind: 'class', node: fillSet(member.node) }];
+            if (member.kind === 'char' && member.value === placeholder) {
+                const value = take();
+                if (typeof value !== 'string') throw new TypeError('irx: a builder cannot be interpolated into a character class.');
+                return [...value].map(char => ({ kind: 'char', value: char }));
+            }
+            if (member.kind === 'range' && (member.from === placeholder || member.to === placeholder)) {
+                throw new TypeError('irx: an interpolation cannot be the end of a range in a character class.');
+            }
+            return [member];
+        };
+        const operations = set.operations?.map(operation => {
+            const [operand, ...rest] = fillMember(operation.operand);
+            if (rest.length > 0) throw new TypeError('irx: an interpolated set operand must be a single character.');
+            return { ...operation, operand };
+        });
+        return { ...set, members: set.members.flatMap(fillMember), ...(operations && { operations }) };
+    };
+
+    const pattern = fill(ast);
+    if (next !== values.length) {
+        throw new TypeError('irx: an interpolation can only stand where a character of the pattern could.');
+    }
+    return IrregularExpression.fromJSON({ version: SCHEMA_VERSION, pattern, flags: regexFlags, maxRun: null });
+}
+
+/** Shifts the numbered backreferences of an embedded pattern past the groups before it. */
+function renumber(node: PatternNode, offset: number): PatternNode {
+    if (offset === 0) return node;
+    switch (node.type) {
+        case 'backreference':
+            return typeof node.ref === 'number' ? { ...node, ref: node.ref + offset } : node;
+        case 'group':
+        case 'quantifier':
+            return { ...node, body: renumber(node.body, offset) };
+        case 'alternation':
+            return { ...node, alternatives: node.alternatives.map(child => renumber(child, offset)) };
+        case 'sequence':
+            return { ...node, elements: node.elements.map(child => renumber(child, offset)) };
+        case 'assertion':
+            return node.kind === 'lookahead' || node.kind === 'lookbehind' ? { ...node, body: renumber(node.body, offset) } : node;
+        default:
+            return node;
+    }
+}
+
+/** Lists the groups of a pattern that capture, in order, by name or `undefined` for unnamed ones. */
+function captureNames(node: PatternNode): (string | undefined)[] {
+    switch (node.type) {
+        case 'group':
+            return [...node.capturing ? [node.name] : [], ...captureNames(node.body)];
+        case 'quantifier':
+            return captureNames(node.body);
+        case 'alternation':
+            return node.alternatives.flatMap(captureNames);
+        case 'sequence':
+            return node.elements.flatMap(captureNames);
+        case 'assertion':
+            return node.kind === 'lookahead' || node.kind === 'lookbehind' ? captureNames(node.body) : [];
+        default:
+            return [];
+    }
+}